@@ -1,368 +1,634 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
-import { Play, Pause, SkipForward, RotateCcw, Maximize, Volume2, VolumeX } from "lucide-react";
+import { Play, Pause, SkipForward, SkipBack, FastForward, RotateCcw, Maximize, Volume2, VolumeX, ListChecks, CalendarDays, Check, Mic, Languages, SlidersHorizontal, MonitorCheck, MonitorOff, BookOpen, ArrowLeftRight, BellRing, CalendarClock, Plus, Timer, TrendingUp, PictureInPicture2 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import './index.css';
-
-// ===== Tipado =====
-interface Exercise { key: string; title: string; cue: string; duration: number; image?: string; credit?: string }
-interface Step extends Exercise { phase: "Calentamiento" | "Fuerza" | "Estiramientos"; indexInPhase: number; totalInPhase: number }
-
-// ===== Util: fallback de imagen + crédito =====
-const PLACEHOLDER = (label: string) =>
-  `https://placehold.co/800x450/062a23/9ae6b4?text=${encodeURIComponent(label)}`;
-
-const withImg = (image: string | undefined, title: string) => image ?? PLACEHOLDER(title);
-const hostOf = (url?: string) => {
-  try { return url ? new URL(url).hostname.replace(/^www\./, '') : undefined; } catch { return undefined; }
-};
-
-// ===== Imágenes (Wikimedia Commons: usamos Special:FilePath para URL directa) =====
-// Nota: si alguna no carga en tu red, se verá el placeholder verde con el nombre del ejercicio.
-// ===== Imágenes (Wikimedia Commons, URL directa vía Special:FilePath) =====
-const IMG = {
-  breathing: {
-    image: "https://commons.wikimedia.org/wiki/Special:FilePath/Diaphragmatic%20breathing.gif",
-    credit: "commons.wikimedia.org"
-  },
-  catcow: {
-    image: "https://commons.wikimedia.org/wiki/Special:FilePath/Bidalasana.jpg",
-    credit: "commons.wikimedia.org"
-  },
-  shoulderRolls: {
-    image: "https://commons.wikimedia.org/wiki/Special:FilePath/Diagram%20showing%20how%20to%20do%20shoulder%20rolls%20after%20breast%20reconstruction%20surgery%20CRUK%20151.svg",
-    credit: "Cancer Research UK via Wikimedia"
-  },
-  tspine: {
-    image: undefined, credit: undefined // no hay buen recurso libre específico; usamos placeholder
-  },
-  wristCircles: {
-    // No hay “circles” exacto libre; mejor usar una referencia de muñeca/prevención CTS
-    image: "https://commons.wikimedia.org/wiki/Special:FilePath/Wrist%20stretch.jpg",
-    credit: "commons.wikimedia.org"
-  },
-  birdDog: {
-    image: "https://commons.wikimedia.org/wiki/Special:FilePath/Birddog%20exercise.svg",
-    credit: "commons.wikimedia.org"
-  },
-  lowPlank: {
-    image: "https://commons.wikimedia.org/wiki/Special:FilePath/Plank%20exercise.svg",
-    credit: "commons.wikimedia.org"
-  },
-  gluteBridge: {
-    image: "https://commons.wikimedia.org/wiki/Special:FilePath/Glute-bridge.png",
-    credit: "commons.wikimedia.org"
-  },
-  wristPushups: {
-    // Reemplazo por imagen de estiramiento/carga suave de muñeca (menos confuso que push-up genérico)
-    image: "https://commons.wikimedia.org/wiki/Special:FilePath/Wrist%20stretch.jpg",
-    credit: "commons.wikimedia.org"
-  },
-  doorPec: {
-    image: "https://commons.wikimedia.org/wiki/Special:FilePath/Diagram%20showing%20how%20to%20do%20a%20chest%20stretch%20exercise%20after%20breast%20reconstruction%20surgery%20CRUK%20142.svg",
-    credit: "Cancer Research UK via Wikimedia"
-  },
-  upperTrap: {
-    // Mantengo recurso libre histórico (anterior ya funcionaba). Si quieres lo cambiamos por vector anatómico.
-    image: "https://commons.wikimedia.org/wiki/Special:FilePath/A%20treatise%20on%20orthopedic%20surgery%20(1903)%20(14578123550).jpg",
-    credit: "commons.wikimedia.org"
-  },
-  childPose: {
-    image: "https://commons.wikimedia.org/wiki/Special:FilePath/Balasana.JPG",
-    credit: "commons.wikimedia.org"
-  },
-  wristFlex: {
-    image: "https://commons.wikimedia.org/wiki/Special:FilePath/Exercise%20Wrist%20Flexor%20Stretch.png",
-    credit: "commons.wikimedia.org"
-  },
-  wristExt: {
-    image: "https://commons.wikimedia.org/wiki/Special:FilePath/Exercise%20Wrist%20Extensor%20Stretch.png",
-    credit: "commons.wikimedia.org"
-  },
-};
-
-
-// ====== Definición de ejercicios ======
-const warmup: Exercise[] = [
-  {
-    key: "breathing",
-    title: "Respiración diafragmática y apertura de pecho",
-    cue: "Respira 5× profundo; hombros atrás, costillas se expanden.",
-    duration: 60,
-    image: IMG.breathing.image, credit: IMG.breathing.credit
-  },
-  {
-    key: "catcow",
-    title: "Cat–Cow (Gato–Vaca)",
-    cue: "Alterna redondear y extender la columna, lento y controlado.",
-    duration: 60,
-    image: IMG.catcow.image, credit: IMG.catcow.credit
-  },
-  {
-    key: "shoulder-rolls",
-    title: "Rotaciones de hombros hacia atrás",
-    cue: "Movimientos amplios; evita encoger cuello.",
-    duration: 60,
-    image: IMG.shoulderRolls.image, credit: IMG.shoulderRolls.credit
-  },
-  {
-    key: "tspine-rotation",
-    title: "Movilidad torácica en 4 apoyos",
-    cue: "Mano detrás de la cabeza, rota abriendo el pecho. Cambia de lado a mitad.",
-    duration: 60,
-    image: IMG.tspine.image, credit: IMG.tspine.credit
-  },
-  {
-    key: "wrist-circles",
-    title: "Círculos de muñeca",
-    cue: "Palmas al suelo o en el aire; gira suave ambos sentidos.",
-    duration: 60,
-    image: IMG.wristCircles.image, credit: IMG.wristCircles.credit
-  },
-];
-
-const strengthCore: Exercise[] = [
-  {
-    key: "scapular-prone",
-    title: "Retracciones escapulares (boca abajo)",
-    cue: "Levanta pecho levemente y junta escápulas; no tenses cuello.",
-    duration: 60,
-    image: IMG.gluteBridge.image, // ilustrativo genérico de suelo
-    credit: IMG.gluteBridge.credit
-  },
-  {
-    key: "low-plank",
-    title: "Plancha baja",
-    cue: "Cadera alineada; abdomen y glúteos activos; no hundas la lumbar.",
-    duration: 60,
-    image: IMG.lowPlank.image, credit: IMG.lowPlank.credit
-  },
-  {
-    key: "bird-dog",
-    title: "Bird Dog",
-    cue: "Extiende brazo y pierna contrarios; pelvis estable; alterna.",
-    duration: 60,
-    image: IMG.birdDog.image, credit: IMG.birdDog.credit
-  },
-  {
-    key: "glute-bridge",
-    title: "Puente de glúteo (modificado)",
-    cue: "Sube cadera sin arquear lumbar; aprieta glúteos arriba.",
-    duration: 60,
-    image: IMG.gluteBridge.image, credit: IMG.gluteBridge.credit
-  },
-  {
-    key: "wrist-pushups",
-    title: "Wrist push-ups suaves (en rodillas)",
-    cue: "Manos hacia adelante y luego hacia atrás; rango cómodo.",
-    duration: 60,
-    image: IMG.wristPushups.image, credit: IMG.wristPushups.credit
-  },
-];
-
-// 2 rondas para total 10 min
-const strengthRounds = 2;
-
-const cooldown: Exercise[] = [
-  {
-    key: "door-pec",
-    title: "Estiramiento de pectoral (pared/puerta)",
-    cue: "Brazo en pared, gira el torso hasta sentir apertura.",
-    duration: 60,
-    image: IMG.doorPec.image, credit: IMG.doorPec.credit
-  },
-  {
-    key: "upper-trap",
-    title: "Estiramiento trapecio superior",
-    cue: "Oreja al hombro, hombro contrario desciende; respira.",
-    duration: 60,
-    image: IMG.upperTrap.image, credit: IMG.upperTrap.credit
-  },
-  {
-    key: "child-pose",
-    title: "Postura del niño",
-    cue: "Caderas a talones; alarga columna, hombros relajados.",
-    duration: 60,
-    image: IMG.childPose.image, credit: IMG.childPose.credit
-  },
-  {
-    key: "wrist-stretch-flex",
-    title: "Estiramiento flexores de muñeca",
-    cue: "Palma hacia abajo, tira de dedos hacia ti, suave.",
-    duration: 60,
-    image: IMG.wristFlex.image, credit: IMG.wristFlex.credit
-  },
-  {
-    key: "wrist-stretch-ext",
-    title: "Estiramiento extensores de muñeca",
-    cue: "Palma hacia arriba, tira de dedos hacia ti, suave.",
-    duration: 60,
-    image: IMG.wristExt.image, credit: IMG.wristExt.credit
-  },
-];
-
-// ===== Programa =====
-function buildProgram(): Step[] {
-  const steps: Step[] = [];
-  warmup.forEach((e, i) => steps.push({ ...e, phase: "Calentamiento", indexInPhase: i + 1, totalInPhase: warmup.length }));
-  for (let r = 0; r < strengthRounds; r++) {
-    strengthCore.forEach((e, i) =>
-      steps.push({ ...e, phase: "Fuerza", indexInPhase: r * strengthCore.length + i + 1, totalInPhase: strengthCore.length * strengthRounds })
-    );
-  }
-  cooldown.forEach((e, i) => steps.push({ ...e, phase: "Estiramientos", indexInPhase: i + 1, totalInPhase: cooldown.length }));
-  return steps;
-}
-
-const PROGRAM = buildProgram();
-const TOTAL_SECONDS = PROGRAM.reduce((acc, s) => acc + s.duration, 0);
+import RoutineEditor from "./RoutineEditor";
+import ExerciseAnimation from "./ExerciseAnimation";
+import ExerciseImage from "./ExerciseImage";
+import HistoryScreen from "./HistoryScreen";
+import LibraryScreen from "./LibraryScreen";
+import PlannerScreen from "./PlannerScreen";
+import SummaryScreen from "./SummaryScreen";
+import IntervalGenerator from "./IntervalGenerator";
+import PlansScreen, { PlanCard } from "./PlansScreen";
+import PipTimer from "./PipTimer";
+import ProfilesPanel, { Avatar, ProfileSwitcher } from "./ProfilesPanel";
+import AudioSettingsPanel from "./AudioSettingsPanel";
+import SettingsPanel from "./SettingsPanel";
+import CheckInPanel, { SuggestionsCard, PainWarning } from "./CheckInPanel";
+import { type CheckIn, type Suggestion, checkInKeys, painFlags, suggest, suggestionId, applySuggestion, latestCheckInId, loadReviewedId, saveReviewedId } from "./checkins";
+import { loadProfiles, saveProfiles, activeProfileId } from "./profiles";
+import { type TrainingPlan, allPlans, loadCustomPlans, saveCustomPlans, loadTrainingState, saveTrainingState, planPosition, planSession, completesPlanDay, recordSession, resetProgress } from "./trainingPlans";
+import { loadSettings, saveSettings, applyTheme } from "./settings";
+import { loadReminderSettings, saveReminderSettings, useReminders, microRoutine, MICRO_ROUTINE_ID } from "./reminders";
+import { loadSoundSettings, saveSoundSettings, playCue, unlockAudio } from "./sound";
+import { type VoiceSettings, loadVoiceSettings, saveVoiceSettings, speak, stopSpeaking } from "./speech";
+import { type SessionLog, loadHistory, saveHistory, logStep, logPassedOver } from "./history";
+import { type SessionSnapshot, loadSnapshot, saveSnapshot, clearSnapshot, isStale } from "./resume";
+import { uid } from "./storage";
+import { createTimer } from "./timer";
+import { useTimer } from "./useTimer";
+import { useWakeLock } from "./wakeLock";
+import { type PipTarget, type PipView, pipSupported, openPip, closePip } from "./pip";
+import { type Exercise, type BodyArea, type Side, exercisesFor, upsertCustomExercises } from "./exercises";
+import { precacheImages } from "./pwa";
+import { type Locale, LOCALES, t, tp, setLocale, useLocale } from "./i18n";
+import {
+  type Step, type Routine, DEFAULT_ROUTINE, buildProgram, programSeconds, describeRoutine, isOpenStep, hasEstimates, timerDurations,
+  loadRoutines, saveRoutines, loadActiveRoutineId, saveActiveRoutineId, stepPhaseLabel, sideAt, splitsMidway,
+} from "./routines";
 
 export default function CalisthenicsRoutineApp() {
-  const [idx, setIdx] = useState(0);
-  const [remaining, setRemaining] = useState(PROGRAM[0].duration);
-  const [running, setRunning] = useState(false);
-  const [muted, setMuted] = useState(false);
+  const [routines, setRoutines] = useState(loadRoutines);
+  const [activeId, setActiveId] = useState(loadActiveRoutineId);
+  const [view, setView] = useState<"session" | "editor" | "history" | "audio" | "settings" | "checkin" | "library" | "planner" | "profiles" | "summary" | "intervals" | "plans">("session");
+  const locale = useLocale();
+  // Catálogo en el idioma de la interfaz: importar ejercicios lo rehace (y re-renderiza al añadir las rutinas)
+  const catalog = exercisesFor(locale);
+  const [profiles, setProfiles] = useState(loadProfiles);
+  const profile = profiles.find((p) => p.id === activeProfileId()) ?? profiles[0];
+  const [settings, setSettings] = useState(loadSettings);
+  const [reminders, setReminders] = useState(loadReminderSettings);
+  // Micro-rutina de un recordatorio: sustituye a la rutina activa hasta que termina o se deja
+  const [micro, setMicro] = useState<Routine | null>(null);
+  const autoStartRef = useRef(false);
+  // Plan de varias semanas activo: mientras no se termine, elige la sesión del día
+  const [customPlans, setCustomPlans] = useState(loadCustomPlans);
+  const [training, setTraining] = useState(loadTrainingState);
+  const plans = useMemo(() => allPlans(customPlans, locale), [customPlans, locale]);
+  const activePlan = plans.find((p) => p.id === training.activeId) ?? null;
+  const planPos = useMemo(() => activePlan && planPosition(activePlan, training.progress[activePlan.id]), [activePlan, training.progress]);
+  const planDay = useMemo(() => (activePlan && planPos && !planPos.finished ? planSession(activePlan, planPos) : null), [activePlan, planPos]);
+
+  const routine = micro ?? planDay?.routine ?? routines.find((r) => r.id === activeId) ?? routines[0];
+  // La micro-rutina dura siempre lo mismo (~2 min): no le afecta el ajuste de duración
+  const scale = micro ? 1 : settings.durationScale * (planDay?.scale ?? 1);
+  // Una rutina vacía no se puede ejecutar: caemos a la rutina original
+  const program = useMemo(() => {
+    const steps = buildProgram(routine, scale, catalog);
+    return steps.length ? steps : buildProgram(DEFAULT_ROUTINE, scale, catalog);
+  }, [routine, catalog, scale]);
+  // Forma del programa (rutina, pasos y duraciones): lo único que obliga a reiniciar la sesión.
+  // Cambiar de idioma retraduce títulos y voz sin perder la posición.
+  const programShape = `${routine.id}|${program.map((s) => `${s.kind}:${s.key}:${s.duration}`).join(",")}`;
+  const totalSeconds = useMemo(() => programSeconds(program), [program]);
+  const minutes = Math.round(totalSeconds / 60);
+
+  const [timer] = useState(() => createTimer(timerDurations(program)));
+  const { idx, remaining, elapsed, duration, running } = useTimer(timer);
+  const muted = settings.muted;
   const [enteredFs, setEnteredFs] = useState(false);
+  const [history, setHistory] = useState(loadHistory);
+  const [voice, setVoice] = useState(loadVoiceSettings);
+  const [sound, setSound] = useState(loadSoundSettings);
+  const [resumable, setResumable] = useState<SessionSnapshot | null>(null);
+  const [checkIn, setCheckIn] = useState<{ id: string; keys: string[] } | null>(null);
+  // Sesión recién terminada (y el programa que se hizo) para la pantalla de resumen
+  const [finished, setFinished] = useState<{ session: SessionLog; program: Step[] } | null>(null);
+  const [reviewedId, setReviewedId] = useState(loadReviewedId);
+  const [hiddenSuggestions, setHiddenSuggestions] = useState<string[]>([]);
+  // Vueltas al circuito anotadas en el bloque AMRAP en curso
+  const [amrapRounds, setAmrapRounds] = useState(0);
+  useEffect(() => { setAmrapRounds(0); }, [idx]);
+
+  // Molestias del último check-in de cada ejercicio y sugerencias pendientes de revisar
+  const pain = useMemo(() => painFlags(history), [history]);
+  const latestCheckIn = latestCheckInId(history);
+  // Las rutinas de un plan no se editan: sus sugerencias no se podrían aplicar
+  const editable = routines.some((r) => r.id === routine.id);
+  const suggestions = useMemo(() => (editable && latestCheckIn && latestCheckIn !== reviewedId
+    ? suggest(routine, history).filter((s) => !hiddenSuggestions.includes(suggestionId(s)))
+    : []), [routine, editable, history, latestCheckIn, reviewedId, hiddenSuggestions]);
 
-  const intervalRef = useRef<number | null>(null);
-  const beepRef = useRef<HTMLAudioElement | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
+  // Sesión en curso (se vuelca al historial al terminar, reiniciar o cerrar la pestaña)
+  const sessionRef = useRef<SessionLog | null>(null);
+  const [hasSession, setHasSession] = useState(false); // su presencia, para el render (la ref no re-renderiza)
+  const pausedAtRef = useRef<number | null>(null);
+  const lastStartRef = useRef<number | null>(null); // último paso anunciado, para ver lo que se salta al navegar
+
+  const current = program[idx] ?? program[0];
+  // En pasos de repeticiones la duración es una estimación: la barra total no pasa de ella
+  const elapsedTotal = useMemo(() =>
+    program.slice(0, idx).reduce((a, s) => a + s.duration, 0) + Math.min(elapsed, current.duration),
+  [program, current, idx, elapsed]);
+  // Valores del último render para los efectos que solo deben reaccionar a su propio disparador
+  // (la forma del programa, cada segundo, arrancar o pausar, la carga, el teclado): leídos de aquí
+  // no los vuelven a ejecutar
+  const latest = useRef({ routine, program, current, duration, running, muted, sound, voice, restart, togglePlay, goPrevious, skipPhase });
+  useEffect(() => { latest.current = { routine, program, current, duration, running, muted, sound, voice, restart, togglePlay, goPrevious, skipPhase }; });
+
+  useEffect(() => { saveRoutines(routines); }, [routines]);
+  useEffect(() => { saveActiveRoutineId(activeId); }, [activeId]);
+  useEffect(() => { saveHistory(history); }, [history]);
+  useEffect(() => { saveVoiceSettings(voice); }, [voice]);
+  useEffect(() => { saveSoundSettings(sound); }, [sound]);
+  useEffect(() => { saveSettings(settings); }, [settings]);
+  useEffect(() => { saveReminderSettings(reminders); }, [reminders]);
+  useEffect(() => { saveReviewedId(reviewedId); }, [reviewedId]);
+  useEffect(() => { saveProfiles(profiles); }, [profiles]);
+  useEffect(() => { saveCustomPlans(customPlans); }, [customPlans]);
+  useEffect(() => { saveTrainingState(training); }, [training]);
+  useEffect(() => applyTheme(settings.theme), [settings.theme]);
+  // La voz sigue al idioma de la interfaz (los textos hablados se traducen), pero solo cuando
+  // este cambia: al abrir la app se respeta la voz elegida en Audio, aunque sea de otro idioma
+  const voiceLocaleRef = useRef(locale);
+  useEffect(() => {
+    if (voiceLocaleRef.current === locale) return;
+    voiceLocaleRef.current = locale;
+    const target = LOCALES.find((l) => l.id === locale)!.voiceLang;
+    setVoice((v) => (v.lang.split("-")[0] === locale ? v : { ...v, lang: target, voiceURI: undefined }));
+  }, [locale]);
+  useEffect(() => { if (muted || !voice.enabled) stopSpeaking(); }, [muted, voice.enabled]);
+  // Cambiar o editar la rutina activa reinicia la sesión (la micro-rutina arranca sola)
+  useEffect(() => {
+    latest.current.restart();
+    if (autoStartRef.current) { autoStartRef.current = false; unlockAudio(); timer.start(); }
+  }, [timer, programShape]);
+  const totalProgress = Math.min(1, elapsedTotal / totalSeconds);
 
-  const current = PROGRAM[idx];
-  const elapsedTotal = useMemo(() => PROGRAM.slice(0, idx).reduce((a, s) => a + s.duration, 0) + (current.duration - remaining), [idx, remaining]);
-  const totalProgress = Math.min(1, elapsedTotal / TOTAL_SECONDS);
+  useEffect(() => () => timer.dispose(), [timer]);
 
+  // Imágenes de referencia (base e importadas) disponibles sin conexión
+  useEffect(() => { precacheImages(catalog.flatMap((e) => (e.image ? [e.image] : []))); }, [catalog]);
+
+  // Eventos del temporizador: sonidos, voz, registro de pasos hechos/saltados y fin de sesión
   useEffect(() => {
-    if (!running) return;
-    intervalRef.current = window.setInterval(() => {
-      setRemaining((r) => {
-        if (r <= 1) {
-          if (!muted) beepRef.current?.play().catch(() => {});
-          goNext();
-          return 0;
-        }
-        return r - 1;
-      });
-    }, 1000);
-    return () => {
-      if (intervalRef.current) window.clearInterval(intervalRef.current);
-      intervalRef.current = null;
-    };
-  }, [running, idx, muted]);
+    const say = (text: string, interrupt = false) => { if (!muted && text) speak(text, voice, interrupt); };
+    const offEnd = timer.on("stepend", ({ idx: i, reason, elapsed }) => {
+      const step = program[i];
+      if (step.kind !== "work") return;
+      const amrap = step.interval?.format === "amrap";
+      if (sessionRef.current) logStep(sessionRef.current, { key: step.key, title: step.title, phase: step.phase, duration: step.duration, seconds: Math.round(elapsed), skipped: reason === "skip", idx: i, ...(amrap && { rounds: amrapRounds }) });
+      // Sin avance automático, el paso siguiente espera en pausa (su aviso suena al reanudar);
+      // los intervalos siguen siempre: el reloj es el entrenamiento
+      if (reason === "done" && !isOpenStep(step) && !step.interval && !settings.autoAdvance) timer.pause();
+    });
+    const offStart = timer.on("stepstart", ({ idx: i }) => {
+      if (sessionRef.current && lastStartRef.current != null) logPassedOver(sessionRef.current, program, lastStartRef.current, i);
+      lastStartRef.current = i;
+      if (sessionRef.current && i === program.length - 1) sessionRef.current.reachedEnd = true;
+      if (!muted) playCue(i > 0 && program[i - 1].phase !== program[i].phase ? "phase" : "step", sound);
+      const { remaining, duration } = timer.getState();
+      say(announcement(program[i], program[i - 1], voice.announce, sideAt(program[i], remaining, duration)), true);
+    });
+    const offFinish = timer.on("finish", () => {
+      if (!muted) playCue("end", sound);
+      if (voice.announce.end) say(t("say.end"), true);
+      // Check-in de los ejercicios de fuerza hechos y luego el resumen, ya con la sesión en el historial
+      const done = sessionRef.current;
+      latest.current.restart();
+      setMicro(null);
+      if (done?.routineId === MICRO_ROUTINE_ID) return;
+      // Solo una sesión del plan hecha de verdad hasta el final hace avanzar al día siguiente
+      if (done && completesPlanDay(done) && activePlan && done.routineId === planDay?.routine.id) setTraining((s) => recordSession(s, activePlan.id, done.id));
+      if (!done?.steps.length) return;
+      setFinished({ session: done, program });
+      const keys = checkInKeys(done);
+      if (keys.length) setCheckIn({ id: done.id, keys });
+      setView(keys.length ? "checkin" : "summary");
+    });
+    return () => { offEnd(); offStart(); offFinish(); };
+  }, [timer, program, muted, voice, sound, settings.autoAdvance, amrapRounds, activePlan, planDay]);
+
+  // Avisos de tiempo (solo pasos con cuenta atrás): tics 3-2-1, mitad del ejercicio (o cambio de
+  // lado en los unilaterales) y voz a 30/10 s
+  useEffect(() => {
+    const { current, duration, running, muted, sound, voice } = latest.current;
+    if (!running || muted || isOpenStep(current) || remaining >= duration) return;
+    const half = current.kind === "work" && remaining === Math.ceil(duration / 2);
+    const switchSide = half && splitsMidway(current);
+    if (remaining >= 1 && remaining <= 3) playCue("tick", sound);
+    else if (switchSide) playCue("side", sound);
+    else if (half && duration >= 20) playCue("half", sound);
+    if (switchSide && voice.announce.step) speak(t("say.side", { side: t("side.right") }), voice, true);
+    else if (voice.announce.time && (remaining === 30 || remaining === 10)) speak(t("say.seconds", { n: remaining }), voice);
+    if (voice.announce.countdown && remaining >= 1 && remaining <= 3) speak(String(remaining), voice);
+  }, [remaining]);
+
+  // Recordatorios de pausa activa (no suenan con una sesión abierta, aunque esté en pausa).
+  // `running` cubre el render en que arranca, antes de que el registro de pausas la abra.
+  const sessionOpen = running || hasSession;
+  const reminder = useReminders(reminders, sessionOpen, startMicro);
+  function startMicro() {
+    setView("session");
+    if (micro) { restart(); unlockAudio(); timer.start(); }
+    else { autoStartRef.current = true; setMicro(microRoutine()); }
+  }
+
+  // Temporizador flotante: sigue a la vista en otra ventana mientras se trabaja
+  const [pip, setPip] = useState<PipTarget | null>(null);
+  async function togglePip() {
+    if (pip) { closePip(pip); setPip(null); return; }
+    try { setPip(await openPip(() => setPip(null))); } catch {} // cancelado o sin permiso
+  }
+
+  // Pantalla encendida solo mientras corre la sesión: se suelta al pausar o terminar
+  const wake = useWakeLock(running && settings.keepAwake);
+  // Salir con Esc (o desde el navegador) también cuenta: el próximo Iniciar vuelve a pantalla completa
+  useEffect(() => {
+    const onChange = () => setEnteredFs(!!document.fullscreenElement);
+    document.addEventListener("fullscreenchange", onChange);
+    return () => document.removeEventListener("fullscreenchange", onChange);
+  }, []);
+
+  // Registro de pausas de la sesión en curso
+  useEffect(() => {
+    const s = sessionRef.current;
+    const { routine, program } = latest.current;
+    if (running) {
+      if (!s) openSession({ id: uid(), startedAt: Date.now(), endedAt: 0, routineId: routine.id, routineName: routine.name, totalSteps: program.filter((st) => st.kind === "work").length, steps: [], pausedMs: 0, reachedEnd: false });
+      else if (pausedAtRef.current) s.pausedMs += Date.now() - pausedAtRef.current;
+      pausedAtRef.current = null;
+    } else if (s) {
+      pausedAtRef.current = Date.now();
+      s.pauses = (s.pauses ?? 0) + 1;
+    }
+  }, [running]);
+
+  // Foto continua de la sesión en curso para poder reanudarla tras recargar o cerrar la pestaña
+  useEffect(() => {
+    const s = sessionRef.current;
+    if (s && s.routineId !== MICRO_ROUTINE_ID) saveSnapshot({ savedAt: Date.now(), routineId: routine.id, idx, key: current.key, remaining, session: s });
+  }, [routine.id, idx, current.key, remaining, running]);
+
+  // Al abrir: ofrecer reanudar si la foto es reciente y la rutina no cambió; si no, va al historial
+  useEffect(() => {
+    const snap = loadSnapshot();
+    if (!snap) return;
+    const { routine, program } = latest.current;
+    const valid = !isStale(snap) && snap.routineId === routine.id && program[snap.idx]?.key === snap.key;
+    if (valid) setResumable(snap); else discardSnapshot(snap);
+  }, []);
 
   useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
+      // No robar teclas mientras se escribe en el editor
+      if ((e.target as HTMLElement | null)?.closest?.("input, textarea, select")) return;
+      const { current, restart, togglePlay, goPrevious, skipPhase } = latest.current;
       if (e.code === "Space") { e.preventDefault(); togglePlay(); }
-      if (e.code === "ArrowRight") { e.preventDefault(); goNext(); }
+      if (e.code === "ArrowRight") { e.preventDefault(); if (e.shiftKey) skipPhase(); else timer.skip(); }
+      if (e.code === "ArrowLeft") { e.preventDefault(); goPrevious(); }
+      if (e.key === "+" || e.key === "=") { e.preventDefault(); timer.adjust(15); }
+      if (e.key === "-") { e.preventDefault(); timer.adjust(-15); }
+      if (e.code === "Enter" && isOpenStep(current)) { e.preventDefault(); timer.complete(); }
       if (e.key.toLowerCase() === "r") { e.preventDefault(); restart(); }
       if (e.key.toLowerCase() === "f") { e.preventDefault(); toggleFullscreen(); }
-      if (e.key.toLowerCase() === "m") { e.preventDefault(); setMuted(m => !m); }
+      if (e.key.toLowerCase() === "m") { e.preventDefault(); toggleMute(); }
     };
     window.addEventListener("keydown", onKey);
     return () => window.removeEventListener("keydown", onKey);
-  }, [idx]);
-
-  function togglePlay() { setRunning((r) => !r); }
-  function goNext() {
-    setIdx((i) => {
-      const next = Math.min(PROGRAM.length - 1, i + 1);
-      setRemaining(PROGRAM[next].duration);
-      return next;
-    });
+  }, [timer]);
+
+  function togglePlay() { unlockAudio(); timer.toggle(); }
+  function toggleMute() { setSettings((s) => ({ ...s, muted: !s.muted })); }
+
+  // ===== Navegación =====
+  // "Anterior" vuelve al ejercicio previo (sin pasar por descansos ni cuentas atrás)
+  const prevIdx = Math.max(0, program.slice(0, idx).map((s) => s.kind).lastIndexOf("work"));
+  const nextPhaseIdx = program.findIndex((s, i) => i > idx && s.phase !== current.phase);
+  function goPrevious() { timer.seek(prevIdx); }
+  function skipPhase() { if (nextPhaseIdx >= 0) timer.seek(nextPhaseIdx); }
+  // Clic en la barra total: paso y segundo que corresponden a esa fracción del programa
+  function seekTotal(fraction: number) {
+    let t = fraction * totalSeconds;
+    const i = program.findIndex((s) => (t -= s.duration) < 0);
+    if (i < 0) return;
+    timer.seek(i, isOpenStep(program[i]) ? undefined : -t);
+  }
+  const nav: NavHandlers = {
+    onToggle: togglePlay,
+    onPrev: goPrevious,
+    onNext: timer.skip,
+    onSkipPhase: nextPhaseIdx >= 0 ? skipPhase : undefined,
+    onAdjust: timer.adjust,
+    onRestart: restart,
+  };
+  // Las micro-rutinas de los recordatorios no cuentan como sesión: su registro es el de los avisos
+  function openSession(s: SessionLog) {
+    sessionRef.current = s;
+    setHasSession(true);
+  }
+  function closeSession() {
+    const s = sessionRef.current;
+    sessionRef.current = null;
+    setHasSession(false);
+    if (s) clearSnapshot();
+    if (!s || !s.steps.length || s.routineId === MICRO_ROUTINE_ID) return null;
+    if (pausedAtRef.current) s.pausedMs += Date.now() - pausedAtRef.current;
+    pausedAtRef.current = null;
+    s.endedAt = Date.now();
+    return s;
+  }
+  function restart() {
+    lastStartRef.current = null;
+    const s = closeSession();
+    if (s) setHistory((h) => [...h, s]);
+    timer.load(timerDurations(program));
   }
-  function restart() { setIdx(0); setRemaining(PROGRAM[0].duration); setRunning(false); }
   async function toggleFullscreen() {
     const el = containerRef.current || document.documentElement;
-    // @ts-ignore
+    // @ts-expect-error: prefijos antiguos (webkit/moz), sin tipos en lib.dom
     const fsEl = document.fullscreenElement || document.webkitFullscreenElement || document.mozFullScreenElement;
     if (!fsEl) {
       try {
-        // @ts-ignore
+        // @ts-expect-error: prefijos antiguos (webkit/moz), sin tipos en lib.dom
         await (el.requestFullscreen?.() || el.webkitRequestFullscreen?.() || el.mozRequestFullScreen?.());
         setEnteredFs(true);
       } catch {}
     } else {
       try {
-        // @ts-ignore
+        // @ts-expect-error: prefijos antiguos (webkit/moz), sin tipos en lib.dom
         await (document.exitFullscreen?.() || document.webkitExitFullscreen?.() || document.mozCancelFullScreen?.());
         setEnteredFs(false);
       } catch {}
     }
   }
-  function handleStart() { if (!enteredFs) toggleFullscreen(); setRunning(true); }
+  function handleStart() {
+    if (resumable) discardSnapshot(resumable);
+    if (settings.autoFullscreen && !enteredFs) toggleFullscreen();
+    unlockAudio();
+    timer.start();
+  }
+  function resumeSession(snap: SessionSnapshot) {
+    openSession(snap.session);
+    // Desde la última foto la pestaña estuvo cerrada: ese rato cuenta como pausa al reanudar
+    pausedAtRef.current = snap.savedAt;
+    timer.pause();
+    timer.seek(snap.idx, snap.remaining);
+    setResumable(null);
+  }
+  // La sesión interrumpida que no se reanuda queda en el historial tal como estaba
+  function discardSnapshot(snap: SessionSnapshot) {
+    clearSnapshot();
+    setResumable(null);
+    if (snap.session.steps.length) setHistory((h) => [...h, { ...snap.session, endedAt: snap.savedAt }]);
+  }
+  function saveCheckIn(checkins: CheckIn[]) {
+    const id = checkIn?.id;
+    setHistory((h) => h.map((s) => (s.id === id ? { ...s, checkins } : s)));
+    closeCheckIn();
+  }
+  function closeCheckIn() { setCheckIn(null); setView(finished ? "summary" : "session"); }
+  function closeSummary() { setFinished(null); setView("session"); }
+  function applyOne(s: Suggestion) {
+    setRoutines((rs) => rs.map((r) => (r.id === routine.id ? applySuggestion(r, s) : r)));
+    if (suggestions.length === 1) dismissSuggestions();
+    else setHiddenSuggestions((h) => [...h, suggestionId(s)]);
+  }
+  function dismissSuggestions() { setReviewedId(latestCheckIn); setHiddenSuggestions([]); }
+  function openEditor() { timer.pause(); setMicro(null); setView("editor"); }
+  // Rutina del generador de intervalos: se guarda y pasa a ser la activa
+  function saveGenerated(r: Routine) {
+    setMicro(null);
+    leavePlan();
+    setRoutines((rs) => [...rs, r]);
+    setActiveId(r.id);
+    setView("session");
+  }
+  function importRoutines(exercises: Exercise[], imported: Routine[], importedPlans: TrainingPlan[] = []) {
+    upsertCustomExercises(exercises);
+    setRoutines((rs) => [...rs, ...imported]);
+    if (importedPlans.length) setCustomPlans((ps) => [...ps, ...importedPlans]);
+  }
+  // Elegir una rutina a mano deja el plan en pausa (el progreso se conserva)
+  function leavePlan() { setTraining((s) => ({ ...s, activeId: null })); }
+  function selectRoutine(id: string) { setActiveId(id); leavePlan(); }
 
   return (
     <div ref={containerRef} className="min-h-screen w-full bg-gradient-to-b from-emerald-900 via-emerald-800 to-emerald-900 text-emerald-50">
-      <audio ref={beepRef} src={BEEP_DATA_URI} preload="auto" />
-
       <header className="max-w-5xl mx-auto px-4 py-6 flex items-center justify-between">
         <div className="flex items-center gap-3">
-          <div className="h-9 w-9 rounded-xl bg-emerald-700/50 grid place-items-center font-bold">20</div>
+          <div className="h-9 w-9 rounded-xl bg-emerald-700/50 grid place-items-center font-bold">{minutes}</div>
           <div>
-            <h1 className="text-xl sm:text-2xl font-semibold tracking-tight">Rutina Calistenia — 20 min</h1>
-            <p className="text-emerald-200 text-xs sm:text-sm">Postura, core y muñecas • Sin equipo • Diseñada para largas horas de programación</p>
+            <h1 className="text-xl sm:text-2xl font-semibold tracking-tight">{t("app.title", { min: minutes })}</h1>
+            <p className="text-emerald-200 text-xs sm:text-sm">{t("app.subtitle")}</p>
           </div>
         </div>
         <div className="flex items-center gap-2">
-          <button onClick={() => setMuted(m=>!m)} className="px-3 py-2 rounded-xl bg-emerald-700/40 hover:bg-emerald-700/60 transition">
+          <button onClick={() => setLocale(nextLocale(locale))} title={t("nav.language")} className="px-3 py-2 rounded-xl bg-emerald-700/40 hover:bg-emerald-700/60 transition inline-flex items-center gap-1 text-sm font-semibold uppercase">
+            <Languages className="h-5 w-5"/>{locale}
+          </button>
+          <button onClick={openEditor} title={t("nav.routines")} className="px-3 py-2 rounded-xl bg-emerald-700/40 hover:bg-emerald-700/60 transition">
+            <ListChecks className="h-5 w-5"/>
+          </button>
+          <button onClick={() => { timer.pause(); setView("library"); }} title={t("nav.library")} className="px-3 py-2 rounded-xl bg-emerald-700/40 hover:bg-emerald-700/60 transition">
+            <BookOpen className="h-5 w-5"/>
+          </button>
+          <button onClick={() => setView("settings")} title={t("nav.settings")} className="px-3 py-2 rounded-xl bg-emerald-700/40 hover:bg-emerald-700/60 transition">
+            <SlidersHorizontal className="h-5 w-5"/>
+          </button>
+          <button onClick={() => setView("audio")} title={t("nav.audio")} className={`px-3 py-2 rounded-xl transition ${voice.enabled ? "bg-emerald-500/50 hover:bg-emerald-500/70" : "bg-emerald-700/40 hover:bg-emerald-700/60"}`}>
+            <Mic className="h-5 w-5"/>
+          </button>
+          <button onClick={() => { timer.pause(); setView("history"); }} title={t("nav.history")} className="px-3 py-2 rounded-xl bg-emerald-700/40 hover:bg-emerald-700/60 transition">
+            <CalendarDays className="h-5 w-5"/>
+          </button>
+          <button onClick={() => { timer.pause(); setView("intervals"); }} title={t("nav.intervals")} className="px-3 py-2 rounded-xl bg-emerald-700/40 hover:bg-emerald-700/60 transition">
+            <Timer className="h-5 w-5"/>
+          </button>
+          <button onClick={() => { timer.pause(); setView("plans"); }} title={t("nav.plans")} className={`px-3 py-2 rounded-xl transition ${activePlan ? "bg-emerald-500/50 hover:bg-emerald-500/70" : "bg-emerald-700/40 hover:bg-emerald-700/60"}`}>
+            <TrendingUp className="h-5 w-5"/>
+          </button>
+          <button onClick={() => { timer.pause(); setView("planner"); }} title={t("nav.planner")} className="px-3 py-2 rounded-xl bg-emerald-700/40 hover:bg-emerald-700/60 transition">
+            <CalendarClock className="h-5 w-5"/>
+          </button>
+          <button onClick={() => { timer.pause(); setView("profiles"); }} title={t("nav.profiles")} className="p-1 rounded-full hover:ring-2 hover:ring-emerald-300/60 transition">
+            <Avatar profile={profile} size="h-8 w-8" />
+          </button>
+          <button onClick={toggleMute} title={t("nav.mute")} className="px-3 py-2 rounded-xl bg-emerald-700/40 hover:bg-emerald-700/60 transition">
             {muted ? <VolumeX className="h-5 w-5"/> : <Volume2 className="h-5 w-5"/>}
           </button>
-          <button onClick={toggleFullscreen} className="px-3 py-2 rounded-xl bg-emerald-700/40 hover:bg-emerald-700/60 transition hidden sm:inline-flex">
+          {pipSupported() && (
+            <button onClick={togglePip} title={pip ? t("nav.pipClose") : t("nav.pip")} className={`px-3 py-2 rounded-xl transition ${pip ? "bg-emerald-500/50 hover:bg-emerald-500/70" : "bg-emerald-700/40 hover:bg-emerald-700/60"}`}>
+              <PictureInPicture2 className="h-5 w-5"/>
+            </button>
+          )}
+          <button onClick={toggleFullscreen} title={t("nav.fullscreen")} className="px-3 py-2 rounded-xl bg-emerald-700/40 hover:bg-emerald-700/60 transition hidden sm:inline-flex">
             <Maximize className="h-5 w-5"/>
           </button>
         </div>
       </header>
 
-      {/* Barra de progreso total */}
+      {/* Barra de progreso total (clic para saltar) */}
       <div className="max-w-5xl mx-auto px-4">
-        <div className="w-full h-2 rounded-full bg-emerald-950/60 overflow-hidden">
-          <div className="h-full bg-emerald-400" style={{ width: `${totalProgress * 100}%` }} />
+        <div
+          role="slider"
+          aria-label={t("progress.label")}
+          aria-valuemin={0}
+          aria-valuemax={totalSeconds}
+          aria-valuenow={elapsedTotal}
+          title={t("progress.seek")}
+          onClick={(e) => {
+            const r = e.currentTarget.getBoundingClientRect();
+            seekTotal(Math.min(1, Math.max(0, (e.clientX - r.left) / r.width)));
+          }}
+          className="py-1.5 cursor-pointer group"
+        >
+          <div className="w-full h-2 group-hover:h-3 transition-[height] rounded-full bg-emerald-950/60 overflow-hidden">
+            <div className="h-full bg-emerald-400" style={{ width: `${totalProgress * 100}%` }} />
+          </div>
         </div>
         <div className="flex justify-between text-xs text-emerald-200 mt-1">
           <span>{formatHMS(elapsedTotal)}</span>
-          <span>{formatHMS(TOTAL_SECONDS)}</span>
+          {settings.keepAwake && (wake === "active" || (wake === "unsupported" && running)) && (
+            <span className="inline-flex items-center gap-1 text-emerald-300" title={t(`wake.${wake}Title`)}>
+              {wake === "active" ? <MonitorCheck className="h-3.5 w-3.5"/> : <MonitorOff className="h-3.5 w-3.5"/>} {t(`wake.${wake}`)}
+            </span>
+          )}
+          <span>{hasEstimates(program) ? "~" : ""}{formatHMS(totalSeconds)}</span>
         </div>
       </div>
 
       {/* Panel principal */}
       <main className="max-w-5xl mx-auto px-4 py-8">
-        {!running && idx === 0 ? (
+        {reminder.pending && !sessionOpen && (
+          <ReminderPrompt snoozeMin={reminders.snoozeMin} onStart={reminder.start} onSnooze={reminder.snooze} onSkip={reminder.skip} />
+        )}
+        {view === "editor" ? (
+          <RoutineEditor
+            routines={routines}
+            activeId={routine.id}
+            planIds={plans.map((p) => p.id)}
+            onChange={setRoutines}
+            onSelect={selectRoutine}
+            onImport={importRoutines}
+            onClose={() => setView("session")}
+          />
+        ) : view === "audio" ? (
+          <AudioSettingsPanel sound={sound} onSoundChange={setSound} value={voice} muted={muted} onChange={setVoice} onClose={() => setView("session")} />
+        ) : view === "checkin" && checkIn ? (
+          <CheckInPanel key={checkIn.id} keys={checkIn.keys} onSave={saveCheckIn} onSkip={closeCheckIn} />
+        ) : view === "library" ? (
+          <LibraryScreen onClose={() => setView("session")} />
+        ) : view === "settings" ? (
+          <SettingsPanel value={settings} onChange={setSettings} reminders={reminders} onRemindersChange={setReminders} baseSeconds={programSeconds(buildProgram(routine))} onClose={() => setView("session")} />
+        ) : view === "planner" ? (
+          <PlannerScreen routines={routines} activeId={(routines.find((r) => r.id === activeId) ?? routines[0]).id} scale={settings.durationScale} onClose={() => setView("session")} />
+        ) : view === "profiles" ? (
+          <ProfilesPanel profiles={profiles} onChange={setProfiles} onClose={() => setView("session")} />
+        ) : view === "intervals" ? (
+          <IntervalGenerator onSave={saveGenerated} onClose={() => setView("session")} />
+        ) : view === "plans" ? (
+          <PlansScreen
+            plans={plans}
+            training={training}
+            routineIds={routines.map((r) => r.id)}
+            onTrainingChange={setTraining}
+            onDelete={(id) => setCustomPlans((ps) => ps.filter((p) => p.id !== id))}
+            onImport={importRoutines}
+            onClose={() => setView("session")}
+          />
+        ) : view === "summary" && finished ? (
+          <SummaryScreen session={finished.session} program={finished.program} history={history} onClose={closeSummary} />
+        ) : view === "history" ? (
+          <HistoryScreen history={history} onClose={() => setView("session")} />
+        ) : !sessionOpen ? (
           <div className="rounded-3xl bg-emerald-950/30 p-8 sm:p-10 backdrop-blur shadow-xl border border-emerald-700/30">
-            <h2 className="text-2xl sm:text-3xl font-bold mb-2">Listo para empezar</h2>
-            <p className="text-emerald-200 mb-6">20 minutos guiados. Presiona <kbd className="px-2 py-1 rounded bg-emerald-700/40">Espacio</kbd> o Iniciar. Entraremos en pantalla completa.</p>
+            <ProfileSwitcher profiles={profiles} onManage={() => setView("profiles")} />
+            {resumable && (
+              <div className="mb-6 rounded-2xl p-4 bg-emerald-900/60 border border-emerald-400/40 flex flex-wrap items-center justify-between gap-3">
+                <div className="text-sm">
+                  <div className="text-emerald-100 font-semibold">{t("resume.title")}</div>
+                  <div className="text-emerald-200 mt-1">
+                    {t("resume.detail", { routine: resumable.session.routineName, step: resumable.idx + 1, total: program.length, title: program[resumable.idx].title, left: formatMMSS(resumable.remaining) })}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <button onClick={() => resumeSession(resumable)} className="inline-flex items-center gap-2 px-4 py-2 rounded-2xl bg-emerald-400 text-emerald-950 font-semibold hover:bg-emerald-300 transition">
+                    <Play className="h-4 w-4"/> {t("resume.resume")}
+                  </button>
+                  <button onClick={() => discardSnapshot(resumable)} className="inline-flex items-center gap-2 px-4 py-2 rounded-2xl bg-emerald-700/30 hover:bg-emerald-700/50 transition">
+                    {t("resume.discard")}
+                  </button>
+                </div>
+              </div>
+            )}
+            {activePlan && planPos && !micro && (
+              <PlanCard
+                plan={activePlan}
+                pos={planPos}
+                done={training.progress[activePlan.id]?.sessions.length ?? 0}
+                onReset={() => setTraining((s) => resetProgress(s, activePlan.id))}
+                onLeave={leavePlan}
+                onManage={() => setView("plans")}
+              />
+            )}
+            {suggestions.length > 0 && <SuggestionsCard suggestions={suggestions} onApply={applyOne} onDismiss={dismissSuggestions} />}
+            <h2 className="text-2xl sm:text-3xl font-bold mb-2">{t("start.title")}</h2>
+            <p className="text-emerald-100 font-medium mb-1">{routine.name}</p>
+            {micro && (
+              <p className="text-sm text-emerald-300 mb-1">
+                {t("reminder.active")}{" "}
+                <button onClick={() => setMicro(null)} className="underline hover:text-emerald-100">{t("reminder.backToRoutine")}</button>
+              </p>
+            )}
+            <p className="text-emerald-200 mb-6">
+              {t("start.intro", { min: minutes }).split("{key}").map((part, i) => (
+                <React.Fragment key={i}>{i > 0 && <kbd className="px-2 py-1 rounded bg-emerald-700/40">{t("start.spaceKey")}</kbd>}{part}</React.Fragment>
+              ))}
+              {settings.autoFullscreen && ` ${t("start.introFullscreen")}`}
+            </p>
             <div className="grid sm:grid-cols-3 gap-4 text-sm">
-              <InfoCard title="Estructura" text="5 min calentamiento • 10 min fuerza (2 rondas) • 5 min estiramientos" />
-              <InfoCard title="Atajos" text="Espacio: Play/Pause • →: Siguiente • R: Reiniciar • F: Fullscreen • M: Mute" />
-              <InfoCard title="Seguridad" text="Muñecas y lumbar protegidas. Rango cómodo y respiración fluida." />
+              <InfoCard title={t("start.structure")} text={describeRoutine(routine, scale)} />
+              <InfoCard title={t("start.shortcuts")} text={t("start.shortcutsText")} />
+              <InfoCard title={t("start.safety")} text={t("start.safetyText")} />
             </div>
             <div className="mt-8 flex items-center gap-3">
               <button onClick={handleStart} className="inline-flex items-center gap-2 px-5 py-3 rounded-2xl bg-emerald-400 text-emerald-950 font-semibold hover:bg-emerald-300 transition">
-                <Play className="h-5 w-5"/> Iniciar
+                <Play className="h-5 w-5"/> {t("start.start")}
               </button>
               <button onClick={toggleFullscreen} className="inline-flex items-center gap-2 px-4 py-3 rounded-2xl bg-emerald-700/30 hover:bg-emerald-700/50 transition">
-                <Maximize className="h-5 w-5"/> Pantalla completa
+                <Maximize className="h-5 w-5"/> {t("start.fullscreen")}
+              </button>
+              <button onClick={openEditor} className="inline-flex items-center gap-2 px-4 py-3 rounded-2xl bg-emerald-700/30 hover:bg-emerald-700/50 transition">
+                <ListChecks className="h-5 w-5"/> {t("nav.routines")}
               </button>
             </div>
           </div>
+        ) : current.kind !== "work" ? (
+          <BreakPanel
+            step={current}
+            next={program[idx + 1] ?? current}
+            remaining={remaining}
+            duration={duration}
+            running={running}
+            pain={pain.get((program[idx + 1] ?? current).key)}
+            nav={nav}
+          />
         ) : (
           <SessionPanel
             step={current}
             remaining={remaining}
+            elapsed={elapsed}
+            duration={duration}
             running={running}
-            onToggle={() => setRunning(r => !r)}
-            onNext={goNext}
-            onRestart={restart}
+            onDone={timer.complete}
+            amrapRounds={amrapRounds}
+            onAmrapRound={(d) => setAmrapRounds((n) => Math.max(0, n + d))}
+            pain={pain.get(current.key)}
+            nav={nav}
           />
         )}
 
-        {/* Lista próximos */}
+        {/* Lista de pasos */}
         <div className="mt-8 grid md:grid-cols-2 gap-6">
-          <UpcomingList currentIdx={idx} />
+          <StepList program={program} currentIdx={idx} onJump={timer.seek} />
           <TipsPanel />
         </div>
       </main>
 
+      {pip && (
+        <PipTimer
+          target={pip}
+          view={pipView(current, program[idx + 1] ?? current, remaining, elapsed, duration, running)}
+          onToggle={togglePlay}
+          onNext={isOpenStep(current) ? timer.complete : timer.skip}
+        />
+      )}
+
       <footer className="max-w-5xl mx-auto px-4 pb-10 pt-6 text-xs text-emerald-300/90">
-        Hecho con 💚 para postura, espalda y muñecas felices. — 5–6 días/semana.
+        {t("app.footer")}
       </footer>
     </div>
   );
@@ -377,21 +643,53 @@ function InfoCard({ title, text }: { title: string; text: string }) {
   );
 }
 
-function SessionPanel({ step, remaining, running, onToggle, onNext, onRestart }: {
-  step: Step; remaining: number; running: boolean; onToggle: () => void; onNext: () => void; onRestart: () => void;
-}) {
-  const pct = (1 - remaining / step.duration) * 100;
-  const [imgSrc, setImgSrc] = useState(withImg(step.image, step.title));
+// Aviso de pausa activa dentro de la app (acompaña a la notificación del navegador, si la hay)
+function ReminderPrompt({ snoozeMin, onStart, onSnooze, onSkip }: { snoozeMin: number; onStart: () => void; onSnooze: () => void; onSkip: () => void }) {
+  return (
+    <div className="mb-6 rounded-2xl p-4 bg-sky-950/30 border border-sky-700/40 flex flex-wrap items-center justify-between gap-3">
+      <div className="text-sm">
+        <div className="inline-flex items-center gap-2 text-sky-200 font-semibold"><BellRing className="h-4 w-4"/> {t("reminder.title")}</div>
+        <div className="text-emerald-200 mt-1">{t("reminder.body")}</div>
+      </div>
+      <div className="flex gap-2 text-sm">
+        <button onClick={onStart} className="inline-flex items-center gap-2 px-4 py-2 rounded-2xl bg-emerald-400 text-emerald-950 font-semibold hover:bg-emerald-300 transition">
+          <Play className="h-4 w-4"/> {t("reminder.start")}
+        </button>
+        <button onClick={onSnooze} className="px-4 py-2 rounded-2xl bg-emerald-700/30 hover:bg-emerald-700/50 transition">{t("reminder.later", { n: snoozeMin })}</button>
+        <button onClick={onSkip} className="px-4 py-2 rounded-2xl bg-emerald-700/30 hover:bg-emerald-700/50 transition">{t("reminder.skip")}</button>
+      </div>
+    </div>
+  );
+}
 
-  useEffect(() => {
-    setImgSrc(withImg(step.image, step.title));
-  }, [step.image, step.title, step.key]);
+interface NavHandlers {
+  onToggle: () => void;
+  onPrev: () => void;
+  onNext: () => void;
+  onSkipPhase?: () => void; // ausente en la última fase
+  onAdjust: (seconds: number) => void;
+  onRestart: () => void;
+}
 
+function SessionPanel({ step, remaining, elapsed, duration, running, onDone, amrapRounds, onAmrapRound, pain, nav }: {
+  step: Step; remaining: number; elapsed: number; duration: number; running: boolean; onDone: () => void;
+  amrapRounds: number; onAmrapRound: (delta: number) => void; pain?: BodyArea[]; nav: NavHandlers;
+}) {
+  const open = isOpenStep(step);
+  const pct = (open ? Math.min(1, elapsed / step.duration) : 1 - remaining / duration) * 100;
+  const side = sideAt(step, remaining, duration);
+  const iv = step.interval;
   return (
-    <div className="rounded-3xl bg-emerald-950/30 p-6 sm:p-10 backdrop-blur shadow-xl border border-emerald-700/30">
+    <div className={`rounded-3xl p-6 sm:p-10 backdrop-blur shadow-xl border ${iv ? "bg-rose-950/20 border-rose-700/40" : "bg-emerald-950/30 border-emerald-700/30"}`}>
       <div className="flex flex-wrap items-center gap-3 justify-between">
-        <div className="text-sm font-medium uppercase tracking-wide text-emerald-200">{step.phase}</div>
-        <div className="text-xs text-emerald-300">{step.indexInPhase} / {step.totalInPhase}</div>
+        <div className={`text-sm font-medium uppercase tracking-wide ${iv ? "text-rose-200" : "text-emerald-200"}`}>
+          {stepPhaseLabel(step)}{iv && ` • ${t("interval.work")}`}
+        </div>
+        <div className="text-xs text-emerald-300">
+          {iv ? (iv.format === "amrap" ? tp("interval.amrapRounds", amrapRounds) : t("interval.round", { round: iv.round, rounds: iv.rounds })) : (
+            <>{step.set != null && `${t("session.set", { set: step.set, sets: step.sets ?? step.set })} • `}{step.indexInPhase} / {step.totalInPhase}</>
+          )}
+        </div>
       </div>
 
       <div className="grid lg:grid-cols-[1.1fr_0.9fr] gap-8 mt-6 items-center">
@@ -399,32 +697,32 @@ function SessionPanel({ step, remaining, running, onToggle, onNext, onRestart }:
         <div className="rounded-2xl bg-emerald-900/40 border border-emerald-700/30 p-4 sm:p-6">
           <div className="aspect-video rounded-xl bg-emerald-950/50 grid place-items-center overflow-hidden">
             <AnimatePresence mode="wait">
-              <motion.div key={step.key} initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -10 }} className="w-full h-full grid place-items-center p-4">
-                <ExerciseAnimation name={step.key} />
+              <motion.div key={`${step.key}-${side}`} initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -10 }} className="w-full h-full grid place-items-center p-4">
+                <ExerciseAnimation animation={step.animation ?? step.key} tempo={step.tempo} mirror={side === "right"} />
               </motion.div>
             </AnimatePresence>
           </div>
 
           {/* Imagen de referencia */}
           <div className="mt-4">
-            <img
-              src={imgSrc}
-              alt={step.title}
-              className="w-full rounded-lg object-cover max-h-56"
-              onError={() => setImgSrc(PLACEHOLDER(step.title))}
-              loading="lazy"
-              referrerPolicy="no-referrer"
-            />
-            <div className="text-[10px] text-emerald-300 mt-1">
-              {imgSrc.startsWith("https://commons.wikimedia.org") ? "Fuente: Wikimedia Commons" :
-               step.credit ? `Fuente: ${step.credit}` :
-               imgSrc.includes("placehold") ? "Referencia genérica" : hostOf(imgSrc)}
-            </div>
+            <ExerciseImage exercise={step} />
           </div>
 
           <div className="mt-4">
-            <h3 className="text-lg sm:text-xl font-semibold">{step.title}</h3>
-            <p className="text-emerald-200 mt-1 text-sm sm:text-base">{step.cue}</p>
+            {iv?.circuit ? (
+              <>
+                <h3 className="text-lg sm:text-xl font-semibold">{t("interval.circuit")}</h3>
+                <ol className="text-emerald-200 mt-1 text-sm sm:text-base list-decimal pl-5">
+                  {iv.circuit.map((c, i) => <li key={i}>{c.title}{c.reps != null && ` — ${t("session.reps", { n: c.reps })}`}</li>)}
+                </ol>
+              </>
+            ) : (
+              <>
+                <h3 className="text-lg sm:text-xl font-semibold">{step.title}</h3>
+                <p className="text-emerald-200 mt-1 text-sm sm:text-base">{step.cue}</p>
+              </>
+            )}
+            {pain && <PainWarning areas={pain} />}
           </div>
         </div>
 
@@ -432,244 +730,253 @@ function SessionPanel({ step, remaining, running, onToggle, onNext, onRestart }:
         <div className="h-full flex flex-col">
           <div className="flex-1 rounded-2xl bg-emerald-900/40 border border-emerald-700/30 p-6 grid place-items-center">
             <div className="text-center">
-              <div className="text-6xl sm:text-7xl font-black tabular-nums tracking-tight">{formatMMSS(remaining)}</div>
+              {side && <SideBanner side={side} />}
+              {open ? (
+                <>
+                  <div className="text-6xl sm:text-7xl font-black tabular-nums tracking-tight">{t("session.reps", { n: step.reps ?? 0 })}</div>
+                  <div className="text-emerald-200 text-sm mt-2">
+                    {step.tempo && <>{t("session.tempo", { tempo: step.tempo })} • </>}<span className="tabular-nums">{formatMMSS(elapsed)}</span> (~{formatMMSS(step.duration)})
+                  </div>
+                </>
+              ) : (
+                <div className="text-6xl sm:text-7xl font-black tabular-nums tracking-tight">{formatMMSS(remaining)}</div>
+              )}
+              {iv?.format === "emom" && step.reps != null && <div className="text-rose-200 text-sm mt-2">{t("interval.emomTarget", { n: step.reps })}</div>}
               <div className="mt-4 w-full max-w-md mx-auto h-3 rounded-full bg-emerald-950/60 overflow-hidden">
-                <div className="h-full bg-emerald-400 transition-[width] duration-500" style={{ width: `${pct}%` }} />
+                <div className={`h-full transition-[width] duration-500 ${iv ? "bg-rose-400" : "bg-emerald-400"}`} style={{ width: `${pct}%` }} />
               </div>
             </div>
           </div>
 
-          <div className="mt-4 grid grid-cols-3 gap-3">
-            <button onClick={onToggle} className="flex items-center justify-center gap-2 px-4 py-3 rounded-2xl bg-emerald-400 text-emerald-950 font-semibold hover:bg-emerald-300 transition">
-              {running ? <Pause className="h-5 w-5"/> : <Play className="h-5 w-5"/>}
-              {running ? "Pausar" : "Reanudar"}
-            </button>
-            <button onClick={onNext} className="flex items-center justify-center gap-2 px-4 py-3 rounded-2xl bg-emerald-700/30 hover:bg-emerald-700/50 transition">
-              <SkipForward className="h-5 w-5"/> Siguiente
-            </button>
-            <button onClick={onRestart} className="flex items-center justify-center gap-2 px-4 py-3 rounded-2xl bg-emerald-700/30 hover:bg-emerald-700/50 transition">
-              <RotateCcw className="h-5 w-5"/> Reiniciar
+          {iv?.format === "amrap" && (
+            <div className="mt-4 grid grid-cols-[auto_1fr] gap-3">
+              <button onClick={() => onAmrapRound(-1)} disabled={!amrapRounds} title={t("interval.roundMinus")} className="px-4 py-4 rounded-2xl bg-emerald-700/30 hover:bg-emerald-700/50 transition disabled:opacity-40 disabled:pointer-events-none">−1</button>
+              <button onClick={() => onAmrapRound(1)} className="flex items-center justify-center gap-2 px-4 py-4 rounded-2xl bg-rose-300 text-rose-950 font-bold text-lg hover:bg-rose-200 transition">
+                <Plus className="h-6 w-6"/> {t("interval.roundPlus")}
+              </button>
+            </div>
+          )}
+
+          {open && (
+            <button onClick={onDone} className="mt-4 w-full flex items-center justify-center gap-2 px-4 py-4 rounded-2xl bg-emerald-300 text-emerald-950 font-bold text-lg hover:bg-emerald-200 transition">
+              <Check className="h-6 w-6"/> {t("session.done")}
             </button>
-          </div>
+          )}
+          <Controls running={running} nav={nav} nextLabel={t("controls.next")} timed={!open} />
         </div>
       </div>
     </div>
   );
 }
 
-function UpcomingList({ currentIdx }: { currentIdx: number }) {
+// Aviso visible del lado en curso; se anima al cambiar a mitad del ejercicio
+function SideBanner({ side }: { side: Side }) {
   return (
-    <div className="rounded-3xl bg-emerald-950/30 p-6 border border-emerald-700/30">
-      <h4 className="text-lg font-semibold mb-3">Siguiente(s)</h4>
-      <div className="space-y-2 max-h-72 overflow-auto pr-1">
-        {PROGRAM.slice(currentIdx + 1, currentIdx + 6).map((s, i) => (
-          <div key={s.key + i} className="flex items-center justify-between rounded-xl bg-emerald-900/40 px-3 py-2">
-            <div>
-              <div className="text-sm font-medium">{s.title}</div>
-              <div className="text-xs text-emerald-300">{s.phase} • {Math.round(s.duration)}s</div>
-            </div>
-            <div className="text-xs text-emerald-200">#{PROGRAM.indexOf(s) + 1}</div>
-          </div>
-        ))}
-      </div>
-    </div>
+    <AnimatePresence mode="wait">
+      <motion.div
+        key={side}
+        initial={{ opacity: 0, scale: 0.9 }} animate={{ opacity: 1, scale: 1 }} exit={{ opacity: 0, scale: 0.9 }}
+        className="mb-4 inline-flex items-center gap-2 rounded-xl px-4 py-2 bg-sky-950/30 border border-sky-700/40 text-sky-200 font-semibold"
+      >
+        <ArrowLeftRight className="h-5 w-5"/> {t(`side.${side}`)}
+      </motion.div>
+    </AnimatePresence>
   );
 }
 
-function TipsPanel() {
-  return (
-    <div className="rounded-3xl bg-emerald-950/30 p-6 border border-emerald-700/30">
-      <h4 className="text-lg font-semibold mb-3">Tips rápidos</h4>
-      <ul className="text-sm text-emerald-200 space-y-2 list-disc pl-5">
-        <li>Respira por la nariz y suelta por la boca; ritmo constante.</li>
-        <li>Escápulas atrás y abajo en espalda (abre pecho).</li>
-        <li>Si molesta la lumbar: reduce rango y activa abdomen/glúteos.</li>
-        <li>Muñecas: rango cómodo; alterna apoyo en palmas/dedos/puños si hace falta.</li>
-        <li>Durante el día: 30–60 s de apertura de pecho cada 1–2 h.</li>
-      </ul>
-    </div>
-  );
-}
+const breakTitle = (s: Step) => (s.kind === "prep" ? t("break.prep") : t(`break.${s.breakType ?? "set"}`));
 
-// ====== Utilidades de tiempo ======
-function formatMMSS(s: number) {
-  const m = Math.floor(s / 60).toString().padStart(2, "0");
-  const sec = Math.floor(s % 60).toString().padStart(2, "0");
-  return `${m}:${sec}`;
-}
-function formatHMS(total: number) {
-  const m = Math.floor(total / 60);
-  const s = total % 60;
-  return `${m}m ${s}s`;
-}
-
-// ====== Animaciones SVG (minimalistas) ======
-function ExerciseAnimation({ name }: { name: string }) {
-  switch (name) {
-    case "catcow": return <CatCowSVG/>;
-    case "bird-dog": return <BirdDogSVG/>;
-    case "low-plank": return <PlankSVG/>;
-    case "glute-bridge": return <GluteBridgeSVG/>;
-    case "scapular-prone": return <ScapularProneSVG/>;
-    case "wrist-pushups": return <WristPushupsSVG/>;
-    case "tspine-rotation": return <TSpineSVG/>;
-    case "wrist-circles": return <WristCirclesSVG/>;
-    case "door-pec": return <DoorPecSVG/>;
-    case "upper-trap": return <UpperTrapSVG/>;
-    case "child-pose": return <ChildPoseSVG/>;
-    case "wrist-stretch-flex":
-    case "wrist-stretch-ext": return <WristStretchSVG/>;
-    case "breathing":
-    case "shoulder-rolls":
-    default: return <BreathShoulderSVG/>;
-  }
-}
+// Pantalla de "Descanso / Prepárate": cuenta atrás + vista previa del ejercicio siguiente
+function BreakPanel({ step, next, remaining, duration, running, pain, nav }: {
+  step: Step; next: Step; remaining: number; duration: number; running: boolean; pain?: BodyArea[]; nav: NavHandlers;
+}) {
+  const pct = (1 - remaining / duration) * 100;
+  const prep = step.kind === "prep";
 
-function CatCowSVG() {
   return (
-    <svg viewBox="0 0 200 120" className="w-full h-full">
-      <rect width="200" height="120" rx="12" fill="rgba(16,185,129,0.08)"/>
-      <g>
-        <motion.rect x={20} y={60} width={160} height={6} rx={3} fill="currentColor" className="text-emerald-600" />
-        <motion.path
-          d="M40,60 C70,20 130,20 160,60"
-          stroke="currentColor" strokeWidth="6" fill="none" className="text-emerald-300"
-          animate={{ d: [
-            "M40,60 C70,20 130,20 160,60",
-            "M40,60 C70,90 130,90 160,60",
-          ]}}
-          transition={{ duration: 2.2, repeat: Infinity, repeatType: "reverse", ease: "easeInOut" }}
-        />
-      </g>
-    </svg>
-  );
-}
+    <div className={`rounded-3xl p-6 sm:p-10 backdrop-blur shadow-xl border ${prep ? "bg-sky-950/30 border-sky-700/40" : "bg-amber-950/20 border-amber-700/40"}`}>
+      <div className="flex flex-wrap items-center gap-3 justify-between">
+        <div className={`text-sm font-medium uppercase tracking-wide ${prep ? "text-sky-200" : "text-amber-200"}`}>{breakTitle(step)}</div>
+        <div className="text-xs text-emerald-300">
+          {stepPhaseLabel(step)} • {step.interval ? t("interval.round", { round: step.interval.round, rounds: step.interval.rounds }) : `${step.indexInPhase} / ${step.totalInPhase}`}
+        </div>
+      </div>
 
-function BirdDogSVG() {
-  return (
-    <svg viewBox="0 0 200 120" className="w-full h-full">
-      <rect width="200" height="120" rx="12" fill="rgba(16,185,129,0.08)"/>
-      <motion.circle cx={70} cy={70} r={12} fill="currentColor" className="text-emerald-300" />
-      <motion.line x1={70} y1={70} x2={120} y2={70} stroke="currentColor" strokeWidth={6} className="text-emerald-400"/>
-      <motion.line x1={70} y1={70} x2={40} y2={100} stroke="currentColor" strokeWidth={6} className="text-emerald-400"/>
-      <motion.line animate={{ x2: [140, 120], y2: [90, 70] }} x1={120} y1={70} x2={140} y2={90} stroke="currentColor" strokeWidth={6} className="text-emerald-200" transition={{ duration: 1.4, repeat: Infinity, repeatType: "reverse" }}/>
-      <motion.line animate={{ x2: [30, 50], y2: [40, 70] }} x1={70} y1={70} x2={30} y2={40} stroke="currentColor" strokeWidth={6} className="text-emerald-200" transition={{ duration: 1.4, repeat: Infinity, repeatType: "reverse" }}/>
-    </svg>
-  );
-}
+      <div className="grid lg:grid-cols-[0.9fr_1.1fr] gap-8 mt-6 items-center">
+        <div className="text-center">
+          <div className="text-6xl sm:text-7xl font-black tabular-nums tracking-tight">{formatMMSS(remaining)}</div>
+          <div className="mt-4 w-full max-w-md mx-auto h-3 rounded-full bg-emerald-950/60 overflow-hidden">
+            <div className={`h-full transition-[width] duration-500 ${prep ? "bg-sky-400" : "bg-amber-400"}`} style={{ width: `${pct}%` }} />
+          </div>
+          <div className="mt-2">
+            <Controls running={running} nav={nav} nextLabel={t("controls.startNow")} timed />
+          </div>
+        </div>
 
-function PlankSVG() {
-  return (
-    <svg viewBox="0 0 200 120" className="w-full h-full">
-      <rect width="200" height="120" rx="12" fill="rgba(16,185,129,0.08)"/>
-      <motion.line x1={30} y1={80} x2={170} y2={80} stroke="currentColor" strokeWidth={8} className="text-emerald-300" />
-      <motion.rect x={80} y={65} width={40} height={14} rx={7} fill="currentColor" className="text-emerald-500"/>
-    </svg>
+        {/* Vista previa del siguiente ejercicio */}
+        <div className="rounded-2xl bg-emerald-900/40 border border-emerald-700/30 p-4 sm:p-6">
+          <div className="text-xs uppercase tracking-wide text-emerald-300">{t("break.upNext")}</div>
+          <div className="aspect-video rounded-xl bg-emerald-950/50 grid place-items-center overflow-hidden mt-3">
+            <div className="w-full h-full grid place-items-center p-4">
+              <ExerciseAnimation animation={next.animation ?? next.key} tempo={next.tempo} mirror={next.side === "right"} />
+            </div>
+          </div>
+          <h3 className="text-lg sm:text-xl font-semibold mt-4">{next.title}</h3>
+          <div className="text-xs text-emerald-300 mt-1">{stepSummary(next)}</div>
+          <p className="text-emerald-200 mt-1 text-sm">{next.cue}</p>
+          {pain && <PainWarning areas={pain} />}
+        </div>
+      </div>
+    </div>
   );
 }
 
-function GluteBridgeSVG() {
+// Botonera común de ejercicio y descanso
+function Controls({ running, nav, nextLabel, timed }: { running: boolean; nav: NavHandlers; nextLabel: string; timed: boolean }) {
+  const secondary = "flex items-center justify-center gap-2 px-3 py-2 rounded-2xl bg-emerald-700/30 hover:bg-emerald-700/50 transition text-sm disabled:opacity-40 disabled:pointer-events-none";
   return (
-    <svg viewBox="0 0 200 120" className="w-full h-full">
-      <rect width="200" height="120" rx="12" fill="rgba(16,185,129,0.08)"/>
-      <motion.line x1={40} y1={100} x2={160} y2={100} stroke="currentColor" strokeWidth={8} className="text-emerald-300" />
-      <motion.rect animate={{ y: [90, 70, 90] }} transition={{ duration: 2, repeat: Infinity }} x={80} y={90} width={40} height={10} rx={5} fill="currentColor" className="text-emerald-400"/>
-    </svg>
+    <>
+      <div className="mt-4 grid grid-cols-3 gap-3">
+        <button onClick={nav.onPrev} title={t("controls.prevTitle")} className="flex items-center justify-center gap-2 px-4 py-3 rounded-2xl bg-emerald-700/30 hover:bg-emerald-700/50 transition">
+          <SkipBack className="h-5 w-5"/> {t("controls.prev")}
+        </button>
+        <button onClick={nav.onToggle} className="flex items-center justify-center gap-2 px-4 py-3 rounded-2xl bg-emerald-400 text-emerald-950 font-semibold hover:bg-emerald-300 transition">
+          {running ? <Pause className="h-5 w-5"/> : <Play className="h-5 w-5"/>}
+          {running ? t("controls.pause") : t("controls.resume")}
+        </button>
+        <button onClick={nav.onNext} title={t("controls.nextTitle")} className="flex items-center justify-center gap-2 px-4 py-3 rounded-2xl bg-emerald-700/30 hover:bg-emerald-700/50 transition">
+          <SkipForward className="h-5 w-5"/> {nextLabel}
+        </button>
+      </div>
+      <div className="mt-3 grid grid-cols-4 gap-3">
+        <button onClick={() => nav.onAdjust(-15)} disabled={!timed} title={t("controls.minus15")} className={secondary}>−15 s</button>
+        <button onClick={() => nav.onAdjust(15)} disabled={!timed} title={t("controls.plus15")} className={secondary}>+15 s</button>
+        <button onClick={nav.onSkipPhase} disabled={!nav.onSkipPhase} title={t("controls.phaseTitle")} className={secondary}>
+          <FastForward className="h-4 w-4"/> {t("controls.phase")}
+        </button>
+        <button onClick={nav.onRestart} title={t("controls.restartTitle")} className={secondary}>
+          <RotateCcw className="h-4 w-4"/> {t("controls.restart")}
+        </button>
+      </div>
+    </>
   );
 }
 
-function ScapularProneSVG() {
-  return (
-    <svg viewBox="0 0 200 120" className="w-full h-full">
-      <rect width="200" height="120" rx="12" fill="rgba(16,185,129,0.08)"/>
-      <motion.circle cx={100} cy={60} r={18} fill="currentColor" className="text-emerald-300" />
-      <motion.rect animate={{ x: [50, 44, 50], width: [100, 112, 100] }} transition={{ duration: 1.6, repeat: Infinity }} x={50} y={58} width={100} height={4} fill="currentColor" className="text-emerald-500"/>
-    </svg>
-  );
-}
+// Lista completa de pasos: hechos, actual y próximos; clic para saltar a cualquiera
+function StepList({ program, currentIdx, onJump }: { program: Step[]; currentIdx: number; onJump: (i: number) => void }) {
+  const listRef = useRef<HTMLDivElement | null>(null);
 
-function WristPushupsSVG() {
-  return (
-    <svg viewBox="0 0 200 120" className="w-full h-full">
-      <rect width="200" height="120" rx="12" fill="rgba(16,185,129,0.08)"/>
-      <motion.rect x={60} y={70} width={80} height={10} rx={5} fill="currentColor" className="text-emerald-400"/>
-      <motion.circle animate={{ cy: [65, 75, 65] }} transition={{ duration: 1.2, repeat: Infinity }} cx={100} cy={65} r={6} fill="currentColor" className="text-emerald-200"/>
-    </svg>
-  );
-}
+  // Mantiene el paso actual a la vista sin mover la página
+  useEffect(() => {
+    const list = listRef.current;
+    const el = list?.children[currentIdx] as HTMLElement | undefined;
+    if (list && el) list.scrollTo({ top: el.offsetTop - list.clientHeight / 3, behavior: "smooth" });
+  }, [currentIdx]);
 
-function TSpineSVG() {
   return (
-    <svg viewBox="0 0 200 120" className="w-full h-full">
-      <rect width="200" height="120" rx="12" fill="rgba(16,185,129,0.08)"/>
-      <motion.rect x={95} y={20} width={10} height={80} rx={5} fill="currentColor" className="text-emerald-400"/>
-      <motion.line animate={{ x2: [140, 60, 140] }} transition={{ duration: 2, repeat: Infinity }} x1={100} y1={60} x2={140} y2={60} stroke="currentColor" strokeWidth={6} className="text-emerald-300"/>
-    </svg>
+    <div className="rounded-3xl bg-emerald-950/30 p-6 border border-emerald-700/30">
+      <h4 className="text-lg font-semibold mb-3">{t("steps.title")} <span className="text-sm font-normal text-emerald-300">{currentIdx + 1}/{program.length}</span></h4>
+      <div ref={listRef} className="relative space-y-2 max-h-72 overflow-auto pr-1">
+        {program.map((s, i) => {
+          const state = i < currentIdx ? "done" : i === currentIdx ? "current" : "next";
+          return (
+            <button
+              key={i}
+              onClick={() => onJump(i)}
+              className={`w-full text-left flex items-center justify-between rounded-xl px-3 py-2 transition ${
+                state === "current" ? "bg-emerald-500/30 ring-1 ring-emerald-300/60" : "bg-emerald-900/40 hover:bg-emerald-800/60"
+              } ${state === "done" ? "opacity-60" : ""}`}
+            >
+              <div>
+                <div className={`text-sm font-medium ${s.kind === "work" ? "" : "text-emerald-300"}`}>{s.kind === "work" ? s.title : breakTitle(s)}</div>
+                <div className="text-xs text-emerald-300">{stepPhaseLabel(s)} • {stepSummary(s)}</div>
+              </div>
+              <div className="text-xs text-emerald-200 flex items-center gap-1">
+                {state === "done" && <Check className="h-3.5 w-3.5"/>}#{i + 1}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
   );
 }
 
-function WristCirclesSVG() {
-  return (
-    <svg viewBox="0 0 200 120" className="w-full h-full">
-      <rect width="200" height="120" rx="12" fill="rgba(16,185,129,0.08)"/>
-      <motion.circle cx={100} cy={60} r={24} stroke="currentColor" strokeWidth={6} fill="none" className="text-emerald-300"/>
-      <motion.circle animate={{ pathLength: [0, 1] }} transition={{ duration: 2, repeat: Infinity }} cx={100} cy={60} r={24} stroke="currentColor" strokeWidth={6} strokeDasharray="1 200" fill="none" className="text-emerald-100"/>
-    </svg>
-  );
-}
+const TIPS = ["tips.1", "tips.2", "tips.3", "tips.4", "tips.5"] as const;
 
-function DoorPecSVG() {
+function TipsPanel() {
   return (
-    <svg viewBox="0 0 200 120" className="w-full h-full">
-      <rect width="200" height="120" rx="12" fill="rgba(16,185,129,0.08)"/>
-      <motion.rect x={20} y={20} width={8} height={80} fill="currentColor" className="text-emerald-500"/>
-      <motion.line x1={24} y1={60} x2={100} y2={60} stroke="currentColor" strokeWidth={6} className="text-emerald-300"/>
-      <motion.line animate={{ x2: [130, 110, 130] }} transition={{ duration: 1.6, repeat: Infinity }} x1={100} y1={60} x2={130} y2={60} stroke="currentColor" strokeWidth={6} className="text-emerald-200"/>
-    </svg>
+    <div className="rounded-3xl bg-emerald-950/30 p-6 border border-emerald-700/30">
+      <h4 className="text-lg font-semibold mb-3">{t("tips.title")}</h4>
+      <ul className="text-sm text-emerald-200 space-y-2 list-disc pl-5">
+        {TIPS.map((key) => <li key={key}>{t(key)}</li>)}
+      </ul>
+    </div>
   );
 }
 
-function UpperTrapSVG() {
-  return (
-    <svg viewBox="0 0 200 120" className="w-full h-full">
-      <rect width="200" height="120" rx="12" fill="rgba(16,185,129,0.08)"/>
-      <motion.line x1={60} y1={90} x2={140} y2={90} stroke="currentColor" strokeWidth={6} className="text-emerald-400"/>
-      <motion.circle animate={{ cx: [80, 75, 80], cy: [50, 45, 50] }} transition={{ duration: 1.6, repeat: Infinity }} cx={80} cy={50} r={10} fill="currentColor" className="text-emerald-300"/>
-      <motion.circle cx={120} cy={50} r={10} fill="currentColor" className="text-emerald-500"/>
-    </svg>
-  );
+// Texto hablado al empezar un paso
+function announcement(step: Step, prev: Step | undefined, on: VoiceSettings["announce"], side?: Side) {
+  const parts: string[] = [];
+  if (on.phase && prev && prev.phase !== step.phase) parts.push(t("say.phase", { phase: stepPhaseLabel(step).toLowerCase() }));
+  if (step.kind === "prep") {
+    if (on.step) parts.push(t("say.prep", { title: step.title }));
+  } else if (step.kind === "rest") {
+    if (on.step) parts.push(t("say.rest", { title: step.title }));
+  } else {
+    const iv = step.interval;
+    if (on.step && iv && !iv.circuit) parts.push(t("say.round", { round: iv.round, rounds: iv.rounds }));
+    if (on.step && iv?.circuit) parts.push(t("say.circuit", { min: Math.round(step.duration / 60) }));
+    else if (on.step) parts.push(step.set != null ? t("say.set", { title: step.title, set: step.set, sets: step.sets ?? step.set }) : step.title);
+    if (on.step && side) parts.push(t(`side.${side}`));
+    if (on.step && (isOpenStep(step) || iv?.format === "emom")) parts.push(t("say.reps", { n: step.reps ?? 0 }));
+    if (on.cue && !iv?.circuit) parts.push(step.cue);
+  }
+  return parts.join(". ");
 }
 
-function ChildPoseSVG() {
-  return (
-    <svg viewBox="0 0 200 120" className="w-full h-full">
-      <rect width="200" height="120" rx="12" fill="rgba(16,185,129,0.08)"/>
-      <motion.ellipse cx={100} cy={80} rx={60} ry={12} fill="currentColor" className="text-emerald-400"/>
-      <motion.circle animate={{ cy: [70, 65, 70] }} transition={{ duration: 2, repeat: Infinity }} cx={60} cy={70} r={10} fill="currentColor" className="text-emerald-300"/>
-    </svg>
-  );
+// "45s" • "12 reps (~60s) • Serie 1/3" • "30s • Lado izquierdo"
+function stepSummary(s: Step) {
+  const set = s.set != null ? { set: s.set, sets: s.sets ?? s.set } : null;
+  if (s.kind !== "work") return `${Math.round(s.duration)}s → ${s.title}${set ? ` (${t("summary.set", set)})` : ""}`;
+  const length = isOpenStep(s) ? t("summary.reps", { reps: s.reps ?? 0, s: Math.round(s.duration) }) : `${Math.round(s.duration)}s`;
+  const side = s.side ? t(`side.${s.side}`) : splitsMidway(s) ? t("sides.split") : "";
+  const iv = s.interval;
+  const interval = !iv ? "" : iv.circuit ? tp("interval.exercises", iv.circuit.length) : t("interval.round", { round: iv.round, rounds: iv.rounds });
+  const target = iv?.format === "emom" && s.reps != null ? t("session.reps", { n: s.reps }) : "";
+  return [length, target, set && t("session.set", set), interval, side].filter(Boolean).join(" • ");
 }
 
-function WristStretchSVG() {
-  return (
-    <svg viewBox="0 0 200 120" className="w-full h-full">
-      <rect width="200" height="120" rx="12" fill="rgba(16,185,129,0.08)"/>
-      <motion.line x1={60} y1={90} x2={140} y2={90} stroke="currentColor" strokeWidth={6} className="text-emerald-400"/>
-      <motion.rect x={80} y={70} width={40} height={14} rx={7} fill="currentColor" className="text-emerald-300"/>
-      <motion.path d="M120,70 Q140,50 160,70" stroke="currentColor" strokeWidth={4} fill="none" className="text-emerald-200"/>
-    </svg>
-  );
+// Contenido de la mini-ventana flotante: en los descansos, el ejercicio que viene
+function pipView(step: Step, next: Step, remaining: number, elapsed: number, duration: number, running: boolean): PipView {
+  const progress = duration ? 1 - remaining / duration : 0;
+  if (step.kind !== "work") {
+    return { title: next.title, detail: breakTitle(step), time: formatMMSS(remaining), progress, running, open: false, tone: step.kind === "prep" ? "prep" : "rest" };
+  }
+  const open = isOpenStep(step);
+  const side = sideAt(step, remaining, duration);
+  return {
+    title: step.interval?.circuit ? t("interval.circuit") : step.title,
+    detail: [stepPhaseLabel(step), side && t(`side.${side}`)].filter(Boolean).join(" • "),
+    time: open ? t("session.reps", { n: step.reps ?? 0 }) : formatMMSS(remaining),
+    progress: open ? Math.min(1, elapsed / step.duration) : progress,
+    running,
+    open,
+    tone: step.interval ? "interval" : "work",
+  };
 }
 
-function BreathShoulderSVG() {
-  return (
-    <svg viewBox="0 0 200 120" className="w-full h-full">
-      <rect width="200" height="120" rx="12" fill="rgba(16,185,129,0.08)"/>
-      <motion.circle animate={{ r: [10, 18, 10] }} transition={{ duration: 3, repeat: Infinity }} cx={100} cy={60} r={12} fill="currentColor" className="text-emerald-300"/>
-      <motion.path d="M40,100 L160,100" stroke="currentColor" strokeWidth={6} className="text-emerald-500"/>
-    </svg>
-  );
+// ====== Utilidades de tiempo ======
+function formatMMSS(s: number) {
+  const m = Math.floor(s / 60).toString().padStart(2, "0");
+  const sec = Math.floor(s % 60).toString().padStart(2, "0");
+  return `${m}:${sec}`;
+}
+function formatHMS(total: number) {
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return `${m}m ${s}s`;
 }
 
-// Beep simple (440hz ~150ms)
-const BEEP_DATA_URI = "data:audio/wav;base64,UklGRl4AAABXQVZFZm10IBAAAAABAAEAESsAACJWAAACABYBHGZmZmZmZmYAAAAA//8AAP//AACqqqqqqqqq/////wAA";
+// Siguiente idioma del selector de la cabecera
+const nextLocale = (l: Locale) => LOCALES[(LOCALES.findIndex((x) => x.id === l) + 1) % LOCALES.length].id;
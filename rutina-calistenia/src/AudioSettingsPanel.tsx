@@ -0,0 +1,125 @@
+import { ArrowLeft, Volume2 } from "lucide-react";
+import { type VoiceSettings, type Announcements, speak, speechSupported, useVoices } from "./speech";
+import { type SoundSettings, type SoundPackId, SOUND_PACKS, SOUND_CUES, playCue, unlockAudio } from "./sound";
+import { exerciseByKey } from "./exercises";
+import { t } from "./i18n";
+
+const ANNOUNCEMENTS: (keyof Announcements)[] = ["step", "cue", "time", "countdown", "phase", "end"];
+
+const COMMON_LANGS = ["es-ES", "es-MX", "en-US", "en-GB"];
+
+// ===== Ajustes de sonido y voz =====
+export default function AudioSettingsPanel({ sound, onSoundChange, value, muted, onChange, onClose }: {
+  sound: SoundSettings;
+  onSoundChange: (s: SoundSettings) => void;
+  value: VoiceSettings;
+  muted: boolean;
+  onChange: (v: VoiceSettings) => void;
+  onClose: () => void;
+}) {
+  const voices = useVoices();
+  const langs = [...new Set([...COMMON_LANGS, ...voices.map((v) => v.lang)])].sort();
+  const langVoices = voices.filter((v) => v.lang.split("-")[0] === value.lang.split("-")[0]);
+
+  return (
+    <div className="rounded-3xl bg-emerald-950/30 p-6 sm:p-10 backdrop-blur shadow-xl border border-emerald-700/30">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-2xl sm:text-3xl font-bold">{t("nav.audio")}</h2>
+        <button onClick={onClose} className="inline-flex items-center gap-2 px-4 py-3 rounded-2xl bg-emerald-700/30 hover:bg-emerald-700/50 transition">
+          <ArrowLeft className="h-5 w-5"/> {t("common.back")}
+        </button>
+      </div>
+      {muted && <p className="text-xs text-amber-300 mt-3">{t("audio.muted")}</p>}
+
+      <h3 className="text-lg font-semibold mt-6">{t("audio.sounds")}</h3>
+      <div className="grid md:grid-cols-2 gap-6 mt-3 text-sm">
+        <div className="space-y-4">
+          <label className="block">
+            <span className="text-xs text-emerald-300">{t("audio.pack")}</span>
+            <select value={sound.pack} onChange={(e) => onSoundChange({ ...sound, pack: e.target.value as SoundPackId })} className="mt-1 w-full rounded-xl bg-emerald-950/50 border border-emerald-700/30 px-2 py-2">
+              {(Object.keys(SOUND_PACKS) as SoundPackId[]).map((id) => <option key={id} value={id}>{t(`sound.pack.${id}`)}</option>)}
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-xs text-emerald-300">{t("audio.volume", { n: Math.round(sound.volume * 100) })}</span>
+            <input type="range" min={0} max={1} step={0.05} value={sound.volume} onChange={(e) => onSoundChange({ ...sound, volume: Number(e.target.value) })} className="mt-1 w-full accent-emerald-400" />
+          </label>
+        </div>
+        <div className="rounded-2xl p-4 bg-emerald-900/40 border border-emerald-700/30">
+          <div className="text-emerald-100 font-semibold mb-3">{t("audio.test")}</div>
+          <div className="flex flex-wrap gap-2">
+            {SOUND_CUES.map((cue) => (
+              <button key={cue} onClick={() => { unlockAudio(); playCue(cue, sound); }} className="inline-flex items-center gap-2 px-3 py-1.5 rounded-xl bg-emerald-700/40 hover:bg-emerald-700/60 transition">
+                <Volume2 className="h-4 w-4"/> {t(`sound.cue.${cue}`)}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <h3 className="text-lg font-semibold mt-8">{t("voice.title")}</h3>
+      {!speechSupported() ? (
+        <p className="text-amber-300 mt-3 text-sm">{t("voice.unsupported")}</p>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-6 mt-3 text-sm">
+          <div className="space-y-4">
+            <label className="flex items-center gap-3">
+              <input type="checkbox" checked={value.enabled} onChange={(e) => onChange({ ...value, enabled: e.target.checked })} className="h-4 w-4 accent-emerald-400" />
+              <span className="font-medium">{t("voice.enabled")}</span>
+            </label>
+
+            <label className="block">
+              <span className="text-xs text-emerald-300">{t("voice.lang")}</span>
+              <select value={value.lang} onChange={(e) => onChange({ ...value, lang: e.target.value, voiceURI: undefined })} className="mt-1 w-full rounded-xl bg-emerald-950/50 border border-emerald-700/30 px-2 py-2">
+                {langs.map((l) => <option key={l} value={l}>{l}</option>)}
+              </select>
+            </label>
+
+            <label className="block">
+              <span className="text-xs text-emerald-300">{t("voice.voice")}</span>
+              <select value={value.voiceURI ?? ""} onChange={(e) => onChange({ ...value, voiceURI: e.target.value || undefined })} className="mt-1 w-full rounded-xl bg-emerald-950/50 border border-emerald-700/30 px-2 py-2">
+                <option value="">{t("voice.systemDefault")}</option>
+                {langVoices.map((v) => <option key={v.voiceURI} value={v.voiceURI}>{v.name} ({v.lang})</option>)}
+              </select>
+            </label>
+
+            <label className="block">
+              <span className="text-xs text-emerald-300">{t("voice.rate", { n: value.rate.toFixed(1) })}</span>
+              <input type="range" min={0.5} max={2} step={0.1} value={value.rate} onChange={(e) => onChange({ ...value, rate: Number(e.target.value) })} className="mt-1 w-full accent-emerald-400" />
+            </label>
+
+            <button
+              onClick={() => speak(sample(), { ...value, enabled: true }, true)}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-2xl bg-emerald-700/40 hover:bg-emerald-700/60 transition"
+            >
+              <Volume2 className="h-4 w-4"/> {t("audio.test")}
+            </button>
+          </div>
+
+          <div className="rounded-2xl p-4 bg-emerald-900/40 border border-emerald-700/30">
+            <div className="text-emerald-100 font-semibold mb-3">{t("voice.announcements")}</div>
+            <div className="space-y-2">
+              {ANNOUNCEMENTS.map((k) => (
+                <label key={k} className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    checked={value.announce[k]}
+                    onChange={(e) => onChange({ ...value, announce: { ...value.announce, [k]: e.target.checked } })}
+                    className="h-4 w-4 accent-emerald-400"
+                  />
+                  {t(`voice.announce.${k}`)}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Frase de prueba: un ejercicio real en el idioma actual
+function sample() {
+  const e = exerciseByKey("low-plank");
+  return e ? `${e.title}. ${e.cue}` : t("voice.title");
+}
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { AlertTriangle, Check, TrendingDown, TrendingUp, Repeat } from "lucide-react";
+import { type CheckIn, type Suggestion, DEFAULT_RPE, areaList, suggestionId } from "./checkins";
+import { type BodyArea, BODY_AREAS, exerciseByKey } from "./exercises";
+import { t } from "./i18n";
+
+const titleOf = (key: string) => exerciseByKey(key)?.title ?? key;
+
+// ===== Check-in al terminar la sesión =====
+export default function CheckInPanel({ keys, onSave, onSkip }: {
+  keys: string[];
+  onSave: (checkins: CheckIn[]) => void;
+  onSkip: () => void;
+}) {
+  const [values, setValues] = useState<CheckIn[]>(() => keys.map((key) => ({ key, rpe: DEFAULT_RPE, pain: [] })));
+  const update = (i: number, patch: Partial<CheckIn>) => setValues((vs) => vs.map((v, j) => (j === i ? { ...v, ...patch } : v)));
+  const togglePain = (i: number, area: BodyArea) => {
+    const pain = values[i].pain;
+    update(i, { pain: pain.includes(area) ? pain.filter((a) => a !== area) : [...pain, area] });
+  };
+
+  return (
+    <div className="rounded-3xl bg-emerald-950/30 p-6 sm:p-10 backdrop-blur shadow-xl border border-emerald-700/30">
+      <h2 className="text-2xl sm:text-3xl font-bold">{t("checkin.title")}</h2>
+      <p className="text-emerald-200 mt-2 text-sm">{t("checkin.intro")}</p>
+
+      <div className="space-y-3 mt-6">
+        {values.map((v, i) => (
+          <div key={v.key} className="rounded-2xl p-4 bg-emerald-900/40 border border-emerald-700/30 text-sm">
+            <div className="font-semibold text-emerald-100">{titleOf(v.key)}</div>
+            <label className="block mt-3">
+              <span className="text-xs text-emerald-300">{t("checkin.rpe", { n: v.rpe })}</span>
+              <input type="range" min={1} max={10} step={1} value={v.rpe} onChange={(e) => update(i, { rpe: Number(e.target.value) })} className="mt-1 w-full accent-emerald-400" />
+            </label>
+            <div className="text-xs text-emerald-300 mt-2">{t("checkin.pain")}</div>
+            <div className="flex flex-wrap gap-2 mt-1">
+              {BODY_AREAS.map((area) => {
+                const on = v.pain.includes(area);
+                return (
+                  <button
+                    key={area}
+                    onClick={() => togglePain(i, area)}
+                    aria-pressed={on}
+                    className={`px-3 py-1 rounded-xl transition ${on ? "bg-amber-400 text-emerald-950 font-semibold" : "bg-emerald-700/30 hover:bg-emerald-700/50"}`}
+                  >
+                    {t(`area.${area}`)}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-6 flex gap-3">
+        <button onClick={() => onSave(values)} className="inline-flex items-center gap-2 px-5 py-3 rounded-2xl bg-emerald-400 text-emerald-950 font-semibold hover:bg-emerald-300 transition">
+          <Check className="h-5 w-5"/> {t("checkin.save")}
+        </button>
+        <button onClick={onSkip} className="inline-flex items-center gap-2 px-4 py-3 rounded-2xl bg-emerald-700/30 hover:bg-emerald-700/50 transition">
+          {t("checkin.skip")}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ===== Sugerencias para la próxima sesión (pantalla de inicio) =====
+const SUGGESTION_ICON = { longer: TrendingUp, shorter: TrendingDown, regress: AlertTriangle, extraRound: Repeat };
+
+function suggestionText(s: Suggestion) {
+  if (s.kind === "extraRound") return t("suggest.extraRound");
+  if (s.kind === "regress") return t("suggest.regress", { title: titleOf(s.key), to: titleOf(s.to) });
+  return t(`suggest.${s.kind}`, { title: titleOf(s.key) });
+}
+
+export function SuggestionsCard({ suggestions, onApply, onDismiss }: {
+  suggestions: Suggestion[];
+  onApply: (s: Suggestion) => void;
+  onDismiss: () => void;
+}) {
+  return (
+    <div className="mb-6 rounded-2xl p-4 bg-emerald-900/60 border border-emerald-400/40 text-sm">
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-emerald-100 font-semibold">{t("suggest.title")}</div>
+        <button onClick={onDismiss} className="px-3 py-1 rounded-xl bg-emerald-700/30 hover:bg-emerald-700/50 transition text-xs">{t("suggest.dismiss")}</button>
+      </div>
+      <div className="space-y-2 mt-3">
+        {suggestions.map((s) => {
+          const Icon = SUGGESTION_ICON[s.kind];
+          return (
+            <div key={suggestionId(s)} className="flex flex-wrap items-center justify-between gap-2">
+              <div className="inline-flex items-center gap-2 text-emerald-200"><Icon className="h-4 w-4 shrink-0"/> {suggestionText(s)}</div>
+              <button onClick={() => onApply(s)} className="px-3 py-1 rounded-xl bg-emerald-400 text-emerald-950 font-semibold hover:bg-emerald-300 transition text-xs">{t("suggest.apply")}</button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// Aviso antes (y durante) un ejercicio con molestias en su último check-in
+export function PainWarning({ areas }: { areas: BodyArea[] }) {
+  return (
+    <div className="mt-3 inline-flex items-start gap-2 rounded-xl px-3 py-2 bg-amber-950/20 border border-amber-700/40 text-amber-200 text-sm">
+      <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0"/> {t("pain.warning", { areas: areaList(areas) })}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { motion } from "framer-motion";
+import { type Point, type Pose, type StickAnimation, ANIMATIONS, IDLE_ANIMATION, timing } from "./animations";
+
+// ====== Animación de monigote (una pose por fotograma clave, ver animations.ts) ======
+
+// Trazos en orden de dibujo: primero las extremidades lejanas (B), después tronco y cercanas (A)
+const LIMBS: { joints: (keyof Pose)[]; far?: boolean }[] = [
+  { joints: ["hip", "kneeB", "footB"], far: true },
+  { joints: ["shoulderB", "elbowB", "handB", "fingersB"], far: true },
+  { joints: ["hip", "chest", "neck"] },
+  { joints: ["shoulderA", "neck", "shoulderB"] },
+  { joints: ["hip", "kneeA", "footA"] },
+  { joints: ["shoulderA", "elbowA", "handA", "fingersA"] },
+];
+
+// Articulación con sus sustitutos: B copia a A y el hombro, si no se indica, es el cuello
+function jointAt(p: Pose, j: keyof Pose): Point | undefined {
+  if (p[j]) return p[j];
+  if (j === "shoulderA") return p.neck;
+  if (j === "shoulderB") return p.shoulderA ?? p.neck;
+  const a = ({ elbowB: "elbowA", handB: "handA", kneeB: "kneeA", footB: "footA" } as Partial<Record<keyof Pose, keyof Pose>>)[j];
+  return a && p[a];
+}
+
+// Polilínea "M x y L x y …"; las articulaciones opcionales ausentes se omiten (en todas las poses)
+function limbPath(p: Pose, joints: (keyof Pose)[]) {
+  const pts = joints.map((j) => jointAt(p, j)).filter((pt): pt is Point => !!pt);
+  return pts.length < 2 ? null : "M" + pts.map(([x, y]) => `${x} ${y}`).join(" L");
+}
+
+function Scene({ scene }: { scene: StickAnimation["scene"] }) {
+  return (
+    <g fill="currentColor" className="text-emerald-600">
+      <rect x={14} y={104} width={172} height={4} rx={2}/>
+      {scene === "wall" && <rect x={34} y={8} width={6} height={96} rx={2}/>}
+      {scene === "door" && <path d="M72,104 V12 H80 V104" stroke="currentColor" strokeWidth={4} fill="none"/>}
+    </g>
+  );
+}
+
+// `animation` es un `key` de ANIMATIONS o una animación en línea (ejercicios importados); con un
+// `key` desconocido se queda en la pose de reposo.
+// `tempo` ("2-1-2") sincroniza el ciclo con una repetición; `mirror` la dibuja hacia el otro lado.
+export default function ExerciseAnimation({ animation, tempo, mirror = false }: {
+  animation: string | StickAnimation;
+  tempo?: string;
+  mirror?: boolean;
+}) {
+  const anim = typeof animation === "string" ? ANIMATIONS[animation] : animation;
+  const { frames, scene } = anim ?? IDLE_ANIMATION;
+  const { duration, times } = timing(anim ?? IDLE_ANIMATION, anim ? tempo : undefined);
+  const transition = { duration, times, repeat: Infinity, ease: "easeInOut" } as const;
+
+  return (
+    <svg viewBox="0 0 200 120" className="w-full h-full">
+      <rect width="200" height="120" rx="12" fill="rgba(16,185,129,0.08)"/>
+      <g transform={mirror ? "translate(200 0) scale(-1 1)" : undefined}>
+        <Scene scene={scene}/>
+        {LIMBS.map(({ joints, far }) => {
+          const d = frames.map((f) => limbPath(f, joints));
+          if (d.some((x) => !x)) return null;
+          return (
+            <motion.path
+              key={joints.join("-")}
+              d={d[0]!} animate={{ d: d as string[] }} transition={transition}
+              stroke="currentColor" strokeWidth={far ? 5 : 6} strokeLinecap="round" strokeLinejoin="round" fill="none"
+              className={far ? "text-emerald-500" : "text-emerald-300"}
+            />
+          );
+        })}
+        <motion.circle
+          cx={frames[0].head[0]} cy={frames[0].head[1]} r={7}
+          animate={{ cx: frames.map((f) => f.head[0]), cy: frames.map((f) => f.head[1]) }} transition={transition}
+          fill="currentColor" className="text-emerald-200"
+        />
+      </g>
+    </svg>
+  );
+}
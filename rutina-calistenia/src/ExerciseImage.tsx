@@ -0,0 +1,46 @@
+import { useEffect, useState } from "react";
+import type { Exercise } from "./exercises";
+import { t } from "./i18n";
+
+// ===== Imagen de referencia con fallback + crédito =====
+// Placeholder generado localmente (SVG en data URI): funciona sin conexión
+const escapeXml = (s: string) => s.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+const PLACEHOLDER = (label: string) =>
+  "data:image/svg+xml;charset=utf-8," + encodeURIComponent(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="800" height="450" viewBox="0 0 800 450">` +
+    `<rect width="800" height="450" fill="#062a23"/>` +
+    `<text x="400" y="225" text-anchor="middle" dominant-baseline="middle" font-family="system-ui, sans-serif" font-size="40" fill="#9ae6b4">${escapeXml(label)}</text></svg>`,
+  );
+const isPlaceholder = (src: string) => src.startsWith("data:image/svg+xml");
+
+const withImg = (image: string | undefined, title: string) => image ?? PLACEHOLDER(title);
+const hostOf = (url?: string) => {
+  try { return url ? new URL(url).hostname.replace(/^www\./, '') : undefined; } catch { return undefined; }
+};
+
+export default function ExerciseImage({ exercise }: { exercise: Pick<Exercise, "key" | "title" | "image" | "credit"> }) {
+  const { key, title, image, credit } = exercise;
+  const [imgSrc, setImgSrc] = useState(withImg(image, title));
+
+  useEffect(() => {
+    setImgSrc(withImg(image, title));
+  }, [image, title, key]);
+
+  return (
+    <div>
+      <img
+        src={imgSrc}
+        alt={title}
+        className="w-full rounded-lg object-cover max-h-56"
+        onError={() => setImgSrc(PLACEHOLDER(title))}
+        loading="lazy"
+        referrerPolicy="no-referrer"
+      />
+      <div className="text-[10px] text-emerald-300 mt-1">
+        {isPlaceholder(imgSrc) ? t("image.generic") :
+         credit ? t("image.source", { source: credit }) :
+         imgSrc.startsWith("https://commons.wikimedia.org") ? t("image.source", { source: "Wikimedia Commons" }) : hostOf(imgSrc)}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useMemo, useState } from "react";
+import { ArrowLeft, ChevronLeft, ChevronRight } from "lucide-react";
+import { type SessionLog, WEEKLY_GOAL, dayKey, startOfWeek, streaks, weekCount, exerciseTotals } from "./history";
+import { exerciseByKey } from "./exercises";
+import { areaList } from "./checkins";
+import { t, tp, getLocale } from "./i18n";
+
+// ===== Historial =====
+export default function HistoryScreen({ history, onClose }: { history: SessionLog[]; onClose: () => void }) {
+  const now = new Date();
+  const [month, setMonth] = useState(() => new Date(now.getFullYear(), now.getMonth(), 1));
+
+  const { current, longest } = useMemo(() => streaks(history), [history]);
+  const thisWeek = useMemo(() => weekCount(history), [history]);
+  const totals = useMemo(() => exerciseTotals(history), [history]);
+  const byDay = useMemo(() => {
+    const m = new Map<string, SessionLog[]>();
+    for (const s of history) m.set(dayKey(s.startedAt), [...(m.get(dayKey(s.startedAt)) ?? []), s]);
+    return m;
+  }, [history]);
+
+  // Celdas del mes empezando en lunes
+  const first = startOfWeek(month);
+  const cells = Array.from({ length: 42 }, (_, i) => new Date(first.getFullYear(), first.getMonth(), first.getDate() + i))
+    .filter((d, i) => i < 35 || d.getMonth() === month.getMonth());
+  const shiftMonth = (n: number) => setMonth((m) => new Date(m.getFullYear(), m.getMonth() + n, 1));
+  const monthTitle = month.toLocaleDateString(getLocale(), { month: "long", year: "numeric" });
+
+  return (
+    <div className="rounded-3xl bg-emerald-950/30 p-6 sm:p-10 backdrop-blur shadow-xl border border-emerald-700/30">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-2xl sm:text-3xl font-bold">{t("nav.history")}</h2>
+        <button onClick={onClose} className="inline-flex items-center gap-2 px-4 py-3 rounded-2xl bg-emerald-700/30 hover:bg-emerald-700/50 transition">
+          <ArrowLeft className="h-5 w-5"/> {t("common.back")}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm mt-6">
+        <Stat title={t("history.streak")} value={tp("history.days", current)} />
+        <Stat title={t("history.longest")} value={tp("history.days", longest)} />
+        <Stat
+          title={t("history.week")}
+          value={`${thisWeek} / ${WEEKLY_GOAL.min}–${WEEKLY_GOAL.max}`}
+          hint={thisWeek >= WEEKLY_GOAL.min ? t("history.goalMet") : t("history.goalLeft", { n: WEEKLY_GOAL.min - thisWeek })}
+        />
+        <Stat title={t("history.sessions")} value={String(history.length)} />
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6 mt-6">
+        {/* Calendario mensual */}
+        <div className="rounded-2xl p-4 bg-emerald-900/40 border border-emerald-700/30">
+          <div className="flex items-center justify-between">
+            <button onClick={() => shiftMonth(-1)} className="p-1.5 rounded-lg bg-emerald-700/30 hover:bg-emerald-700/60 transition"><ChevronLeft className="h-4 w-4"/></button>
+            <div className="font-semibold capitalize">{monthTitle}</div>
+            <button onClick={() => shiftMonth(1)} className="p-1.5 rounded-lg bg-emerald-700/30 hover:bg-emerald-700/60 transition"><ChevronRight className="h-4 w-4"/></button>
+          </div>
+          <div className="grid grid-cols-7 gap-1 mt-3 text-center text-xs">
+            {t("history.weekdays").split(",").map((d, i) => <div key={i} className="text-emerald-300 py-1">{d}</div>)}
+            {cells.map((d) => {
+              const sessions = byDay.get(dayKey(d)) ?? [];
+              const full = sessions.some((s) => s.reachedEnd);
+              const inMonth = d.getMonth() === month.getMonth();
+              const today = dayKey(d) === dayKey(now);
+              return (
+                <div
+                  key={d.getTime()}
+                  title={sessions.length ? tp("history.sessionsOnDay", sessions.length) : undefined}
+                  className={`aspect-square grid place-items-center rounded-lg
+                    ${!inMonth ? "opacity-30" : ""}
+                    ${full ? "bg-emerald-400 text-emerald-950 font-semibold" : sessions.length ? "bg-emerald-700/60" : "bg-emerald-950/40"}
+                    ${today ? "ring-2 ring-emerald-200" : ""}`}
+                >
+                  {d.getDate()}
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex gap-4 mt-3 text-[10px] text-emerald-300">
+            <span className="inline-flex items-center gap-1"><span className="h-2 w-2 rounded bg-emerald-400"/> {t("history.complete")}</span>
+            <span className="inline-flex items-center gap-1"><span className="h-2 w-2 rounded bg-emerald-700/60"/> {t("history.partial")}</span>
+          </div>
+        </div>
+
+        {/* Totales por ejercicio */}
+        <div className="rounded-2xl p-4 bg-emerald-900/40 border border-emerald-700/30">
+          <div className="font-semibold mb-3">{t("history.byExercise")}</div>
+          {totals.length === 0 ? (
+            <p className="text-sm text-emerald-300">{t("history.none")}</p>
+          ) : (
+            <div className="space-y-2 max-h-72 overflow-auto pr-1">
+              {totals.map((total) => (
+                <div key={total.key} className="flex items-center justify-between rounded-xl bg-emerald-950/40 px-3 py-2">
+                  <div>
+                    <div className="text-sm font-medium">{exerciseByKey(total.key)?.title ?? total.title}</div>
+                    <div className="text-xs text-emerald-300">{t("history.done", { n: total.done })}{total.skipped ? ` • ${t("history.skipped", { n: total.skipped })}` : ""}</div>
+                  </div>
+                  <div className="text-xs text-emerald-200 tabular-nums">{Math.round(total.seconds / 60)} min</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Sesiones recientes */}
+      {history.length > 0 && (
+        <div className="mt-6">
+          <div className="font-semibold mb-3">{t("history.recent")}</div>
+          <div className="space-y-2">
+            {history.slice(-10).reverse().map((s) => {
+              const done = s.steps.filter((st) => !st.skipped).length;
+              const skipped = s.steps.length - done;
+              const rpe = s.checkins?.length ? s.checkins.reduce((a, c) => a + c.rpe, 0) / s.checkins.length : null;
+              const pain = [...new Set(s.checkins?.flatMap((c) => c.pain) ?? [])];
+              return (
+                <div key={s.id} className="flex flex-wrap items-center justify-between gap-2 rounded-xl bg-emerald-900/40 px-3 py-2 text-sm">
+                  <div>
+                    <div className="font-medium">{s.routineName}</div>
+                    <div className="text-xs text-emerald-300">
+                      {new Date(s.startedAt).toLocaleString(getLocale())} • {t("history.steps", { done, total: s.totalSteps })}{skipped ? ` • ${t("history.skipped", { n: skipped })}` : ""}
+                      {s.pausedMs >= 1000 ? ` • ${t("history.paused", { n: Math.round(s.pausedMs / 60000) })}` : ""}
+                      {rpe != null ? ` • ${t("history.rpe", { n: rpe.toFixed(1) })}` : ""}
+                      {pain.length ? <span className="text-amber-300"> • {areaList(pain)}</span> : null}
+                    </div>
+                  </div>
+                  <div className={`text-xs ${s.reachedEnd ? "text-emerald-200" : "text-amber-300"}`}>{s.reachedEnd ? t("history.complete") : t("history.incomplete")}</div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function Stat({ title, value, hint }: { title: string; value: string; hint?: string }) {
+  return (
+    <div className="rounded-2xl p-4 bg-emerald-900/40 border border-emerald-700/30">
+      <div className="text-emerald-200">{title}</div>
+      <div className="text-2xl font-bold mt-1 tabular-nums">{value}</div>
+      {hint && <div className="text-xs text-emerald-300 mt-1">{hint}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useMemo, useState } from "react";
+import { ArrowLeft, Save } from "lucide-react";
+import { EXERCISES, strengthCore } from "./exercises";
+import { type Routine, type IntervalFormat, INTERVAL_FORMATS, INTERVAL_PRESETS, intervalLabel, intervalRoutine, intervalSeconds, buildProgram, programSeconds, describeRoutine } from "./routines";
+import { IntervalFields } from "./RoutineEditor";
+import { t } from "./i18n";
+
+// ===== Generador de intervalos (Tabata, EMOM, AMRAP, personalizado) =====
+// Los ejercicios se eligen del catálogo y rotan en el orden en que se marcan.
+export default function IntervalGenerator({ onSave, onClose }: { onSave: (r: Routine) => void; onClose: () => void }) {
+  const [spec, setSpec] = useState(() => ({ ...INTERVAL_PRESETS.tabata }));
+  const [keys, setKeys] = useState<string[]>(() => strengthCore.slice(0, 4).map((e) => e.key));
+  const [bookends, setBookends] = useState(true);
+  const [name, setName] = useState("");
+
+  const defaultName = t("interval.routineName", { format: intervalLabel(spec.format), min: Math.round(intervalSeconds(spec) / 60) });
+  const routine = useMemo(() => intervalRoutine(name.trim() || defaultName, spec, keys, bookends), [name, defaultName, spec, keys, bookends]);
+  const minutes = Math.round(programSeconds(buildProgram(routine)) / 60);
+
+  const pickFormat = (f: IntervalFormat) => setSpec({ ...INTERVAL_PRESETS[f] });
+  const toggle = (key: string) => setKeys((ks) => (ks.includes(key) ? ks.filter((k) => k !== key) : [...ks, key]));
+
+  return (
+    <div className="rounded-3xl bg-emerald-950/30 p-6 sm:p-10 backdrop-blur shadow-xl border border-emerald-700/30">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-2xl sm:text-3xl font-bold">{t("nav.intervals")}</h2>
+        <button onClick={onClose} className="inline-flex items-center gap-2 px-4 py-3 rounded-2xl bg-emerald-700/30 hover:bg-emerald-700/50 transition">
+          <ArrowLeft className="h-5 w-5"/> {t("common.back")}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mt-6 text-sm">
+        {INTERVAL_FORMATS.map((f) => (
+          <button
+            key={f}
+            onClick={() => pickFormat(f)}
+            aria-pressed={spec.format === f}
+            className={`rounded-2xl p-3 text-left border transition ${spec.format === f ? "bg-rose-950/30 border-rose-400/60" : "bg-emerald-900/40 border-emerald-700/30 hover:bg-emerald-800/60"}`}
+          >
+            <div className="font-semibold">{intervalLabel(f)}</div>
+            <div className="text-xs text-emerald-300 mt-1">{t(`editor.interval.${f}`)}</div>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mt-4 text-xs text-emerald-300">
+        <IntervalFields value={spec} onChange={setSpec} />
+      </div>
+
+      <div className="rounded-2xl p-4 bg-emerald-900/40 border border-emerald-700/30 mt-6">
+        <div className="text-emerald-100 font-semibold text-sm">{t("interval.pick")}</div>
+        <p className="text-xs text-emerald-300 mt-1">{t("interval.pickHint")}</p>
+        <div className="flex flex-wrap gap-2 mt-3 text-sm">
+          {EXERCISES.map((e) => {
+            const n = keys.indexOf(e.key);
+            return (
+              <button
+                key={e.key}
+                onClick={() => toggle(e.key)}
+                aria-pressed={n >= 0}
+                className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full transition ${n >= 0 ? "bg-emerald-400 text-emerald-950 font-medium" : "bg-emerald-950/40 hover:bg-emerald-800/60"}`}
+              >
+                {n >= 0 && <span className="tabular-nums text-xs">{n + 1}.</span>}{e.title}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-4 mt-6 text-sm">
+        <label className="block">
+          <span className="block text-xs text-emerald-300 mb-1">{t("editor.name")}</span>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={defaultName}
+            className="w-full rounded-xl bg-emerald-900/40 border border-emerald-700/30 px-3 py-2"
+          />
+        </label>
+        <label className="flex items-center gap-2 self-end pb-2">
+          <input type="checkbox" checked={bookends} onChange={(e) => setBookends(e.target.checked)} className="h-4 w-4 accent-emerald-400" />
+          {t("interval.bookends")}
+        </label>
+      </div>
+
+      <div className="mt-6 flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => onSave(routine)}
+          disabled={!keys.length}
+          className="inline-flex items-center gap-2 px-5 py-3 rounded-2xl bg-emerald-400 text-emerald-950 font-semibold hover:bg-emerald-300 transition disabled:opacity-40 disabled:pointer-events-none"
+        >
+          <Save className="h-5 w-5"/> {t("interval.save")}
+        </button>
+        <span className="text-sm text-emerald-200">
+          {keys.length ? `${t("interval.total", { min: minutes })} — ${describeRoutine(routine)}` : t("interval.noExercises")}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useMemo, useState } from "react";
+import { ArrowLeft, Search, AlertTriangle } from "lucide-react";
+import { type Exercise, type ExerciseTag, type BodyArea, type Equipment, EXERCISE_TAGS, BODY_AREAS, EQUIPMENT, exerciseByKey, exercisesFor, isBuiltinExercise } from "./exercises";
+import ExerciseAnimation from "./ExerciseAnimation";
+import ExerciseImage from "./ExerciseImage";
+import { t, tp, useLocale } from "./i18n";
+
+// Sin acentos ni mayúsculas, para buscar "munecas" y encontrar "Muñecas"
+const fold = (s: string) => s.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+
+// ===== Catálogo de ejercicios =====
+export default function LibraryScreen({ onClose }: { onClose: () => void }) {
+  const [query, setQuery] = useState("");
+  const [tag, setTag] = useState<ExerciseTag | null>(null);
+  const [area, setArea] = useState<BodyArea | "">("");
+  const [equipment, setEquipment] = useState<Equipment | "">("");
+  const [selected, setSelected] = useState<string | null>(null);
+  const catalog = exercisesFor(useLocale());
+
+  const results = useMemo(() => {
+    const q = fold(query.trim());
+    return catalog.filter((e) =>
+      (!q || fold(`${e.title} ${e.cue} ${e.key}`).includes(q)) &&
+      (!tag || e.tags?.includes(tag)) &&
+      (!area || e.areas?.includes(area)) &&
+      (!equipment || e.equipment?.includes(equipment)));
+  }, [catalog, query, tag, area, equipment]);
+
+  const exercise = selected ? exerciseByKey(selected) : undefined;
+  const select = "rounded-xl bg-emerald-950/50 border border-emerald-700/30 px-2 py-2";
+
+  return (
+    <div className="rounded-3xl bg-emerald-950/30 p-6 sm:p-10 backdrop-blur shadow-xl border border-emerald-700/30">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-2xl sm:text-3xl font-bold">{exercise ? exercise.title : t("nav.library")}</h2>
+        <button onClick={exercise ? () => setSelected(null) : onClose} className="inline-flex items-center gap-2 px-4 py-3 rounded-2xl bg-emerald-700/30 hover:bg-emerald-700/50 transition">
+          <ArrowLeft className="h-5 w-5"/> {t("common.back")}
+        </button>
+      </div>
+
+      {exercise ? (
+        <ExerciseDetail exercise={exercise} onSelect={setSelected} />
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-3 mt-6 text-sm">
+            <label className="flex-1 min-w-48 inline-flex items-center gap-2 rounded-xl bg-emerald-950/50 border border-emerald-700/30 px-3 py-2">
+              <Search className="h-4 w-4 text-emerald-300"/>
+              <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder={t("library.search")} className="w-full bg-transparent outline-none" />
+            </label>
+            <select value={area} onChange={(e) => setArea(e.target.value as BodyArea | "")} className={select}>
+              <option value="">{t("library.allAreas")}</option>
+              {BODY_AREAS.map((a) => <option key={a} value={a}>{t(`area.${a}`)}</option>)}
+            </select>
+            <select value={equipment} onChange={(e) => setEquipment(e.target.value as Equipment | "")} className={select}>
+              <option value="">{t("library.anyEquipment")}</option>
+              {EQUIPMENT.map((q) => <option key={q} value={q}>{t(`equipment.${q}`)}</option>)}
+            </select>
+          </div>
+          <div className="flex flex-wrap gap-2 mt-3 text-sm">
+            {[null, ...EXERCISE_TAGS].map((tg) => (
+              <button
+                key={tg ?? "all"}
+                onClick={() => setTag(tg)}
+                aria-pressed={tag === tg}
+                className={`px-3 py-1 rounded-xl transition ${tag === tg ? "bg-emerald-400 text-emerald-950 font-semibold" : "bg-emerald-700/30 hover:bg-emerald-700/50"}`}
+              >
+                {tg ? t(`tag.${tg}`) : t("library.allTags")}
+              </button>
+            ))}
+          </div>
+
+          <div className="text-xs text-emerald-300 mt-4">{tp("library.count", results.length)}</div>
+          {results.length === 0 ? (
+            <p className="text-sm text-emerald-300 mt-3">{t("library.none")}</p>
+          ) : (
+            <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3 mt-3">
+              {results.map((e) => (
+                <button key={e.key} onClick={() => setSelected(e.key)} className="text-left rounded-2xl p-4 bg-emerald-900/40 border border-emerald-700/30 hover:bg-emerald-900/70 transition">
+                  <div className="h-24 rounded-xl bg-emerald-950/50 grid place-items-center overflow-hidden p-2">
+                    <ExerciseAnimation animation={e.animation ?? e.key} tempo={e.tempo} />
+                  </div>
+                  <div className="font-semibold mt-3">{e.title}</div>
+                  <Chips exercise={e} />
+                </button>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function Chips({ exercise }: { exercise: Exercise }) {
+  return (
+    <div className="flex flex-wrap gap-1 mt-2 text-[11px]">
+      {!isBuiltinExercise(exercise.key) && <span className="px-2 py-0.5 rounded-lg bg-sky-950/30 text-sky-200">{t("library.custom")}</span>}
+      {exercise.tags?.map((tg) => <span key={tg} className="px-2 py-0.5 rounded-lg bg-emerald-700/40">{t(`tag.${tg}`)}</span>)}
+    </div>
+  );
+}
+
+// Ficha: animación, imagen con crédito, indicación, metadatos, variantes y contraindicaciones
+function ExerciseDetail({ exercise: e, onSelect }: { exercise: Exercise; onSelect: (key: string) => void }) {
+  const variants = (e.variants ?? []).flatMap((key) => exerciseByKey(key) ?? []);
+  return (
+    <div className="grid lg:grid-cols-[1.1fr_0.9fr] gap-8 mt-6">
+      <div className="rounded-2xl bg-emerald-900/40 border border-emerald-700/30 p-4 sm:p-6">
+        <div className="aspect-video rounded-xl bg-emerald-950/50 grid place-items-center overflow-hidden p-4">
+          <ExerciseAnimation animation={e.animation ?? e.key} tempo={e.tempo} />
+        </div>
+        <div className="mt-4">
+          <ExerciseImage exercise={e} />
+        </div>
+      </div>
+
+      <div className="space-y-4 text-sm">
+        <p className="text-emerald-100 text-base">{e.cue}</p>
+        <Chips exercise={e} />
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+          <dt className="text-emerald-300">{t("library.duration")}</dt>
+          <dd>{e.duration} s{e.reps ? ` • ${t("session.reps", { n: e.reps })}` : ""}{e.tempo ? ` • ${t("session.tempo", { tempo: e.tempo })}` : ""}</dd>
+          {!!e.areas?.length && <>
+            <dt className="text-emerald-300">{t("library.areas")}</dt>
+            <dd>{e.areas.map((a) => t(`area.${a}`)).join(", ")}</dd>
+          </>}
+          {e.sides && <>
+            <dt className="text-emerald-300">{t("library.sides")}</dt>
+            <dd>{t(`sides.${e.sides}`)}</dd>
+          </>}
+          {!!e.equipment?.length && <>
+            <dt className="text-emerald-300">{t("library.equipment")}</dt>
+            <dd>{e.equipment.map((q) => t(`equipment.${q}`)).join(", ")}</dd>
+          </>}
+        </dl>
+
+        {variants.length > 0 && (
+          <div>
+            <div className="text-emerald-300 mb-1">{t("library.variants")}</div>
+            <div className="flex flex-wrap gap-2">
+              {variants.map((v) => (
+                <button key={v.key} onClick={() => onSelect(v.key)} className="px-3 py-1 rounded-xl bg-emerald-700/40 hover:bg-emerald-700/60 transition">{v.title}</button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="rounded-xl px-3 py-2 bg-amber-950/20 border border-amber-700/40 text-amber-200">
+          <div className="inline-flex items-center gap-2 font-semibold"><AlertTriangle className="h-4 w-4"/> {t("library.contra")}</div>
+          <p className="mt-1">{e.contraindications ?? t("library.noContra")}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useEffect, useRef } from "react";
+import { createPortal } from "react-dom";
+import { Check, Pause, Play, SkipForward } from "lucide-react";
+import { type PipTarget, type PipView, TONE_COLOR, drawPipFrame } from "./pip";
+import { t } from "./i18n";
+
+// ===== Mini-ventana del temporizador =====
+// Los botones llaman a los mismos manejadores que el panel principal, y el estado llega en `view`
+// en cada tic: lo que se toca en un lado se ve en el otro.
+export default function PipTimer({ target, view, onToggle, onNext }: {
+  target: PipTarget;
+  view: PipView;
+  onToggle: () => void;
+  onNext: () => void;
+}) {
+  const handlers = useRef({ onToggle, onNext });
+  useEffect(() => { handlers.current = { onToggle, onNext }; });
+
+  // Espacio / flecha derecha también funcionan con el foco en la mini-ventana
+  useEffect(() => {
+    if (target.kind !== "document") return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.code === "Space") { e.preventDefault(); handlers.current.onToggle(); }
+      if (e.code === "ArrowRight") { e.preventDefault(); handlers.current.onNext(); }
+    };
+    target.window.addEventListener("keydown", onKey);
+    return () => target.window.removeEventListener("keydown", onKey);
+  }, [target]);
+
+  // PiP de vídeo: botones del sistema vía Media Session
+  useEffect(() => {
+    if (target.kind !== "video" || !("mediaSession" in navigator)) return;
+    const ms = navigator.mediaSession;
+    ms.setActionHandler("play", () => handlers.current.onToggle());
+    ms.setActionHandler("pause", () => handlers.current.onToggle());
+    ms.setActionHandler("nexttrack", () => handlers.current.onNext());
+    return () => {
+      for (const action of ["play", "pause", "nexttrack"] as const) ms.setActionHandler(action, null);
+      ms.playbackState = "none";
+    };
+  }, [target]);
+
+  // `view` llega nuevo en cada render del panel principal: redibujar el lienzo es barato
+  useEffect(() => {
+    if (target.kind !== "video") return;
+    drawPipFrame(target.canvas, view);
+    if ("mediaSession" in navigator) navigator.mediaSession.playbackState = view.running ? "playing" : "paused";
+  }, [target, view]);
+
+  if (target.kind !== "document") return null;
+  return createPortal(<MiniTimer view={view} onToggle={onToggle} onNext={onNext} />, target.window.document.body);
+}
+
+function MiniTimer({ view, onToggle, onNext }: { view: PipView; onToggle: () => void; onNext: () => void }) {
+  const r = 52;
+  const length = 2 * Math.PI * r;
+  return (
+    <div className="min-h-screen w-full bg-gradient-to-b from-emerald-900 via-emerald-800 to-emerald-900 text-emerald-50 p-4 flex flex-col items-center justify-center gap-3 select-none">
+      <div className="text-center">
+        <div className="text-xs font-medium uppercase tracking-wide" style={{ color: TONE_COLOR[view.tone] }}>{view.detail}</div>
+        <div className="font-semibold leading-tight mt-1 line-clamp-2">{view.title}</div>
+      </div>
+      <div className="relative h-32 w-32">
+        <svg viewBox="0 0 120 120" className="h-full w-full -rotate-90">
+          <circle cx="60" cy="60" r={r} fill="none" strokeWidth="10" className="stroke-emerald-950/60" />
+          <circle
+            cx="60" cy="60" r={r} fill="none" strokeWidth="10" strokeLinecap="round"
+            stroke={TONE_COLOR[view.tone]}
+            strokeDasharray={length}
+            strokeDashoffset={length * (1 - Math.min(1, view.progress))}
+            className="transition-[stroke-dashoffset] duration-500"
+          />
+        </svg>
+        <div className={`absolute inset-0 grid place-items-center font-black tabular-nums ${view.time.length > 5 ? "text-lg" : "text-3xl"}`}>{view.time}</div>
+      </div>
+      <div className="grid grid-cols-2 gap-2 w-full max-w-56">
+        <button onClick={onToggle} title={view.running ? t("controls.pause") : t("controls.resume")} className="flex items-center justify-center py-2 rounded-2xl bg-emerald-400 text-emerald-950 font-semibold hover:bg-emerald-300 transition">
+          {view.running ? <Pause className="h-5 w-5"/> : <Play className="h-5 w-5"/>}
+        </button>
+        <button onClick={onNext} title={view.open ? t("session.done") : t("controls.next")} className="flex items-center justify-center py-2 rounded-2xl bg-emerald-700/40 hover:bg-emerald-700/60 transition">
+          {view.open ? <Check className="h-5 w-5"/> : <SkipForward className="h-5 w-5"/>}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useEffect, useState } from "react";
+import { ArrowLeft, Plus, Trash2, Download } from "lucide-react";
+import { type Routine, buildProgram, programSeconds } from "./routines";
+import { type PlanEntry, PLAN_DAYS, loadPlan, savePlan, newPlanEntry, sortPlan, plannedDays, planToICS } from "./plan";
+import { WEEKLY_GOAL } from "./history";
+import { downloadFile } from "./files";
+import { t } from "./i18n";
+
+// ===== Plan semanal (y exportación a calendario) =====
+export default function PlannerScreen({ routines, activeId, scale, onClose }: {
+  routines: Routine[];
+  activeId: string;
+  scale: number;
+  onClose: () => void;
+}) {
+  const [plan, setPlan] = useState(loadPlan);
+  useEffect(() => { savePlan(plan); }, [plan]);
+
+  const weekdays = t("history.weekdays").split(",");
+  const update = (id: string, patch: Partial<PlanEntry>) => setPlan((p) => p.map((e) => (e.id === id ? { ...e, ...patch } : e)));
+  const minutesOf = (routineId: string) => {
+    const r = routines.find((x) => x.id === routineId);
+    return r ? Math.round(programSeconds(buildProgram(r, scale)) / 60) : 0;
+  };
+  const days = plannedDays(plan);
+  const select = "rounded-xl bg-emerald-950/50 border border-emerald-700/30 px-2 py-1.5";
+
+  return (
+    <div className="rounded-3xl bg-emerald-950/30 p-6 sm:p-10 backdrop-blur shadow-xl border border-emerald-700/30">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-2xl sm:text-3xl font-bold">{t("nav.planner")}</h2>
+        <button onClick={onClose} className="inline-flex items-center gap-2 px-4 py-3 rounded-2xl bg-emerald-700/30 hover:bg-emerald-700/50 transition">
+          <ArrowLeft className="h-5 w-5"/> {t("common.back")}
+        </button>
+      </div>
+      <p className="text-emerald-200 mt-2 text-sm">
+        {t("plan.intro")}{" "}
+        <span className={days >= WEEKLY_GOAL.min ? "text-emerald-100 font-semibold" : "text-amber-200"}>
+          {t("plan.days", { n: days, min: WEEKLY_GOAL.min, max: WEEKLY_GOAL.max })}
+        </span>
+      </p>
+
+      <div className="space-y-3 mt-6 text-sm">
+        {PLAN_DAYS.map((day, i) => {
+          const entries = sortPlan(plan.filter((e) => e.day === day));
+          return (
+            <div key={day} className="rounded-2xl p-3 bg-emerald-900/40 border border-emerald-700/30 flex flex-wrap items-center gap-3">
+              <div className="w-8 font-semibold text-emerald-100">{weekdays[i]}</div>
+              <div className="flex-1 flex flex-wrap gap-2">
+                {entries.length === 0 && <span className="text-emerald-300/80 self-center">{t("plan.rest")}</span>}
+                {entries.map((e) => {
+                  const missing = !routines.some((r) => r.id === e.routineId);
+                  return (
+                    <div key={e.id} className="inline-flex items-center gap-2 rounded-xl bg-emerald-950/40 px-2 py-1">
+                      <input type="time" value={e.time} onChange={(ev) => ev.target.value && update(e.id, { time: ev.target.value })} className={select} />
+                      <select value={e.routineId} onChange={(ev) => update(e.id, { routineId: ev.target.value })} className={select}>
+                        {missing && <option value={e.routineId}>{t("plan.missing")}</option>}
+                        {routines.map((r) => <option key={r.id} value={r.id}>{r.name}</option>)}
+                      </select>
+                      {!missing && <span className="text-xs text-emerald-300">{t("plan.minutes", { n: minutesOf(e.routineId) })}</span>}
+                      <button onClick={() => setPlan((p) => p.filter((x) => x.id !== e.id))} title={t("plan.remove")} className="p-1.5 rounded-lg hover:bg-emerald-700/50 transition">
+                        <Trash2 className="h-4 w-4"/>
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+              <button onClick={() => setPlan((p) => [...p, newPlanEntry(day, activeId)])} title={t("plan.add")} className="p-2 rounded-xl bg-emerald-700/30 hover:bg-emerald-700/50 transition">
+                <Plus className="h-4 w-4"/>
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-6 flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => downloadFile("rutina-calistenia-plan.ics", planToICS(plan, routines, scale), "text/calendar")}
+          disabled={!plan.length}
+          className="inline-flex items-center gap-2 px-5 py-3 rounded-2xl bg-emerald-400 text-emerald-950 font-semibold hover:bg-emerald-300 transition disabled:opacity-40 disabled:pointer-events-none"
+        >
+          <Download className="h-5 w-5"/> {t("plan.export")}
+        </button>
+        <span className="text-xs text-emerald-300">{t("plan.exportHint")}</span>
+      </div>
+    </div>
+  );
+}
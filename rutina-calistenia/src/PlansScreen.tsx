@@ -0,0 +1,174 @@
+import { useRef, useState } from "react";
+import { ArrowLeft, Download, Play, Pause, RotateCcw, Trash2, Trophy, Upload } from "lucide-react";
+import { type Exercise, exerciseByKey } from "./exercises";
+import type { Routine } from "./routines";
+import {
+  type TrainingPlan, type TrainingState, type PlanPosition, BUILTIN_PLAN_IDS,
+  planLength, planPosition, resetProgress, describeWeek,
+} from "./trainingPlans";
+import { exportFile, parseImport } from "./schema";
+import { downloadFile, slugify } from "./files";
+import { t, tp } from "./i18n";
+
+const title = (key: string) => exerciseByKey(key)?.title ?? key;
+
+function ProgressBar({ done, total }: { done: number; total: number }) {
+  return (
+    <div className="h-2 rounded-full bg-emerald-950/60 overflow-hidden">
+      <div className="h-full bg-emerald-400" style={{ width: `${Math.min(100, (done / total) * 100)}%` }} />
+    </div>
+  );
+}
+
+// Tarjeta del plan activo en la pantalla de inicio: la sesión de hoy sale sola de la posición
+export function PlanCard({ plan, pos, done, onReset, onLeave, onManage }: {
+  plan: TrainingPlan;
+  pos: PlanPosition;
+  done: number;
+  onReset: () => void;
+  onLeave: () => void;
+  onManage: () => void;
+}) {
+  const link = "underline hover:text-emerald-100";
+  return (
+    <div className="mb-6 rounded-2xl p-4 bg-emerald-900/60 border border-emerald-400/40 text-sm">
+      {pos.finished ? (
+        <div className="flex items-center gap-2 text-emerald-100 font-semibold"><Trophy className="h-4 w-4"/> {t("plans.finished", { name: plan.name })}</div>
+      ) : (
+        <>
+          <div className="text-xs uppercase tracking-wide text-emerald-300">{plan.name}</div>
+          <div className="text-xl font-bold mt-1">{t("plans.position", { week: pos.week, day: pos.day })}</div>
+          <div className="text-emerald-200 mt-1">{describeWeek(plan.weeks[pos.week - 1], title)}</div>
+        </>
+      )}
+      <div className="mt-3"><ProgressBar done={done} total={planLength(plan)} /></div>
+      <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-emerald-300">
+        <span className="tabular-nums">{t("plans.progress", { done, total: planLength(plan) })}</span>
+        {pos.finished && <button onClick={onReset} className={link}>{t("plans.restart")}</button>}
+        <button onClick={onLeave} className={link}>{t("plans.leave")}</button>
+        <button onClick={onManage} className={link}>{t("plans.manage")}</button>
+      </div>
+    </div>
+  );
+}
+
+// ===== Planes de varias semanas =====
+export default function PlansScreen({ plans, training, routineIds, onTrainingChange, onDelete, onImport, onClose }: {
+  plans: TrainingPlan[];
+  training: TrainingState;
+  routineIds: string[];
+  onTrainingChange: (s: TrainingState) => void;
+  onDelete: (id: string) => void;
+  onImport: (exercises: Exercise[], routines: Routine[], plans: TrainingPlan[]) => void;
+  onClose: () => void;
+}) {
+  const [messages, setMessages] = useState<{ kind: "error" | "ok"; lines: string[] } | null>(null);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  function start(plan: TrainingPlan) {
+    onTrainingChange({ ...training, activeId: plan.id });
+    onClose();
+  }
+  function reset(plan: TrainingPlan) {
+    if (confirm(t("plans.confirmReset", { name: plan.name }))) onTrainingChange(resetProgress(training, plan.id));
+  }
+  function remove(plan: TrainingPlan) {
+    if (!confirm(t("plans.confirmDelete", { name: plan.name }))) return;
+    onTrainingChange({ ...resetProgress(training, plan.id), activeId: training.activeId === plan.id ? null : training.activeId });
+    onDelete(plan.id);
+  }
+  function exportPlan(plan: TrainingPlan) {
+    downloadFile(`${slugify(plan.name)}.json`, JSON.stringify(exportFile([], [], [plan]), null, 2), "application/json");
+  }
+  async function importFile(file: File) {
+    const res = parseImport(await file.text(), routineIds, plans.map((p) => p.id));
+    if (!res.ok) return setMessages({ kind: "error", lines: [t("editor.importFailed", { file: file.name }), ...res.errors] });
+    onImport(res.exercises, res.routines, res.plans);
+    setMessages({ kind: "ok", lines: [t("plans.imported", { file: file.name, plans: tp("plans.count", res.plans.length) }), ...res.warnings] });
+  }
+
+  const button = "inline-flex items-center gap-1 px-3 py-2 rounded-xl bg-emerald-700/40 hover:bg-emerald-700/60 transition";
+
+  return (
+    <div className="rounded-3xl bg-emerald-950/30 p-6 sm:p-10 backdrop-blur shadow-xl border border-emerald-700/30">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-2xl sm:text-3xl font-bold">{t("nav.plans")}</h2>
+        <button onClick={onClose} className="inline-flex items-center gap-2 px-4 py-3 rounded-2xl bg-emerald-700/30 hover:bg-emerald-700/50 transition">
+          <ArrowLeft className="h-5 w-5"/> {t("common.back")}
+        </button>
+      </div>
+      <p className="text-emerald-200 mt-2 text-sm">{t("plans.intro")}</p>
+
+      <div className="space-y-4 mt-6 text-sm">
+        {plans.map((plan) => {
+          const progress = training.progress[plan.id];
+          const done = progress?.sessions.length ?? 0;
+          const pos = planPosition(plan, progress);
+          const active = training.activeId === plan.id;
+          return (
+            <div key={plan.id} className={`rounded-2xl p-4 border ${active ? "bg-emerald-700/40 border-emerald-300/50" : "bg-emerald-900/40 border-emerald-700/30"}`}>
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <div className="text-base font-semibold">{plan.name}</div>
+                <div className="text-emerald-300">
+                  {tp("plans.weeks", plan.weeks.length)} × {tp("plans.days", plan.daysPerWeek)}
+                </div>
+              </div>
+              {plan.description && <p className="text-emerald-200 mt-1">{plan.description}</p>}
+
+              <ol className="mt-3 space-y-1">
+                {plan.weeks.map((w, i) => {
+                  const current = (done > 0 || active) && !pos.finished && pos.week === i + 1;
+                  return (
+                    <li key={i} className={`flex gap-3 rounded-lg px-2 py-1 ${current ? "bg-emerald-400/20 text-emerald-50" : "text-emerald-200"}`}>
+                      <span className="shrink-0 w-20 font-medium">{t("plans.weekN", { n: i + 1 })}</span>
+                      <span>{describeWeek(w, title)}</span>
+                    </li>
+                  );
+                })}
+              </ol>
+
+              <div className="mt-3"><ProgressBar done={done} total={planLength(plan)} /></div>
+              <div className="text-emerald-300 mt-1 tabular-nums">
+                {pos.finished ? t("plans.done") : done ? `${t("plans.progress", { done, total: planLength(plan) })} • ${t("plans.next", { position: t("plans.position", { week: pos.week, day: pos.day }) })}` : t("plans.notStarted")}
+              </div>
+
+              <div className="flex flex-wrap gap-2 mt-3">
+                {active ? (
+                  <button onClick={() => onTrainingChange({ ...training, activeId: null })} className={button}><Pause className="h-4 w-4"/> {t("plans.leave")}</button>
+                ) : !pos.finished && (
+                  <button onClick={() => start(plan)} className="inline-flex items-center gap-1 px-3 py-2 rounded-xl bg-emerald-400 text-emerald-950 font-semibold hover:bg-emerald-300 transition">
+                    <Play className="h-4 w-4"/> {done ? t("plans.continue") : t("plans.start")}
+                  </button>
+                )}
+                {done > 0 && <button onClick={() => reset(plan)} className={button}><RotateCcw className="h-4 w-4"/> {t("plans.reset")}</button>}
+                <button onClick={() => exportPlan(plan)} className={button}><Download className="h-4 w-4"/> {t("plans.export")}</button>
+                {!BUILTIN_PLAN_IDS.has(plan.id) && (
+                  <button onClick={() => remove(plan)} title={t("plans.delete")} className="inline-flex items-center gap-1 px-3 py-2 rounded-xl bg-emerald-700/30 hover:bg-red-500/40 transition">
+                    <Trash2 className="h-4 w-4"/>
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-6 rounded-2xl p-4 bg-emerald-900/40 border border-emerald-700/30 text-sm">
+        <div className="text-emerald-100 font-semibold">{t("plans.import")}</div>
+        <p className="text-xs text-emerald-300 mt-1">{t("plans.importHint")}</p>
+        <button onClick={() => fileRef.current?.click()} className={`${button} mt-3`}>
+          <Upload className="h-4 w-4"/> {t("editor.import")}
+        </button>
+        <input
+          ref={fileRef} type="file" accept="application/json,.json" className="hidden"
+          onChange={(e) => { const f = e.target.files?.[0]; if (f) importFile(f); e.target.value = ""; }}
+        />
+        {messages && (
+          <ul className={`mt-3 text-xs space-y-1 ${messages.kind === "error" ? "text-red-300" : "text-emerald-200"}`}>
+            {messages.lines.map((l, i) => <li key={i}>{l}</li>)}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useRef, useState } from "react";
+import { ArrowLeft, Check, Download, Plus, Trash2, Upload } from "lucide-react";
+import { type Profile, type ProfileColor, PROFILE_COLORS, AVATAR_CLASS, activeProfileId, switchProfile, newProfile, deleteProfile, exportProfile, importProfile } from "./profiles";
+import { downloadFile, slugify } from "./files";
+import { t } from "./i18n";
+
+export function Avatar({ profile, size = "h-9 w-9" }: { profile: Profile; size?: string }) {
+  return (
+    <span className={`${size} ${AVATAR_CLASS[profile.color]} rounded-full grid place-items-center font-bold shrink-0`}>
+      {profile.name.trim().charAt(0).toUpperCase() || "?"}
+    </span>
+  );
+}
+
+// Selector rápido de la pantalla de inicio
+export function ProfileSwitcher({ profiles, onManage }: { profiles: Profile[]; onManage: () => void }) {
+  const active = activeProfileId();
+  return (
+    <div className="mb-6 flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-emerald-300 mr-1">{t("profile.who")}</span>
+      {profiles.map((p) => (
+        <button
+          key={p.id}
+          onClick={() => switchProfile(p.id)}
+          aria-pressed={p.id === active}
+          className={`inline-flex items-center gap-2 pl-1 pr-3 py-1 rounded-full transition ${p.id === active ? "bg-emerald-700/60 ring-1 ring-emerald-300/60" : "bg-emerald-900/40 hover:bg-emerald-800/60"}`}
+        >
+          <Avatar profile={p} size="h-7 w-7" /> {p.name}
+        </button>
+      ))}
+      <button onClick={onManage} className="px-3 py-1 rounded-full bg-emerald-700/30 hover:bg-emerald-700/50 transition">{t("profile.manage")}</button>
+    </div>
+  );
+}
+
+// ===== Gestión de perfiles =====
+export default function ProfilesPanel({ profiles, onChange, onClose }: {
+  profiles: Profile[];
+  onChange: (profiles: Profile[]) => void;
+  onClose: () => void;
+}) {
+  const active = activeProfileId();
+  const [name, setName] = useState("");
+  const [color, setColor] = useState<ProfileColor>("sky");
+  const [message, setMessage] = useState<{ kind: "ok" | "error"; text: string } | null>(null);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const update = (id: string, patch: Partial<Profile>) => onChange(profiles.map((p) => (p.id === id ? { ...p, ...patch } : p)));
+
+  function create() {
+    if (!name.trim()) return;
+    onChange([...profiles, newProfile(name.trim(), color)]);
+    setName("");
+  }
+  function remove(p: Profile) {
+    if (confirm(t("profile.confirmDelete", { name: p.name }))) onChange(deleteProfile(profiles, p.id));
+  }
+  async function importFile(file: File) {
+    const res = importProfile(await file.text());
+    if (!res.ok) return setMessage({ kind: "error", text: `${t("profile.importFailed", { file: file.name })} ${res.error}` });
+    onChange([...profiles, res.profile]);
+    setMessage({ kind: "ok", text: t("profile.imported", { name: res.profile.name }) });
+  }
+
+  return (
+    <div className="rounded-3xl bg-emerald-950/30 p-6 sm:p-10 backdrop-blur shadow-xl border border-emerald-700/30">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-2xl sm:text-3xl font-bold">{t("nav.profiles")}</h2>
+        <button onClick={onClose} className="inline-flex items-center gap-2 px-4 py-3 rounded-2xl bg-emerald-700/30 hover:bg-emerald-700/50 transition">
+          <ArrowLeft className="h-5 w-5"/> {t("common.back")}
+        </button>
+      </div>
+      <p className="text-emerald-200 mt-2 text-sm">{t("profile.intro")}</p>
+
+      <div className="space-y-3 mt-6 text-sm">
+        {profiles.map((p) => (
+          <div key={p.id} className={`rounded-2xl p-3 flex flex-wrap items-center gap-3 border ${p.id === active ? "bg-emerald-700/40 border-emerald-300/50" : "bg-emerald-900/40 border-emerald-700/30"}`}>
+            <Avatar profile={p} />
+            <input
+              value={p.name}
+              onChange={(e) => update(p.id, { name: e.target.value })}
+              aria-label={t("profile.name")}
+              className="flex-1 min-w-32 rounded-xl bg-emerald-950/50 border border-emerald-700/30 px-3 py-2"
+            />
+            <ColorPicker value={p.color} onChange={(c) => update(p.id, { color: c })} />
+            <div className="flex gap-1">
+              {p.id === active ? (
+                <span className="px-3 py-2 text-xs text-emerald-200">{t("profile.current")}</span>
+              ) : (
+                <button onClick={() => switchProfile(p.id)} title={t("profile.use")} className="p-2 rounded-xl bg-emerald-700/30 hover:bg-emerald-700/50 transition"><Check className="h-4 w-4"/></button>
+              )}
+              <button onClick={() => downloadFile(`${slugify(p.name)}.perfil.json`, JSON.stringify(exportProfile(p), null, 2), "application/json")} title={t("profile.export")} className="p-2 rounded-xl bg-emerald-700/30 hover:bg-emerald-700/50 transition">
+                <Download className="h-4 w-4"/>
+              </button>
+              <button onClick={() => remove(p)} disabled={p.id === active} title={t("profile.delete")} className="p-2 rounded-xl bg-emerald-700/30 hover:bg-emerald-700/50 transition disabled:opacity-40 disabled:pointer-events-none">
+                <Trash2 className="h-4 w-4"/>
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6 mt-6 text-sm">
+        <div className="rounded-2xl p-4 bg-emerald-900/40 border border-emerald-700/30">
+          <div className="text-emerald-100 font-semibold">{t("profile.new")}</div>
+          <div className="flex flex-wrap items-center gap-3 mt-3">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === "Enter") create(); }}
+              placeholder={t("profile.name")}
+              className="flex-1 min-w-32 rounded-xl bg-emerald-950/50 border border-emerald-700/30 px-3 py-2"
+            />
+            <ColorPicker value={color} onChange={setColor} />
+            <button onClick={create} disabled={!name.trim()} className="inline-flex items-center gap-2 px-4 py-2 rounded-2xl bg-emerald-400 text-emerald-950 font-semibold hover:bg-emerald-300 transition disabled:opacity-40 disabled:pointer-events-none">
+              <Plus className="h-4 w-4"/> {t("profile.create")}
+            </button>
+          </div>
+        </div>
+
+        <div className="rounded-2xl p-4 bg-emerald-900/40 border border-emerald-700/30">
+          <div className="text-emerald-100 font-semibold">{t("profile.move")}</div>
+          <p className="text-xs text-emerald-300 mt-1">{t("profile.moveHint")}</p>
+          <button onClick={() => fileRef.current?.click()} className="mt-3 inline-flex items-center gap-1 px-3 py-2 rounded-xl bg-emerald-700/40 hover:bg-emerald-700/60 transition">
+            <Upload className="h-4 w-4"/> {t("profile.import")}
+          </button>
+          <input
+            ref={fileRef} type="file" accept="application/json,.json" className="hidden"
+            onChange={(e) => { const f = e.target.files?.[0]; if (f) importFile(f); e.target.value = ""; }}
+          />
+          {message && <p className={`mt-3 text-xs ${message.kind === "error" ? "text-red-300" : "text-emerald-200"}`}>{message.text}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ColorPicker({ value, onChange }: { value: ProfileColor; onChange: (c: ProfileColor) => void }) {
+  return (
+    <div className="flex gap-1" role="radiogroup" aria-label={t("profile.color")}>
+      {PROFILE_COLORS.map((c) => (
+        <button
+          key={c}
+          role="radio"
+          aria-checked={c === value}
+          aria-label={t(`profile.color.${c}`)}
+          onClick={() => onChange(c)}
+          className={`h-6 w-6 rounded-full ${AVATAR_CLASS[c]} ${c === value ? "ring-2 ring-offset-2 ring-offset-emerald-950 ring-emerald-100" : "opacity-70 hover:opacity-100"}`}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,344 @@
+import { useRef, useState, type ReactNode, type DragEvent } from "react";
+import { ArrowLeft, ChevronDown, ChevronUp, Copy, Plus, Trash2, Check, Download, Upload } from "lucide-react";
+import { type Exercise, type ExerciseMode, EXERCISE_MODES, EXERCISES, exerciseByKey, customExercises } from "./exercises";
+import {
+  type Routine, type RoutinePhase, type RoutineItem, type Transitions, type Interval, type IntervalFormat, NO_TRANSITIONS, INTERVAL_FORMATS, INTERVAL_PRESETS,
+  buildProgram, itemSeconds, programSeconds, newRoutine, duplicateRoutine, move, phaseLabel, intervalLabel,
+} from "./routines";
+import { exportFile, parseImport } from "./schema";
+import type { TrainingPlan } from "./trainingPlans";
+import { downloadFile, slugify } from "./files";
+import { t, tp } from "./i18n";
+
+// ===== Editor de rutinas =====
+export default function RoutineEditor({ routines, activeId, planIds, onChange, onSelect, onImport, onClose }: {
+  routines: Routine[];
+  activeId: string;
+  planIds: string[];
+  onChange: (routines: Routine[]) => void;
+  onSelect: (id: string) => void;
+  onImport: (exercises: Exercise[], routines: Routine[], plans: TrainingPlan[]) => void;
+  onClose: () => void;
+}) {
+  const [editingId, setEditingId] = useState(activeId);
+  const [messages, setMessages] = useState<{ kind: "error" | "ok"; lines: string[] } | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const editing = routines.find((r) => r.id === editingId) ?? routines[0];
+
+  function update(r: Routine) { onChange(routines.map((x) => (x.id === r.id ? r : x))); }
+  function updatePhase(pi: number, p: RoutinePhase) {
+    update({ ...editing, phases: editing.phases.map((x, i) => (i === pi ? p : x)) });
+  }
+  function add(r: Routine) { onChange([...routines, r]); setEditingId(r.id); }
+  function remove(id: string) {
+    if (routines.length <= 1) return;
+    const next = routines.filter((r) => r.id !== id);
+    onChange(next);
+    if (id === activeId) onSelect(next[0].id);
+    if (id === editingId) setEditingId(next[0].id);
+  }
+
+  // ===== Importar / exportar =====
+  function exportJSON(list: Routine[], filename: string, withCatalogue = false) {
+    const data = exportFile(list, withCatalogue ? customExercises() : []);
+    downloadFile(`${filename}.json`, JSON.stringify(data, null, 2), "application/json");
+  }
+  async function importFile(file: File) {
+    const res = parseImport(await file.text(), routines.map((r) => r.id), planIds);
+    if (!res.ok) return setMessages({ kind: "error", lines: [t("editor.importFailed", { file: file.name }), ...res.errors] });
+    onImport(res.exercises, res.routines, res.plans);
+    if (res.routines[0]) setEditingId(res.routines[0].id);
+    setMessages({
+      kind: "ok",
+      lines: [
+        t("editor.imported", { file: file.name, routines: res.routines.length, exercises: res.exercises.length }),
+        ...(res.plans.length ? [t("editor.importedPlans", { plans: tp("plans.count", res.plans.length) })] : []),
+        ...res.warnings,
+      ],
+    });
+  }
+  function onDrop(e: DragEvent) {
+    e.preventDefault();
+    setDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) importFile(file);
+  }
+
+  return (
+    <div
+      onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={onDrop}
+      className={`rounded-3xl bg-emerald-950/30 p-6 sm:p-10 backdrop-blur shadow-xl border ${dragging ? "border-emerald-300 border-dashed" : "border-emerald-700/30"}`}
+    >
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-2xl sm:text-3xl font-bold">{t("nav.routines")}</h2>
+        <button onClick={onClose} className="inline-flex items-center gap-2 px-4 py-3 rounded-2xl bg-emerald-700/30 hover:bg-emerald-700/50 transition">
+          <ArrowLeft className="h-5 w-5"/> {t("common.back")}
+        </button>
+      </div>
+
+      <div className="grid md:grid-cols-[0.8fr_1.2fr] gap-6 mt-6">
+        {/* Lista de rutinas */}
+        <div>
+          <div className="space-y-2">
+            {routines.map((r, i) => (
+              <div key={r.id} className={`flex items-center gap-2 rounded-xl px-3 py-2 ${r.id === editing.id ? "bg-emerald-700/50" : "bg-emerald-900/40"}`}>
+                <button onClick={() => setEditingId(r.id)} className="flex-1 text-left">
+                  <div className="text-sm font-medium">{r.name}</div>
+                  <div className="text-xs text-emerald-300">{formatMin(programSeconds(buildProgram(r)))}{r.id === activeId ? ` • ${t("editor.inUse")}` : ""}</div>
+                </button>
+                <IconButton title={t("editor.use")} onClick={() => onSelect(r.id)} disabled={r.id === activeId}><Check className="h-4 w-4"/></IconButton>
+                <IconButton title={t("common.up")} onClick={() => onChange(move(routines, i, -1))} disabled={i === 0}><ChevronUp className="h-4 w-4"/></IconButton>
+                <IconButton title={t("common.down")} onClick={() => onChange(move(routines, i, 1))} disabled={i === routines.length - 1}><ChevronDown className="h-4 w-4"/></IconButton>
+                <IconButton title={t("editor.duplicate")} onClick={() => add(duplicateRoutine(r))}><Copy className="h-4 w-4"/></IconButton>
+                <IconButton title={t("editor.delete")} onClick={() => remove(r.id)} disabled={routines.length <= 1}><Trash2 className="h-4 w-4"/></IconButton>
+              </div>
+            ))}
+          </div>
+          <button onClick={() => add(newRoutine(t("routine.new")))} className="mt-3 inline-flex items-center gap-2 px-4 py-2 rounded-2xl bg-emerald-700/30 hover:bg-emerald-700/50 transition text-sm">
+            <Plus className="h-4 w-4"/> {t("routine.new")}
+          </button>
+
+          {/* Importar / exportar (JSON versionado, ver docs/formato-json.md) */}
+          <div className="mt-6 rounded-2xl p-4 bg-emerald-900/40 border border-emerald-700/30">
+            <div className="text-emerald-100 font-semibold text-sm">{t("editor.share")}</div>
+            <p className="text-xs text-emerald-300 mt-1">{t("editor.shareHint")}</p>
+            <div className="flex flex-wrap gap-2 mt-3">
+              <button onClick={() => exportJSON([editing], slugify(editing.name))} className="inline-flex items-center gap-1 px-3 py-2 rounded-xl bg-emerald-700/40 hover:bg-emerald-700/60 transition text-sm">
+                <Download className="h-4 w-4"/> {t("editor.exportOne")}
+              </button>
+              <button onClick={() => exportJSON(routines, t("editor.exportAllFile"), true)} className="inline-flex items-center gap-1 px-3 py-2 rounded-xl bg-emerald-700/40 hover:bg-emerald-700/60 transition text-sm">
+                <Download className="h-4 w-4"/> {t("editor.exportAll")}
+              </button>
+              <button onClick={() => fileRef.current?.click()} className="inline-flex items-center gap-1 px-3 py-2 rounded-xl bg-emerald-700/40 hover:bg-emerald-700/60 transition text-sm">
+                <Upload className="h-4 w-4"/> {t("editor.import")}
+              </button>
+              <input
+                ref={fileRef} type="file" accept="application/json,.json" className="hidden"
+                onChange={(e) => { const f = e.target.files?.[0]; if (f) importFile(f); e.target.value = ""; }}
+              />
+            </div>
+            {messages && (
+              <ul className={`mt-3 text-xs space-y-1 ${messages.kind === "error" ? "text-red-300" : "text-emerald-200"}`}>
+                {messages.lines.map((l, i) => <li key={i}>{l}</li>)}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        {/* Detalle de la rutina seleccionada */}
+        <div>
+          <label className="block text-xs text-emerald-300 mb-1">{t("editor.name")}</label>
+          <input
+            value={editing.name}
+            onChange={(e) => update({ ...editing, name: e.target.value })}
+            className="w-full rounded-xl bg-emerald-900/40 border border-emerald-700/30 px-3 py-2 text-sm"
+          />
+          <TransitionsEditor
+            value={editing.transitions ?? NO_TRANSITIONS}
+            onChange={(transitions) => update({ ...editing, transitions })}
+          />
+          {buildProgram(editing).length === 0 && (
+            <p className="text-xs text-amber-300 mt-2">{t("editor.empty")}</p>
+          )}
+
+          <div className="space-y-4 mt-4">
+            {editing.phases.map((p, pi) => (
+              <PhaseEditor key={p.phase} phase={p} onChange={(np) => updatePhase(pi, np)} />
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function PhaseEditor({ phase, onChange }: { phase: RoutinePhase; onChange: (p: RoutinePhase) => void }) {
+  const [toAdd, setToAdd] = useState(EXERCISES[0].key);
+  const patchItem = (i: number, patch: Partial<RoutineItem>) =>
+    onChange({ ...phase, items: phase.items.map((it, j) => (j === i ? { ...it, ...patch } : it)) });
+  const iv = phase.interval;
+
+  return (
+    <div className="rounded-2xl p-4 bg-emerald-900/40 border border-emerald-700/30">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="text-sm font-medium uppercase tracking-wide text-emerald-200">{phaseLabel(phase.phase)}</div>
+        <div className="flex flex-wrap items-center gap-2 text-xs text-emerald-300">
+          <select
+            value={iv?.format ?? ""}
+            onChange={(e) => onChange({ ...phase, interval: e.target.value ? { ...INTERVAL_PRESETS[e.target.value as IntervalFormat] } : undefined })}
+            title={t("editor.format")}
+            className="rounded-lg bg-emerald-950/50 border border-emerald-700/30 px-1.5 py-1 text-sm text-emerald-50"
+          >
+            <option value="">{t("editor.format.rounds")}</option>
+            {INTERVAL_FORMATS.map((f) => <option key={f} value={f}>{intervalLabel(f)}</option>)}
+          </select>
+          {iv ? (
+            <IntervalFields value={iv} onChange={(interval) => onChange({ ...phase, interval })} />
+          ) : (
+            <label className="flex items-center gap-2">
+              {t("editor.rounds")}
+              <input
+                type="number" min={1} max={10}
+                value={phase.rounds}
+                onChange={(e) => onChange({ ...phase, rounds: clampInt(e.target.value, 1, 10) })}
+                className="w-16 rounded-lg bg-emerald-950/50 border border-emerald-700/30 px-2 py-1 text-sm text-emerald-50"
+              />
+            </label>
+          )}
+        </div>
+      </div>
+      {iv && <p className="text-xs text-emerald-300 mt-2">{t(`editor.interval.${iv.format}`)}</p>}
+
+      <div className="space-y-2 mt-3">
+        {phase.items.map((it, i) => (
+          <div key={it.key + i} className="flex flex-wrap items-center gap-2 rounded-xl bg-emerald-950/40 px-3 py-2">
+            <div className="flex-1 min-w-40 text-sm">
+              {exerciseByKey(it.key)?.title ?? it.key}
+              {!iv && (it.mode ?? "time") !== "time" && <span className="text-xs text-emerald-300"> • ~{itemSeconds(it)}s</span>}
+            </div>
+            {!iv ? (
+              <ItemTarget item={it} onChange={(patch) => patchItem(i, patch)} />
+            ) : iv.format === "emom" || iv.format === "amrap" ? (
+              <label className="flex items-center gap-1.5 text-xs text-emerald-300">
+                <input type="number" min={1} max={100} value={it.reps ?? exerciseByKey(it.key)?.reps ?? 10} onChange={(ev) => patchItem(i, { reps: clampInt(ev.target.value, 1, 100) })} className={numberInput} title={t("editor.reps")} />
+                reps
+              </label>
+            ) : null}
+            <IconButton title={t("common.up")} onClick={() => onChange({ ...phase, items: move(phase.items, i, -1) })} disabled={i === 0}><ChevronUp className="h-4 w-4"/></IconButton>
+            <IconButton title={t("common.down")} onClick={() => onChange({ ...phase, items: move(phase.items, i, 1) })} disabled={i === phase.items.length - 1}><ChevronDown className="h-4 w-4"/></IconButton>
+            <IconButton title={t("editor.remove")} onClick={() => onChange({ ...phase, items: phase.items.filter((_, j) => j !== i) })}><Trash2 className="h-4 w-4"/></IconButton>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2 mt-3">
+        <select value={toAdd} onChange={(e) => setToAdd(e.target.value)} className="flex-1 rounded-xl bg-emerald-950/50 border border-emerald-700/30 px-2 py-2 text-sm">
+          {EXERCISES.map((e) => <option key={e.key} value={e.key}>{e.title}</option>)}
+        </select>
+        <button
+          onClick={() => onChange({ ...phase, items: [...phase.items, { key: toAdd, duration: exerciseByKey(toAdd)?.duration ?? 60 }] })}
+          className="inline-flex items-center gap-1 px-3 py-2 rounded-xl bg-emerald-700/40 hover:bg-emerald-700/60 transition text-sm"
+        >
+          <Plus className="h-4 w-4"/> {t("editor.add")}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const TRANSITION_FIELDS: (keyof Transitions)[] = ["prep", "roundRest", "phaseRest"];
+
+function TransitionsEditor({ value, onChange }: { value: Transitions; onChange: (t: Transitions) => void }) {
+  return (
+    <div className="grid sm:grid-cols-3 gap-2 mt-3">
+      {TRANSITION_FIELDS.map((field) => (
+        <label key={field} className="text-xs text-emerald-300">
+          {t(`editor.transition.${field}`)}
+          <div className="flex items-center gap-1 mt-1">
+            <input
+              type="number" min={0} max={300} step={5}
+              value={value[field]}
+              onChange={(e) => onChange({ ...value, [field]: clampInt(e.target.value, 0, 300) })}
+              className="w-20 rounded-lg bg-emerald-950/50 border border-emerald-700/30 px-2 py-1 text-sm text-emerald-50"
+            />
+            s
+          </div>
+        </label>
+      ))}
+    </div>
+  );
+}
+
+// Reloj de una fase por intervalos; AMRAP se edita en minutos y EMOM en minutos (rondas) de `work` s
+export function IntervalFields({ value, onChange }: { value: Interval; onChange: (iv: Interval) => void }) {
+  const field = (label: string, v: number, min: number, max: number, set: (n: number) => Partial<Interval>, unit: string, step = 1) => (
+    <label className="flex items-center gap-1">
+      {label}
+      <input type="number" min={min} max={max} step={step} value={v} onChange={(e) => onChange({ ...value, ...set(clampInt(e.target.value, min, max)) })} className={numberInput} />
+      {unit}
+    </label>
+  );
+  if (value.format === "amrap") return field(t("editor.interval.duration"), Math.round(value.work / 60), 1, 60, (n) => ({ work: n * 60 }), "min");
+  if (value.format === "emom") {
+    return (
+      <>
+        {field(t("editor.interval.every"), value.work, 15, 300, (n) => ({ work: n }), "s", 5)}
+        {field("×", value.rounds, 1, 60, (n) => ({ rounds: n }), "")}
+      </>
+    );
+  }
+  return (
+    <>
+      {field(t("editor.interval.work"), value.work, 5, 300, (n) => ({ work: n }), "s", 5)}
+      {field(t("editor.interval.rest"), value.rest, 0, 300, (n) => ({ rest: n }), "s", 5)}
+      {field("×", value.rounds, 1, 50, (n) => ({ rounds: n }), "")}
+    </>
+  );
+}
+
+const numberInput = "w-16 rounded-lg bg-emerald-950/50 border border-emerald-700/30 px-2 py-1 text-sm";
+
+// Modo del ejercicio y sus parámetros: segundos, repeticiones (+ tempo) o series × reps + descanso
+function ItemTarget({ item, onChange }: { item: RoutineItem; onChange: (patch: Partial<RoutineItem>) => void }) {
+  const e = exerciseByKey(item.key);
+  const mode = item.mode ?? "time";
+  function setMode(next: ExerciseMode) {
+    if (next === "time") return onChange({ mode: undefined });
+    onChange({
+      mode: next,
+      reps: item.reps ?? e?.reps ?? 10,
+      tempo: item.tempo ?? e?.tempo,
+      ...(next === "sets" && { sets: item.sets ?? e?.sets ?? 3, rest: item.rest ?? e?.rest ?? 30 }),
+    });
+  }
+  return (
+    <div className="flex items-center gap-1.5 text-xs text-emerald-300">
+      <select value={mode} onChange={(ev) => setMode(ev.target.value as ExerciseMode)} className="rounded-lg bg-emerald-950/50 border border-emerald-700/30 px-1.5 py-1 text-sm text-emerald-50">
+        {EXERCISE_MODES.map((m) => <option key={m} value={m}>{t(`editor.mode.${m}`)}</option>)}
+      </select>
+      {mode === "time" && (
+        <>
+          <input type="number" min={5} max={600} step={5} value={item.duration} onChange={(ev) => onChange({ duration: clampInt(ev.target.value, 5, 600) })} className={`${numberInput} w-20`} />
+          s
+        </>
+      )}
+      {mode === "sets" && (
+        <>
+          <input type="number" min={1} max={10} value={item.sets ?? 3} onChange={(ev) => onChange({ sets: clampInt(ev.target.value, 1, 10) })} className={numberInput} title={t("editor.sets")} />
+          ×
+        </>
+      )}
+      {mode !== "time" && (
+        <>
+          <input type="number" min={1} max={100} value={item.reps ?? 10} onChange={(ev) => onChange({ reps: clampInt(ev.target.value, 1, 100) })} className={numberInput} title={t("editor.reps")} />
+          reps
+          <input value={item.tempo ?? ""} placeholder="tempo" onChange={(ev) => onChange({ tempo: ev.target.value || undefined })} className={`${numberInput} w-20`} title={t("editor.tempo")} />
+        </>
+      )}
+      {mode === "sets" && (
+        <>
+          <input type="number" min={0} max={300} step={5} value={item.rest ?? 30} onChange={(ev) => onChange({ rest: clampInt(ev.target.value, 0, 300) })} className={numberInput} title={t("editor.restBetweenSets")} />
+          {t("editor.restUnit")}
+        </>
+      )}
+    </div>
+  );
+}
+
+function IconButton({ title, onClick, disabled, children }: { title: string; onClick: () => void; disabled?: boolean; children: ReactNode }) {
+  return (
+    <button title={title} onClick={onClick} disabled={disabled} className="p-1.5 rounded-lg bg-emerald-700/30 hover:bg-emerald-700/60 transition disabled:opacity-30 disabled:pointer-events-none">
+      {children}
+    </button>
+  );
+}
+
+function clampInt(v: string, min: number, max: number) {
+  const n = Math.round(Number(v));
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : min;
+}
+
+const formatMin = (s: number) => `${Math.round(s / 60)} min`;
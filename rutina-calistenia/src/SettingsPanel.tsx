@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { ArrowLeft } from "lucide-react";
+import { type Settings, type Theme, THEMES, DURATION_SCALES } from "./settings";
+import { loadResumeWindowMin, saveResumeWindowMin } from "./resume";
+import {
+  type ReminderSettings, REMINDER_INTERVALS, SNOOZE_OPTIONS, WEEK_DAYS, REMINDER_ACTIONS,
+  loadReminderLog, reminderStats, notificationsSupported, requestNotificationPermission,
+} from "./reminders";
+import { t, tp } from "./i18n";
+
+const TOGGLES: ("autoFullscreen" | "keepAwake" | "autoAdvance")[] = ["autoFullscreen", "keepAwake", "autoAdvance"];
+
+// ===== Ajustes generales =====
+// `baseSeconds`: duración de la rutina activa a 1×, para mostrar cuánto dura con cada multiplicador
+export default function SettingsPanel({ value, onChange, reminders, onRemindersChange, baseSeconds, onClose }: {
+  value: Settings;
+  onChange: (s: Settings) => void;
+  reminders: ReminderSettings;
+  onRemindersChange: (s: ReminderSettings) => void;
+  baseSeconds: number;
+  onClose: () => void;
+}) {
+  const [resumeWindow, setResumeWindow] = useState(loadResumeWindowMin);
+  const set = <K extends keyof Settings>(key: K, v: Settings[K]) => onChange({ ...value, [key]: v });
+  const select = "mt-1 w-full rounded-xl bg-emerald-950/50 border border-emerald-700/30 px-2 py-2";
+
+  return (
+    <div className="rounded-3xl bg-emerald-950/30 p-6 sm:p-10 backdrop-blur shadow-xl border border-emerald-700/30">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-2xl sm:text-3xl font-bold">{t("nav.settings")}</h2>
+        <button onClick={onClose} className="inline-flex items-center gap-2 px-4 py-3 rounded-2xl bg-emerald-700/30 hover:bg-emerald-700/50 transition">
+          <ArrowLeft className="h-5 w-5"/> {t("common.back")}
+        </button>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6 mt-6 text-sm">
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold">{t("settings.session")}</h3>
+          <label className="block">
+            <span className="text-xs text-emerald-300">{t("settings.scale")}</span>
+            <select value={value.durationScale} onChange={(e) => set("durationScale", Number(e.target.value))} className={select}>
+              {DURATION_SCALES.map((n) => (
+                <option key={n} value={n}>{t("settings.scaleOption", { n, min: Math.round((baseSeconds * n) / 60) })}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-xs text-emerald-300">{t("settings.defaultRounds")}</span>
+            <input
+              type="number" min={1} max={10} value={value.defaultRounds}
+              onChange={(e) => set("defaultRounds", Math.min(10, Math.max(1, Math.round(Number(e.target.value)) || 1)))}
+              className={select}
+            />
+          </label>
+          <label className="block">
+            <span className="text-xs text-emerald-300">{t("settings.resumeWindow")}</span>
+            <input
+              type="number" min={5} step={5} value={resumeWindow}
+              onChange={(e) => {
+                const min = Math.max(5, Math.round(Number(e.target.value)) || 5);
+                setResumeWindow(min);
+                saveResumeWindowMin(min);
+              }}
+              className={select}
+            />
+          </label>
+        </div>
+
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold">{t("settings.behaviour")}</h3>
+          {TOGGLES.map((key) => (
+            <label key={key} className="flex items-start gap-3">
+              <input type="checkbox" checked={value[key]} onChange={(e) => set(key, e.target.checked)} className="mt-0.5 h-4 w-4 accent-emerald-400" />
+              <span>
+                <span className="font-medium">{t(`settings.${key}`)}</span>
+                {key === "autoAdvance" && <span className="block text-xs text-emerald-300 mt-0.5">{t("settings.autoAdvanceHint")}</span>}
+              </span>
+            </label>
+          ))}
+          <label className="block">
+            <span className="text-xs text-emerald-300">{t("settings.theme")}</span>
+            <select value={value.theme} onChange={(e) => set("theme", e.target.value as Theme)} className={select}>
+              {THEMES.map((theme) => <option key={theme} value={theme}>{t(`settings.theme.${theme}`)}</option>)}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      <RemindersSection value={reminders} onChange={onRemindersChange} select={select} />
+    </div>
+  );
+}
+
+const WEEK_MS = 7 * 24 * 3600_000;
+
+// Pausas activas durante la jornada: horario, frecuencia y resumen de la última semana
+function RemindersSection({ value, onChange, select }: { value: ReminderSettings; onChange: (s: ReminderSettings) => void; select: string }) {
+  const [permission, setPermission] = useState(() => (notificationsSupported() ? Notification.permission : "unsupported"));
+  const [stats] = useState(() => reminderStats(loadReminderLog(), Date.now() - WEEK_MS));
+  const set = <K extends keyof ReminderSettings>(key: K, v: ReminderSettings[K]) => onChange({ ...value, [key]: v });
+  const weekdays = t("history.weekdays").split(",");
+  const toggleDay = (d: number) => set("days", value.days.includes(d) ? value.days.filter((x) => x !== d) : [...value.days, d]);
+  async function enable(on: boolean) {
+    set("enabled", on);
+    if (on) {
+      await requestNotificationPermission();
+      if (notificationsSupported()) setPermission(Notification.permission);
+    }
+  }
+
+  return (
+    <div className="mt-8 pt-6 border-t border-emerald-700/30 text-sm">
+      <h3 className="text-lg font-semibold">{t("reminder.settings")}</h3>
+      <p className="text-xs text-emerald-300 mt-1">{t("reminder.settingsHint")}</p>
+      <label className="flex items-start gap-3 mt-4">
+        <input type="checkbox" checked={value.enabled} onChange={(e) => enable(e.target.checked)} className="mt-0.5 h-4 w-4 accent-emerald-400" />
+        <span className="font-medium">{t("reminder.enabled")}</span>
+      </label>
+      {value.enabled && permission !== "granted" && (
+        <p className="mt-2 text-xs text-amber-200">{t(permission === "denied" ? "reminder.denied" : permission === "unsupported" ? "reminder.unsupported" : "reminder.noPermission")}</p>
+      )}
+
+      <div className="grid sm:grid-cols-4 gap-4 mt-4">
+        <label className="block">
+          <span className="text-xs text-emerald-300">{t("reminder.interval")}</span>
+          <select value={value.intervalMin} onChange={(e) => set("intervalMin", Number(e.target.value))} className={select}>
+            {REMINDER_INTERVALS.map((n) => <option key={n} value={n}>{t("reminder.everyMin", { n })}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-xs text-emerald-300">{t("reminder.from")}</span>
+          <input type="time" value={value.start} onChange={(e) => e.target.value && set("start", e.target.value)} className={select} />
+        </label>
+        <label className="block">
+          <span className="text-xs text-emerald-300">{t("reminder.to")}</span>
+          <input type="time" value={value.end} onChange={(e) => e.target.value && set("end", e.target.value)} className={select} />
+        </label>
+        <label className="block">
+          <span className="text-xs text-emerald-300">{t("reminder.snooze")}</span>
+          <select value={value.snoozeMin} onChange={(e) => set("snoozeMin", Number(e.target.value))} className={select}>
+            {SNOOZE_OPTIONS.map((n) => <option key={n} value={n}>{t("reminder.minutes", { n })}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mt-4">
+        {WEEK_DAYS.map((d, i) => {
+          const on = value.days.includes(d);
+          return (
+            <button
+              key={d}
+              onClick={() => toggleDay(d)}
+              aria-pressed={on}
+              className={`w-10 py-1 rounded-xl transition ${on ? "bg-emerald-400 text-emerald-950 font-semibold" : "bg-emerald-700/30 hover:bg-emerald-700/50"}`}
+            >
+              {weekdays[i]}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="text-xs text-emerald-300 mt-4">
+        {t("reminder.lastWeek")} {REMINDER_ACTIONS.map((a) => tp(`reminder.stat.${a}`, stats[a])).join(" • ")}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Check, Copy, Download, ImageDown, Share2 } from "lucide-react";
+import { type Step, phaseLabel } from "./routines";
+import { type SessionLog, dayKey } from "./history";
+import { summarize, formatClock, streakLine, weekLine, drawSummaryCard, cardBlob } from "./summary";
+import { Stat } from "./HistoryScreen";
+import { downloadFile, slugify } from "./files";
+import { t, tp } from "./i18n";
+
+// ===== Pantalla de fin de sesión =====
+// `history` ya incluye la sesión (y su check-in si se rellenó): de ahí salen la racha y el RPE.
+export default function SummaryScreen({ session, program, history, onClose }: {
+  session: SessionLog;
+  program: Step[];
+  history: SessionLog[];
+  onClose: () => void;
+}) {
+  const sum = useMemo(() => summarize(history.find((s) => s.id === session.id) ?? session, program, history), [session, program, history]);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [card, setCard] = useState<{ blob: Blob; url: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [cardFailed, setCardFailed] = useState(false);
+  useEffect(() => () => { if (card) URL.revokeObjectURL(card.url); }, [card]);
+
+  const filename = `${slugify(sum.session.routineName)}-${dayKey(sum.session.startedAt)}.png`;
+  const file = card && new File([card.blob], filename, { type: "image/png" });
+  const canShare = !!file && !!navigator.canShare?.({ files: [file] });
+  const canCopy = typeof ClipboardItem !== "undefined" && !!navigator.clipboard?.write;
+
+  async function createCard() {
+    const canvas = canvasRef.current ?? document.createElement("canvas");
+    try {
+      drawSummaryCard(canvas, sum);
+      const blob = await cardBlob(canvas);
+      setCard({ blob, url: URL.createObjectURL(blob) });
+      setCardFailed(false);
+    } catch {
+      setCardFailed(true); // sin canvas 2D o sin memoria para la imagen
+    }
+  }
+  async function share() {
+    try { await navigator.share({ files: [file!], title: t("finish.brand") }); } catch { /* cancelado */ }
+  }
+  async function copy() {
+    try {
+      await navigator.clipboard.write([new ClipboardItem({ "image/png": card!.blob })]);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {}
+  }
+
+  const diff = sum.activeSeconds - sum.plannedSeconds;
+  const button = "inline-flex items-center gap-2 px-4 py-2 rounded-2xl bg-emerald-700/40 hover:bg-emerald-700/60 transition";
+
+  return (
+    <div className="rounded-3xl bg-emerald-950/30 p-6 sm:p-10 backdrop-blur shadow-xl border border-emerald-700/30">
+      <h2 className="text-2xl sm:text-3xl font-bold">{sum.session.reachedEnd ? t("finish.title") : t("finish.titlePartial")}</h2>
+      <p className="text-emerald-100 font-medium mt-1">{sum.session.routineName}</p>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm mt-6">
+        <Stat
+          title={t("finish.active")}
+          value={formatClock(sum.activeSeconds)}
+          hint={`${t("finish.activeOf", { planned: formatClock(sum.plannedSeconds) })} (${diff >= 0 ? "+" : "−"}${formatClock(Math.abs(diff))})`}
+        />
+        <Stat title={t("finish.paused")} value={formatClock(sum.pausedSeconds)} hint={sum.pauses ? tp("finish.pauses", sum.pauses) : t("finish.noPauses")} />
+        <Stat title={t("history.streak")} value={tp("history.days", sum.streak)} hint={streakLine(sum)} />
+        <Stat title={t("history.week")} value={String(sum.week)} hint={weekLine(sum)} />
+      </div>
+
+      <div className="rounded-2xl p-4 bg-emerald-900/40 border border-emerald-700/30 mt-6 space-y-3 text-sm">
+        {sum.phases.map((p) => {
+          const total = p.done + p.skipped + p.missed;
+          return (
+            <div key={p.phase}>
+              <div className="flex justify-between gap-3">
+                <span className="font-semibold">{phaseLabel(p.phase)}</span>
+                <span className="text-emerald-200 tabular-nums">
+                  {t("finish.done", { done: p.done, total })}
+                  {p.skipped ? ` • ${t("history.skipped", { n: p.skipped })}` : ""}
+                  {p.missed ? ` • ${t("finish.missed", { n: p.missed })}` : ""}
+                </span>
+              </div>
+              <div className="h-2 mt-1.5 rounded-full bg-emerald-950/60 overflow-hidden">
+                <div className="h-full bg-emerald-400" style={{ width: `${(p.done / total) * 100}%` }} />
+              </div>
+            </div>
+          );
+        })}
+        {sum.rpe != null && <div className="text-emerald-300">{t("history.rpe", { n: sum.rpe.toFixed(1) })}</div>}
+      </div>
+
+      <div className="mt-6 flex flex-wrap items-start gap-4">
+        {card ? (
+          <>
+            <img src={card.url} alt={t("finish.cardAlt")} className="w-40 rounded-xl border border-emerald-700/40 shadow-lg" />
+            <div className="flex flex-col gap-2">
+              <button onClick={() => downloadFile(filename, card.blob, "image/png")} className={button}><Download className="h-4 w-4"/> {t("finish.download")}</button>
+              {canShare && <button onClick={share} className={button}><Share2 className="h-4 w-4"/> {t("finish.share")}</button>}
+              {canCopy && <button onClick={copy} className={button}>{copied ? <Check className="h-4 w-4"/> : <Copy className="h-4 w-4"/>} {copied ? t("finish.copied") : t("finish.copy")}</button>}
+            </div>
+          </>
+        ) : (
+          <div>
+            <button onClick={createCard} className={button}><ImageDown className="h-4 w-4"/> {t("finish.createCard")}</button>
+            {cardFailed && <p className="text-xs text-amber-300 mt-2">{t("finish.cardFailed")}</p>}
+          </div>
+        )}
+        <canvas ref={canvasRef} className="hidden" />
+      </div>
+
+      <button onClick={onClose} className="mt-8 inline-flex items-center gap-2 px-6 py-3 rounded-2xl bg-emerald-400 text-emerald-950 font-semibold hover:bg-emerald-300 transition">
+        <Check className="h-5 w-5"/> {t("finish.close")}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { repSeconds } from "./exercises";
+
+// ===== Animaciones de monigote por fotogramas clave =====
+// Cada animación es solo datos: una lista de poses (posición de cada articulación en un lienzo de
+// 200×120, suelo en y = 104) que el componente ExerciseAnimation interpola en bucle.
+// Lado "A" = extremidades cercanas (trazo claro), "B" = lejanas; si falta una articulación B se
+// copia de la A. `fingers*` (mano/dedos) y `shoulder*` (vista de frente) son opcionales, pero
+// deben estar en todas las poses o en ninguna.
+export type Point = [number, number];
+export const REQUIRED_JOINTS = ["head", "neck", "chest", "hip", "elbowA", "handA", "kneeA", "footA"] as const;
+export const OPTIONAL_JOINTS = ["elbowB", "handB", "kneeB", "footB", "fingersA", "fingersB", "shoulderA", "shoulderB"] as const;
+type Joint = (typeof REQUIRED_JOINTS)[number] | (typeof OPTIONAL_JOINTS)[number];
+export type Pose = Record<(typeof REQUIRED_JOINTS)[number], Point> & Partial<Record<(typeof OPTIONAL_JOINTS)[number], Point>>;
+
+export type Scene = "floor" | "wall" | "door";
+export const SCENES: Scene[] = ["floor", "wall", "door"];
+
+export interface StickAnimation {
+  frames: Pose[];   // la última pose enlaza con la primera: repite la inicial al final para volver suave
+  seconds: number;  // duración de un ciclo sin tempo
+  scene?: Scene;    // "floor" por defecto
+}
+
+// Duración y reparto del ciclo. Con un tempo "2-1-2" y una pose más que fases, cada tramo dura
+// lo que su fase (subir, mantener, bajar); con otro tempo, el ciclo dura una repetición.
+export function timing(a: StickAnimation, tempo?: string) {
+  const n = a.frames.length - 1;
+  const parts = tempo?.split(/[-–:]/).map(Number) ?? [];
+  const total = parts.reduce((x, y) => x + y, 0);
+  if (n > 0 && parts.length === n && parts.every((p) => Number.isFinite(p) && p >= 0) && total > 0) {
+    let acc = 0;
+    return { duration: total, times: [0, ...parts.map((p) => (acc += p) / total)] };
+  }
+  const duration = tempo ? repSeconds(tempo) : a.seconds;
+  return { duration, times: a.frames.map((_, i) => (n ? i / n : 0)) };
+}
+
+// ===== Poses base =====
+const pose = (base: Pose, over: Partial<Pose>): Pose => ({ ...base, ...over });
+
+// De pie, mirando a la derecha
+const STAND: Pose = {
+  head: [100, 16], neck: [100, 27], chest: [100, 43], hip: [100, 59],
+  elbowA: [102, 40], handA: [104, 53], elbowB: [98, 40], handB: [96, 53],
+  kneeA: [101, 81], footA: [100, 103], kneeB: [99, 81], footB: [99, 103],
+};
+
+// Cuadrupedia, mirando a la izquierda
+const QUAD: Pose = {
+  head: [61, 72], neck: [72, 77], chest: [88, 76], hip: [104, 78],
+  elbowA: [72, 90], handA: [72, 103], elbowB: [70, 90], handB: [70, 103],
+  kneeA: [106, 102], footA: [127, 103], kneeB: [103, 102], footB: [124, 103],
+};
+
+// Boca abajo / boca arriba, cabeza a la izquierda
+const PRONE: Pose = {
+  head: [40, 96], neck: [50, 98], chest: [66, 99], hip: [82, 100],
+  elbowA: [62, 101], handA: [75, 102], kneeA: [104, 101], footA: [126, 101],
+};
+const SUPINE: Pose = {
+  head: [32, 98], neck: [43, 99], chest: [59, 99], hip: [75, 99],
+  elbowA: [54, 102], handA: [67, 103], kneeA: [90, 83], footA: [98, 103], kneeB: [88, 83], footB: [96, 103],
+};
+
+// Plancha de antebrazos y flexión con rodillas, mirando a la izquierda
+const PLANK: Pose = {
+  head: [52, 87], neck: [62, 90], chest: [78, 91], hip: [94, 93],
+  elbowA: [62, 103], handA: [48, 103], kneeA: [115, 97], footA: [136, 102],
+};
+const KNEE_PUSHUP: Pose = {
+  head: [59, 74], neck: [70, 77], chest: [86, 80], hip: [102, 84],
+  elbowA: [70, 90], handA: [70, 103], kneeA: [116, 102], footA: [136, 95],
+};
+
+// De frente (para movimientos laterales)
+const FRONT: Pose = {
+  head: [100, 16], neck: [100, 27], chest: [100, 43], hip: [100, 59], shoulderA: [88, 29], shoulderB: [112, 29],
+  elbowA: [86, 42], handA: [84, 55], elbowB: [114, 42], handB: [116, 55],
+  kneeA: [95, 81], footA: [94, 103], kneeB: [105, 81], footB: [106, 103],
+};
+
+// Brazo estirado al frente con la otra mano sujetando los dedos
+const ARM_FORWARD = { elbowA: [113, 28], handA: [126, 29], elbowB: [108, 40] } satisfies Partial<Pose>;
+
+// ===== Animaciones por `key` =====
+const inhale = pose(STAND, { head: [100, 15], neck: [100, 26], chest: [102, 42], elbowA: [100, 39], elbowB: [96, 39] });
+
+const cat = pose(QUAD, { chest: [88, 68], head: [63, 80] });
+const cow = pose(QUAD, { chest: [88, 84], head: [59, 68] });
+
+const rollAt = (x: number, y: number) =>
+  pose(STAND, { shoulderA: [x, y], elbowA: [x + 2, y + 13], handA: [x + 4, y + 26] });
+
+// Un solo lado: el otro se ve con la animación en espejo (`sides: "steps"`)
+const birdDog = pose(QUAD, { elbowA: [59, 74], handA: [46, 72], kneeB: [126, 78], footB: [148, 77] });
+
+const bridgeUp = pose(SUPINE, { hip: [74, 87], chest: [58, 93], kneeA: [93, 80], kneeB: [91, 80] });
+const shortBridgeUp = pose(SUPINE, { hip: [75, 93], chest: [59, 96], kneeA: [92, 81], kneeB: [90, 81] });
+
+const pushupDown = pose(KNEE_PUSHUP, { head: [55, 85], neck: [66, 87], chest: [82, 89], hip: [100, 92], elbowA: [78, 93] });
+
+const tspineTucked = pose(QUAD, { elbowB: [84, 66], handB: [72, 67] });
+const tspineOpen = pose(QUAD, { head: [62, 69], elbowB: [76, 64], handB: [78, 51] });
+
+const circleAt = (fx: number, fy: number) => pose(STAND, {
+  elbowA: [104, 41], handA: [117, 41], fingersA: [117 + fx, 41 + fy],
+  elbowB: [102, 42], handB: [115, 42], fingersB: [115 + fx, 42 + fy],
+});
+
+const scapularUp = pose(PRONE, { head: [41, 90], neck: [51, 93], chest: [66, 97], elbowA: [58, 94], handA: [70, 99] });
+
+const plankExhale = pose(PLANK, { hip: [94, 94], chest: [78, 92] });
+const kneePlank = pose(PLANK, { hip: [94, 94], kneeA: [114, 103], footA: [134, 94] });
+
+const doorRest = pose(STAND, { elbowA: [88, 25], handA: [86, 13] });
+const doorLean = pose(doorRest, { head: [105, 16], neck: [104, 27], chest: [103, 43], elbowA: [91, 24] });
+
+const trapRest = pose(FRONT, { elbowA: [80, 17], handA: [92, 8] });
+const trapTilt = pose(FRONT, { head: [93, 19], elbowA: [79, 19], handA: [87, 12] });
+
+const childRest: Pose = {
+  head: [73, 99], neck: [83, 95], chest: [99, 92], hip: [115, 94],
+  elbowA: [70, 101], handA: [57, 102], kneeA: [95, 103], footA: [117, 103],
+};
+const childInhale = pose(childRest, { neck: [83, 93], chest: [99, 89] });
+
+const wristFlex = pose(STAND, { ...ARM_FORWARD, fingersA: [127, 38], handB: [124, 37] });
+const wristFlexPull = pose(wristFlex, { fingersA: [125, 40], handB: [122, 39] });
+const wristExt = pose(STAND, { ...ARM_FORWARD, fingersA: [127, 20], handB: [124, 22] });
+const wristExtPull = pose(wristExt, { fingersA: [125, 18], handB: [122, 20] });
+
+const wallUp: Pose = {
+  head: [62, 25], neck: [68, 33], chest: [78, 46], hip: [88, 60],
+  elbowA: [55, 33], handA: [42, 33], kneeA: [92, 81], footA: [96, 103],
+};
+const wallDown = pose(wallUp, { head: [50, 28], neck: [56, 36], chest: [67, 50], hip: [79, 63], elbowA: [50, 46], kneeA: [89, 82] });
+
+export const ANIMATIONS: Record<string, StickAnimation> = {
+  "breathing": { frames: [STAND, inhale, STAND], seconds: 6 },
+  "catcow": { frames: [cat, cow, cat], seconds: 4.4 },
+  "shoulder-rolls": { frames: [rollAt(100, 28), rollAt(101, 24), rollAt(97, 26), rollAt(99, 30), rollAt(100, 28)], seconds: 2.4 },
+  "tspine-rotation": { frames: [tspineTucked, tspineOpen, tspineTucked], seconds: 4 },
+  "wrist-circles": { frames: [circleAt(6, 0), circleAt(4, -5), circleAt(6, 0), circleAt(4, 5), circleAt(6, 0)], seconds: 2 },
+  "scapular-prone": { frames: [PRONE, scapularUp, scapularUp, PRONE], seconds: 3.2 },
+  "low-plank": { frames: [PLANK, plankExhale, PLANK], seconds: 3 },
+  "bird-dog": { frames: [QUAD, birdDog, birdDog, QUAD], seconds: 4 },
+  "glute-bridge": { frames: [SUPINE, bridgeUp, bridgeUp, SUPINE], seconds: 5 },
+  "wrist-pushups": { frames: [KNEE_PUSHUP, pushupDown, pushupDown, KNEE_PUSHUP], seconds: 3 },
+  "door-pec": { frames: [doorRest, doorLean, doorLean, doorRest], seconds: 4, scene: "door" },
+  "upper-trap": { frames: [trapRest, trapTilt, trapTilt, trapRest], seconds: 4 },
+  "child-pose": { frames: [childRest, childInhale, childRest], seconds: 4 },
+  "wrist-stretch-flex": { frames: [wristFlex, wristFlexPull, wristFlex], seconds: 3 },
+  "wrist-stretch-ext": { frames: [wristExt, wristExtPull, wristExt], seconds: 3 },
+  "knee-plank": { frames: [kneePlank, pose(kneePlank, { hip: [94, 95], chest: [78, 92] }), kneePlank], seconds: 3 },
+  "short-bridge": { frames: [SUPINE, shortBridgeUp, shortBridgeUp, SUPINE], seconds: 4 },
+  "wall-pushups": { frames: [wallUp, wallDown, wallDown, wallUp], seconds: 3, scene: "wall" },
+};
+
+// Claves de animación disponibles (la importación valida contra esta lista)
+export const ANIMATION_KEYS = Object.keys(ANIMATIONS);
+
+// De pie respirando: para claves sin animación (no debería pasar: la importación las valida)
+export const IDLE_ANIMATION = ANIMATIONS.breathing;
+
+// ===== Validación (animaciones incluidas en archivos importados) =====
+const isPoint = (v: unknown): v is Point =>
+  Array.isArray(v) && v.length === 2 && v.every((n) => typeof n === "number" && Number.isFinite(n));
+
+export function isStickAnimation(v: unknown): v is StickAnimation {
+  if (!v || typeof v !== "object") return false;
+  const { frames, seconds, scene } = v as Record<string, unknown>;
+  if (!Array.isArray(frames) || !frames.length || typeof seconds !== "number" || !(seconds > 0)) return false;
+  if (scene !== undefined && !SCENES.includes(scene as Scene)) return false;
+  const first = frames[0] as Record<Joint, unknown> | null;
+  return frames.every((f: Record<Joint, unknown> | null) =>
+    !!f && typeof f === "object" &&
+    REQUIRED_JOINTS.every((j) => isPoint(f[j])) &&
+    OPTIONAL_JOINTS.every((j) => (f[j] === undefined ? first?.[j] === undefined : isPoint(f[j]) && first?.[j] !== undefined)));
+}
@@ -0,0 +1,102 @@
+import type { SessionLog } from "./history";
+import type { Routine, RoutineItem } from "./routines";
+import { type BodyArea, REGRESSIONS, exerciseByKey } from "./exercises";
+import { loadJSON, saveJSON } from "./storage";
+import { t } from "./i18n";
+
+// ===== Check-ins de esfuerzo y molestias =====
+// Al terminar la sesión se puntúa cada ejercicio de fuerza hecho (RPE 1–10) y se marcan las
+// zonas que molestaron. Se guardan en la propia sesión del historial (`SessionLog.checkins`).
+export interface CheckIn { key: string; rpe: number; pain: BodyArea[] }
+
+export const areaList = (areas: BodyArea[]) => areas.map((a) => t(`area.${a}`).toLowerCase()).join(", ");
+
+export const DEFAULT_RPE = 6;
+const EASY_RPE = 4;
+const HARD_RPE = 8;
+const RECENT = 3; // check-ins por ejercicio que se tienen en cuenta
+const MAX_ROUNDS = 5;
+
+// Ejercicios de fuerza hechos (no saltados) en la sesión, sin repetir series ni rondas
+export const checkInKeys = (s: SessionLog) =>
+  [...new Set(s.steps.filter((st) => st.phase === "strength" && !st.skipped).map((st) => st.key))];
+
+// Últimos check-ins de cada ejercicio, del más reciente al más antiguo
+function recentByExercise(history: SessionLog[]) {
+  const m = new Map<string, CheckIn[]>();
+  for (const s of [...history].reverse()) for (const c of s.checkins ?? []) {
+    const list = m.get(c.key) ?? [];
+    if (list.length < RECENT) m.set(c.key, [...list, c]);
+  }
+  return m;
+}
+
+// Zonas con molestias en el último check-in de cada ejercicio (solo los que tienen alguna)
+export function painFlags(history: SessionLog[]) {
+  const flags = new Map<string, BodyArea[]>();
+  for (const [key, [last]] of recentByExercise(history)) if (last.pain.length) flags.set(key, last.pain);
+  return flags;
+}
+
+// ===== Sugerencias de progresión / regresión =====
+export type Suggestion =
+  | { kind: "longer" | "shorter"; key: string }
+  | { kind: "regress"; key: string; to: string }
+  | { kind: "extraRound" };
+
+export const suggestionId = (s: Suggestion) => (s.kind === "extraRound" ? s.kind : `${s.kind}:${s.key}`);
+
+export function suggest(routine: Routine, history: SessionLog[]): Suggestion[] {
+  const strength = routine.phases.find((p) => p.phase === "strength");
+  // Las fases por intervalos tienen el reloj fijo: no hay duraciones ni rondas que ajustar
+  if (!strength?.items.length || strength.interval) return [];
+  const recent = recentByExercise(history);
+  const out: Suggestion[] = [];
+  for (const { key } of strength.items) {
+    const list = recent.get(key);
+    if (!list?.length) continue;
+    const to = REGRESSIONS[key];
+    const avg = list.reduce((a, c) => a + c.rpe, 0) / list.length;
+    // Con molestias se propone la regresión (o acortar si no la hay); el RPE pide al menos 2 sesiones
+    if (list[0].pain.length || (list.length > 1 && avg >= HARD_RPE)) {
+      out.push(to && exerciseByKey(to) ? { kind: "regress", key, to } : { kind: "shorter", key });
+    } else if (list.length > 1 && avg <= EASY_RPE) {
+      out.push({ kind: "longer", key });
+    }
+  }
+  // Todo fácil y sin molestias en las dos últimas sesiones con check-in: una ronda más
+  const lastTwo = history.filter((s) => s.checkins?.length).slice(-2);
+  const easy = lastTwo.length === 2 && lastTwo.every((s) => s.checkins!.every((c) => c.rpe <= EASY_RPE && !c.pain.length));
+  if (easy && strength.rounds < MAX_ROUNDS) out.push({ kind: "extraRound" });
+  return out;
+}
+
+const STEP_SECONDS = 15;
+const STEP_REPS = 2;
+
+// Aplica una sugerencia a la fase de fuerza de la rutina
+export function applySuggestion(routine: Routine, s: Suggestion): Routine {
+  return {
+    ...routine,
+    phases: routine.phases.map((p) => {
+      if (p.phase !== "strength") return p;
+      if (s.kind === "extraRound") return { ...p, rounds: p.rounds + 1 };
+      return { ...p, items: p.items.map((it) => (it.key === s.key ? adjustItem(it, s) : it)) };
+    }),
+  };
+}
+
+function adjustItem(it: RoutineItem, s: Exclude<Suggestion, { kind: "extraRound" }>): RoutineItem {
+  if (s.kind === "regress") return { ...it, key: s.to };
+  const dir = s.kind === "longer" ? 1 : -1;
+  const e = exerciseByKey(it.key);
+  if ((it.mode ?? e?.mode ?? "time") === "time") return { ...it, duration: Math.max(STEP_SECONDS, it.duration + dir * STEP_SECONDS) };
+  return { ...it, reps: Math.max(1, (it.reps ?? e?.reps ?? 10) + dir * STEP_REPS) };
+}
+
+// Las sugerencias se muestran hasta aplicarlas o descartarlas; se recuerda la última sesión
+// con check-in ya revisada para no repetirlas hasta que haya check-ins nuevos.
+const REVIEWED_KEY = "checkins-reviewed";
+export const latestCheckInId = (history: SessionLog[]) => [...history].reverse().find((s) => s.checkins?.length)?.id ?? null;
+export const loadReviewedId = () => loadJSON<string | null>(REVIEWED_KEY, null);
+export const saveReviewedId = (id: string | null) => saveJSON(REVIEWED_KEY, id);
@@ -0,0 +1,305 @@
+import { loadJSON, saveJSON } from "./storage";
+import type { StickAnimation } from "./animations";
+import { type Locale, tOr, getLocale, onLocaleChange } from "./i18n";
+
+// ===== Tipado =====
+// `animation` permite que un ejercicio importado reutilice la animación de otro `key` o traiga la
+// suya propia como datos (ver animations.ts).
+// Modos: "time" (por defecto) dura `duration` s; "reps" espera a que el usuario pulse Hecho;
+// "sets" son `sets` series de `reps` con `rest` s de descanso entre ellas.
+// `reps`/`sets`/`rest`/`tempo` en el catálogo son los valores sugeridos al elegir ese modo.
+export type ExerciseMode = "time" | "reps" | "sets";
+export const EXERCISE_MODES: ExerciseMode[] = ["time", "reps", "sets"];
+
+// Metadatos del catálogo (pantalla Ejercicios): etiquetas, zonas que trabaja, material necesario,
+// `variants` (otros `key` relacionados, p. ej. su regresión) y `contraindications` (texto libre).
+export type ExerciseTag = "wrists" | "posture" | "core" | "mobility" | "stretch";
+export const EXERCISE_TAGS: ExerciseTag[] = ["wrists", "posture", "core", "mobility", "stretch"];
+export type BodyArea = "wrists" | "lowerBack" | "upperBack" | "shoulders" | "neck" | "chest" | "hips" | "knees";
+export const BODY_AREAS: BodyArea[] = ["wrists", "lowerBack", "upperBack", "shoulders", "neck", "chest", "hips", "knees"];
+export type Equipment = "none" | "mat" | "wall" | "door";
+export const EQUIPMENT: Equipment[] = ["none", "mat", "wall", "door"];
+
+// Ejercicios unilaterales (`sides`): "split" = un solo paso con aviso de cambio de lado a mitad;
+// "steps" = un paso por lado (el tiempo se reparte entre los dos, las repeticiones son por lado).
+// Los pasos abiertos de repeticiones no se pueden partir: con "split" también van en dos pasos.
+export type SidesMode = "split" | "steps";
+export const SIDES_MODES: SidesMode[] = ["split", "steps"];
+export type Side = "left" | "right";
+
+export interface Exercise {
+  key: string; title: string; cue: string; duration: number; image?: string; credit?: string; animation?: string | StickAnimation;
+  mode?: ExerciseMode; reps?: number; sets?: number; rest?: number; tempo?: string;
+  tags?: ExerciseTag[]; areas?: BodyArea[]; equipment?: Equipment[]; variants?: string[]; contraindications?: string;
+  sides?: SidesMode;
+}
+
+// Tempo "2-1-2" = 2 s subir, 1 s arriba, 2 s bajar -> 5 s por repetición
+const DEFAULT_REP_SECONDS = 3;
+export function repSeconds(tempo?: string) {
+  const parts = tempo?.split(/[-–:]/).map(Number) ?? [];
+  const sum = parts.reduce((a, n) => a + n, 0);
+  return parts.length && parts.every((n) => Number.isFinite(n) && n >= 0) && sum > 0 ? sum : DEFAULT_REP_SECONDS;
+}
+
+// ===== Imágenes (Wikimedia Commons: usamos Special:FilePath para URL directa) =====
+// Nota: si alguna no carga en tu red, se verá el placeholder verde con el nombre del ejercicio.
+// ===== Imágenes (Wikimedia Commons, URL directa vía Special:FilePath) =====
+const IMG = {
+  breathing: {
+    image: "https://commons.wikimedia.org/wiki/Special:FilePath/Diaphragmatic%20breathing.gif",
+    credit: "commons.wikimedia.org"
+  },
+  catcow: {
+    image: "https://commons.wikimedia.org/wiki/Special:FilePath/Bidalasana.jpg",
+    credit: "commons.wikimedia.org"
+  },
+  shoulderRolls: {
+    image: "https://commons.wikimedia.org/wiki/Special:FilePath/Diagram%20showing%20how%20to%20do%20shoulder%20rolls%20after%20breast%20reconstruction%20surgery%20CRUK%20151.svg",
+    credit: "Cancer Research UK via Wikimedia"
+  },
+  tspine: {
+    image: undefined, credit: undefined // no hay buen recurso libre específico; usamos placeholder
+  },
+  wristCircles: {
+    // No hay “circles” exacto libre; mejor usar una referencia de muñeca/prevención CTS
+    image: "https://commons.wikimedia.org/wiki/Special:FilePath/Wrist%20stretch.jpg",
+    credit: "commons.wikimedia.org"
+  },
+  birdDog: {
+    image: "https://commons.wikimedia.org/wiki/Special:FilePath/Birddog%20exercise.svg",
+    credit: "commons.wikimedia.org"
+  },
+  lowPlank: {
+    image: "https://commons.wikimedia.org/wiki/Special:FilePath/Plank%20exercise.svg",
+    credit: "commons.wikimedia.org"
+  },
+  gluteBridge: {
+    image: "https://commons.wikimedia.org/wiki/Special:FilePath/Glute-bridge.png",
+    credit: "commons.wikimedia.org"
+  },
+  wristPushups: {
+    // Reemplazo por imagen de estiramiento/carga suave de muñeca (menos confuso que push-up genérico)
+    image: "https://commons.wikimedia.org/wiki/Special:FilePath/Wrist%20stretch.jpg",
+    credit: "commons.wikimedia.org"
+  },
+  doorPec: {
+    image: "https://commons.wikimedia.org/wiki/Special:FilePath/Diagram%20showing%20how%20to%20do%20a%20chest%20stretch%20exercise%20after%20breast%20reconstruction%20surgery%20CRUK%20142.svg",
+    credit: "Cancer Research UK via Wikimedia"
+  },
+  upperTrap: {
+    // Mantengo recurso libre histórico (anterior ya funcionaba). Si quieres lo cambiamos por vector anatómico.
+    image: "https://commons.wikimedia.org/wiki/Special:FilePath/A%20treatise%20on%20orthopedic%20surgery%20(1903)%20(14578123550).jpg",
+    credit: "commons.wikimedia.org"
+  },
+  childPose: {
+    image: "https://commons.wikimedia.org/wiki/Special:FilePath/Balasana.JPG",
+    credit: "commons.wikimedia.org"
+  },
+  wristFlex: {
+    image: "https://commons.wikimedia.org/wiki/Special:FilePath/Exercise%20Wrist%20Flexor%20Stretch.png",
+    credit: "commons.wikimedia.org"
+  },
+  wristExt: {
+    image: "https://commons.wikimedia.org/wiki/Special:FilePath/Exercise%20Wrist%20Extensor%20Stretch.png",
+    credit: "commons.wikimedia.org"
+  },
+};
+
+
+// ====== Definición de ejercicios ======
+// Título, indicación y contraindicaciones viven en los diccionarios (src/locales,
+// "exercise.<key>.title|cue|contra") para que el catálogo esté en todos los idiomas;
+// aquí solo los datos independientes del idioma.
+export type BuiltinExercise = Omit<Exercise, "title" | "cue" | "contraindications">;
+
+export const warmup: BuiltinExercise[] = [
+  {
+    key: "breathing",
+    tags: ["posture", "mobility"], areas: ["chest", "upperBack"], equipment: ["none"],
+    duration: 60,
+    image: IMG.breathing.image, credit: IMG.breathing.credit
+  },
+  {
+    key: "catcow",
+    tags: ["mobility", "posture"], areas: ["lowerBack", "upperBack"], equipment: ["mat"],
+    duration: 60,
+    image: IMG.catcow.image, credit: IMG.catcow.credit
+  },
+  {
+    key: "shoulder-rolls",
+    tags: ["posture", "mobility"], areas: ["shoulders", "neck"], equipment: ["none"],
+    duration: 60,
+    image: IMG.shoulderRolls.image, credit: IMG.shoulderRolls.credit
+  },
+  {
+    key: "tspine-rotation",
+    tags: ["mobility", "posture"], areas: ["upperBack"], equipment: ["mat"],
+    sides: "split",
+    duration: 60,
+    image: IMG.tspine.image, credit: IMG.tspine.credit
+  },
+  {
+    key: "wrist-circles",
+    tags: ["wrists", "mobility"], areas: ["wrists"], equipment: ["none"],
+    duration: 60,
+    image: IMG.wristCircles.image, credit: IMG.wristCircles.credit
+  },
+];
+
+export const strengthCore: BuiltinExercise[] = [
+  {
+    key: "scapular-prone",
+    tags: ["posture"], areas: ["upperBack", "shoulders"], equipment: ["mat"],
+    duration: 60,
+    image: IMG.gluteBridge.image, // ilustrativo genérico de suelo
+    credit: IMG.gluteBridge.credit
+  },
+  {
+    key: "low-plank",
+    tags: ["core"], areas: ["lowerBack", "shoulders"], equipment: ["mat"], variants: ["knee-plank"],
+    duration: 60,
+    image: IMG.lowPlank.image, credit: IMG.lowPlank.credit
+  },
+  {
+    key: "bird-dog",
+    tags: ["core", "posture"], areas: ["lowerBack", "hips"], equipment: ["mat"],
+    sides: "steps",
+    duration: 60,
+    image: IMG.birdDog.image, credit: IMG.birdDog.credit
+  },
+  {
+    key: "glute-bridge",
+    tags: ["core"], areas: ["hips", "lowerBack"], equipment: ["mat"], variants: ["short-bridge"],
+    duration: 60,
+    reps: 12, sets: 3, rest: 30, tempo: "2-1-2",
+    image: IMG.gluteBridge.image, credit: IMG.gluteBridge.credit
+  },
+  {
+    key: "wrist-pushups",
+    tags: ["wrists"], areas: ["wrists", "chest"], equipment: ["mat"], variants: ["wall-pushups"],
+    duration: 60,
+    reps: 10, sets: 2, rest: 20, tempo: "1-1-1",
+    image: IMG.wristPushups.image, credit: IMG.wristPushups.credit
+  },
+];
+
+export const cooldown: BuiltinExercise[] = [
+  {
+    key: "door-pec",
+    tags: ["stretch", "posture"], areas: ["chest", "shoulders"], equipment: ["door"],
+    sides: "split",
+    duration: 60,
+    image: IMG.doorPec.image, credit: IMG.doorPec.credit
+  },
+  {
+    key: "upper-trap",
+    tags: ["stretch"], areas: ["neck"], equipment: ["none"],
+    sides: "split",
+    duration: 60,
+    image: IMG.upperTrap.image, credit: IMG.upperTrap.credit
+  },
+  {
+    key: "child-pose",
+    tags: ["stretch"], areas: ["lowerBack", "hips"], equipment: ["mat"],
+    duration: 60,
+    image: IMG.childPose.image, credit: IMG.childPose.credit
+  },
+  {
+    key: "wrist-stretch-flex",
+    tags: ["stretch", "wrists"], areas: ["wrists"], equipment: ["none"],
+    sides: "split",
+    duration: 60,
+    image: IMG.wristFlex.image, credit: IMG.wristFlex.credit
+  },
+  {
+    key: "wrist-stretch-ext",
+    tags: ["stretch", "wrists"], areas: ["wrists"], equipment: ["none"],
+    sides: "split",
+    duration: 60,
+    image: IMG.wristExt.image, credit: IMG.wristExt.credit
+  },
+];
+
+// Regresiones: versiones más suaves que proponen los check-ins cuando un ejercicio de fuerza
+// molesta (no forman parte de la rutina original).
+export const regressions: BuiltinExercise[] = [
+  {
+    key: "knee-plank",
+    tags: ["core"], areas: ["lowerBack"], equipment: ["mat"], variants: ["low-plank"],
+    duration: 45,
+    image: IMG.lowPlank.image, credit: IMG.lowPlank.credit
+  },
+  {
+    key: "short-bridge",
+    tags: ["core"], areas: ["hips"], equipment: ["mat"], variants: ["glute-bridge"],
+    duration: 45,
+    image: IMG.gluteBridge.image, credit: IMG.gluteBridge.credit
+  },
+  {
+    key: "wall-pushups",
+    tags: ["wrists"], areas: ["wrists", "chest"], equipment: ["wall"], variants: ["wrist-pushups"],
+    duration: 60,
+    reps: 10, sets: 2, rest: 20, tempo: "1-1-1",
+    image: IMG.wristPushups.image, credit: IMG.wristPushups.credit
+  },
+];
+
+// Ejercicio -> su regresión
+export const REGRESSIONS: Record<string, string> = {
+  "low-plank": "knee-plank",
+  "glute-bridge": "short-bridge",
+  "wrist-pushups": "wall-pushups",
+};
+
+// ===== Catálogo =====
+// Ejercicios base, en el orden de la rutina original (y después las regresiones). El editor de
+// rutinas elige de aquí; las rutinas guardadas solo referencian `key` + `duration`.
+const BUILTIN: BuiltinExercise[] = [...warmup, ...strengthCore, ...cooldown, ...regressions];
+const BUILTIN_KEYS = new Set(BUILTIN.map((e) => e.key));
+const localize = (e: BuiltinExercise, locale: Locale): Exercise => ({
+  ...e,
+  title: tOr(`exercise.${e.key}.title`, e.key, locale),
+  cue: tOr(`exercise.${e.key}.cue`, "", locale),
+  contraindications: tOr(`exercise.${e.key}.contra`, "", locale) || undefined,
+});
+export const isBuiltinExercise = (key: string) => BUILTIN_KEYS.has(key);
+
+// Ejercicios añadidos por importación; se guardan aparte y nunca pisan a los base.
+const CUSTOM_KEY = "exercises";
+let custom: Exercise[] = loadJSON<Exercise[]>(CUSTOM_KEY, []).filter((e) => !BUILTIN_KEYS.has(e.key));
+const catalogs = new Map<Locale, Exercise[]>();
+
+// Catálogo completo en `locale`. Es el mismo array hasta que cambian los ejercicios personalizados,
+// así que sirve como dependencia de memos y efectos. Los personalizados no se traducen: conservan
+// el texto con el que se importaron.
+export function exercisesFor(locale: Locale) {
+  let list = catalogs.get(locale);
+  if (!list) catalogs.set(locale, (list = [...BUILTIN.map((e) => localize(e, locale)), ...custom]));
+  return list;
+}
+
+// Atajos sobre el catálogo en el idioma actual
+let byKey = new Map<string, Exercise>();
+export let BUILTIN_EXERCISES: Exercise[] = [];
+export let EXERCISES: Exercise[] = [];
+reindex();
+onLocaleChange(reindex);
+
+function reindex() {
+  EXERCISES = exercisesFor(getLocale());
+  BUILTIN_EXERCISES = EXERCISES.slice(0, BUILTIN.length);
+  byKey = new Map(EXERCISES.map((e) => [e.key, e]));
+}
+
+export const exerciseByKey = (key: string) => byKey.get(key);
+export const customExercises = () => custom;
+
+// Añade o reemplaza ejercicios personalizados (por `key`) y persiste el catálogo
+export function upsertCustomExercises(list: Exercise[]) {
+  const incoming = new Map(list.filter((e) => !BUILTIN_KEYS.has(e.key)).map((e) => [e.key, e]));
+  custom = [...custom.filter((e) => !incoming.has(e.key)), ...incoming.values()];
+  saveJSON(CUSTOM_KEY, custom);
+  catalogs.clear();
+  reindex();
+}
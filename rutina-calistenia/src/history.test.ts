@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { type SessionLog, type SessionStep, logPassedOver, logStep } from "./history";
+import { DEFAULT_ROUTINE, buildProgram } from "./routines";
+
+// Con transiciones el programa intercala pasos de preparación y descanso, que no se registran
+const program = buildProgram({ ...DEFAULT_ROUTINE, transitions: { prep: 10, roundRest: 30, phaseRest: 60 } }, 1);
+const work = program.flatMap((s, i) => (s.kind === "work" ? [i] : []));
+
+const emptyLog = (): SessionLog => ({
+  id: "s", startedAt: 0, endedAt: 0, routineId: DEFAULT_ROUTINE.id, routineName: DEFAULT_ROUTINE.name,
+  totalSteps: program.length, steps: [], pausedMs: 0, reachedEnd: false,
+});
+const stepAt = (idx: number, skipped = false): SessionStep & { idx: number } => {
+  const s = program[idx];
+  return { key: s.key, title: s.title, phase: s.phase, duration: s.duration, seconds: skipped ? 3 : s.duration, skipped, idx };
+};
+
+describe("logStep", () => {
+  it("un paso repetido con Anterior se registra una sola vez", () => {
+    const log = emptyLog();
+    logStep(log, stepAt(work[0], true));
+    logStep(log, stepAt(work[0]));
+    expect(log.steps).toEqual([stepAt(work[0])]);
+  });
+
+  it("lo hecho no se deshace al saltarlo después", () => {
+    const log = emptyLog();
+    logStep(log, stepAt(work[0]));
+    logStep(log, stepAt(work[0], true));
+    expect(log.steps).toEqual([stepAt(work[0])]);
+  });
+});
+
+describe("logPassedOver", () => {
+  it("al avanzar marca como saltados, con 0 s, los pasos de trabajo intermedios sin registrar", () => {
+    const log = emptyLog();
+    logStep(log, stepAt(work[1]));
+    logPassedOver(log, program, work[0], work[3]);
+    expect(log.steps.map((s) => [s.idx, s.skipped, s.seconds])).toEqual([
+      [work[1], false, program[work[1]].duration],
+      [work[0], true, 0],
+      [work[2], true, 0],
+    ]);
+  });
+
+  it("recorrer todo el programa registra solo los pasos de trabajo", () => {
+    const log = emptyLog();
+    logPassedOver(log, program, 0, program.length);
+    expect(log.steps.map((s) => s.idx)).toEqual(work);
+    expect(work.length).toBeLessThan(program.length);
+  });
+
+  it("al retroceder solo marca el paso que se deja a medias", () => {
+    const log = emptyLog();
+    logPassedOver(log, program, work[2], work[0]);
+    expect(log.steps.map((s) => s.idx)).toEqual([work[2]]);
+  });
+});
@@ -0,0 +1,107 @@
+import { type Phase, type Step, toPhase } from "./routines";
+import type { CheckIn } from "./checkins";
+import { loadJSON, saveJSON } from "./storage";
+
+// ===== Tipado =====
+// `seconds`: tiempo real hecho en el paso; `skipped`: se pasó con "Siguiente" antes de terminar
+// (o se saltó por encima al navegar); `rounds`: vueltas completas al circuito anotadas en un bloque
+// AMRAP; `idx`: posición en el programa (sesiones antiguas: sin dato).
+export interface SessionStep { key: string; title: string; phase: Phase; duration: number; seconds: number; skipped: boolean; rounds?: number; idx?: number }
+export interface SessionLog {
+  id: string;
+  startedAt: number;
+  endedAt: number;
+  routineId: string;
+  routineName: string;
+  totalSteps: number;
+  steps: SessionStep[];
+  pausedMs: number;
+  pauses?: number; // veces que se pausó (sesiones antiguas: sin dato)
+  reachedEnd: boolean; // llegó al último paso (Estiramientos)
+  checkins?: CheckIn[]; // esfuerzo y molestias por ejercicio de fuerza, si se rellenó al terminar
+}
+
+// "5–6 días/semana"
+export const WEEKLY_GOAL = { min: 5, max: 6 };
+
+// ===== Persistencia =====
+const HISTORY_KEY = "history";
+
+export const loadHistory = () => loadJSON<SessionLog[]>(HISTORY_KEY, []).map(normalizeSession);
+export const saveHistory = (history: SessionLog[]) => saveJSON(HISTORY_KEY, history);
+
+// Sesiones guardadas antes de los ids de fase llevan el nombre en español
+export const normalizeSession = (s: SessionLog): SessionLog =>
+  ({ ...s, steps: s.steps.map((st) => ({ ...st, phase: toPhase(st.phase) ?? st.phase })) });
+
+// ===== Registro de pasos =====
+// Un paso aparece una sola vez aunque se repita con "Anterior": la nueva entrada sustituye a la
+// anterior, salvo que esta ya estuviera hecha y la nueva sea un salto (lo hecho no se deshace).
+export function logStep(session: SessionLog, entry: SessionStep & { idx: number }) {
+  const i = session.steps.findIndex((s) => s.idx === entry.idx);
+  if (i < 0) session.steps.push(entry);
+  else if (!(entry.skipped && !session.steps[i].skipped)) session.steps[i] = entry;
+}
+
+// Al ir del paso `from` al `to` saltando (lista de pasos, barra de progreso, "Fase"), los pasos de
+// trabajo que quedan atrás sin registrar cuentan como saltados: los intermedios si se avanza y el
+// que se deja a medias si se retrocede.
+export function logPassedOver(session: SessionLog, program: Step[], from: number, to: number) {
+  const passed = to > from ? program.slice(from, to).map((_, j) => from + j) : to < from ? [from] : [];
+  for (const i of passed) {
+    const step = program[i];
+    if (step?.kind !== "work" || session.steps.some((s) => s.idx === i)) continue;
+    session.steps.push({ key: step.key, title: step.title, phase: step.phase, duration: step.duration, seconds: 0, skipped: true, idx: i });
+  }
+}
+
+// ===== Fechas (siempre en hora local) =====
+export function dayKey(ts: number | Date) {
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+const addDays = (d: Date, n: number) => new Date(d.getFullYear(), d.getMonth(), d.getDate() + n);
+// Lunes de la semana de `d`
+export const startOfWeek = (d: Date) => addDays(d, -((d.getDay() + 6) % 7));
+
+export const activeDays = (history: SessionLog[]) => new Set(history.map((s) => dayKey(s.startedAt)));
+
+// ===== Estadísticas =====
+// Racha = días consecutivos con al menos una sesión. La actual cuenta desde hoy,
+// o desde ayer si hoy todavía no se ha entrenado.
+export function streaks(history: SessionLog[], now = new Date()) {
+  const days = activeDays(history);
+  let current = 0;
+  let d = days.has(dayKey(now)) ? now : addDays(now, -1);
+  while (days.has(dayKey(d))) { current++; d = addDays(d, -1); }
+
+  let longest = 0, run = 0, prev: Date | null = null;
+  for (const k of [...days].sort()) {
+    const [y, m, day] = k.split("-").map(Number);
+    const date = new Date(y, m - 1, day);
+    run = prev && dayKey(addDays(prev, 1)) === k ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    prev = date;
+  }
+  return { current, longest };
+}
+
+// Días distintos entrenados en la semana (lunes a domingo) de `now`
+export function weekCount(history: SessionLog[], now = new Date()) {
+  const from = startOfWeek(now).getTime();
+  const to = addDays(startOfWeek(now), 7).getTime();
+  return new Set(history.filter((s) => s.startedAt >= from && s.startedAt < to).map((s) => dayKey(s.startedAt))).size;
+}
+
+export interface ExerciseTotal { key: string; title: string; done: number; skipped: number; seconds: number }
+
+export function exerciseTotals(history: SessionLog[]): ExerciseTotal[] {
+  const totals = new Map<string, ExerciseTotal>();
+  for (const s of history) for (const st of s.steps) {
+    const t = totals.get(st.key) ?? { key: st.key, title: st.title, done: 0, skipped: 0, seconds: 0 };
+    if (st.skipped) t.skipped++; else t.done++;
+    t.seconds += st.seconds;
+    totals.set(st.key, t);
+  }
+  return [...totals.values()].sort((a, b) => b.seconds - a.seconds);
+}
@@ -0,0 +1,65 @@
+import { useSyncExternalStore } from "react";
+import es from "./locales/es";
+import en from "./locales/en";
+import { loadJSON, saveJSON } from "./storage";
+
+// ===== Traducciones =====
+// `es` es el diccionario de referencia: `en` (y cualquier idioma nuevo) debe tener exactamente
+// las mismas claves, lo que comprueba el tipo `Messages`. Textos con parámetros: "{name}".
+export type Locale = "es" | "en";
+export type MessageKey = keyof typeof es;
+export type Messages = Record<MessageKey, string>;
+
+export const LOCALES: { id: Locale; label: string; voiceLang: string }[] = [
+  { id: "es", label: "Español", voiceLang: "es-ES" },
+  { id: "en", label: "English", voiceLang: "en-US" },
+];
+const DICTS: Record<Locale, Messages> = { es, en };
+
+const LOCALE_KEY = "locale";
+const isLocale = (v: unknown): v is Locale => LOCALES.some((l) => l.id === v);
+
+// Idioma guardado o, la primera vez, el del navegador (español si no hay coincidencia)
+export function detectLocale(): Locale {
+  const saved = loadJSON<unknown>(LOCALE_KEY, null);
+  if (isLocale(saved)) return saved;
+  const preferred = globalThis.navigator?.languages ?? [];
+  return preferred.map((l) => l.slice(0, 2).toLowerCase()).find(isLocale) ?? "es";
+}
+
+let current: Locale = detectLocale();
+const listeners = new Set<() => void>();
+
+export const getLocale = () => current;
+export function setLocale(locale: Locale) {
+  if (locale === current) return;
+  current = locale;
+  saveJSON(LOCALE_KEY, locale);
+  if (globalThis.document) document.documentElement.lang = locale;
+  listeners.forEach((fn) => fn());
+}
+export function onLocaleChange(fn: () => void) {
+  listeners.add(fn);
+  return () => { listeners.delete(fn); };
+}
+if (globalThis.document) document.documentElement.lang = current;
+
+// Re-renderiza el componente al cambiar de idioma
+export const useLocale = () => useSyncExternalStore(onLocaleChange, getLocale);
+
+export function t(key: MessageKey, params?: Record<string, string | number>) {
+  return tIn(current, key, params);
+}
+// Texto en un idioma dado, para lo que se traduce por adelantado (catálogo, planes incluidos)
+export function tIn(locale: Locale, key: MessageKey, params?: Record<string, string | number>) {
+  const text = DICTS[locale][key] ?? es[key] ?? key;
+  return params ? text.replace(/\{(\w+)\}/g, (m, name) => (name in params ? String(params[name]) : m)) : text;
+}
+
+// Singular/plural: claves "<base>.one" y "<base>.other", con {n} disponible en el texto
+type PluralBase = { [K in MessageKey]: K extends `${infer B}.one` ? B : never }[MessageKey];
+export const tp = (base: PluralBase, n: number, params?: Record<string, string | number>) =>
+  t(`${base}.${n === 1 ? "one" : "other"}` as MessageKey, { n, ...params });
+
+// Claves construidas en tiempo de ejecución (p. ej. textos de ejercicios); `fallback` si no existe
+export const tOr = (key: string, fallback: string, locale = current) => (key in es ? tIn(locale, key as MessageKey) : fallback);
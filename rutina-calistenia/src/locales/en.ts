@@ -0,0 +1,514 @@
+import type { Messages } from "../i18n";
+
+// ===== English =====
+const en: Messages = {
+  // --- Header and start screen
+  "app.title": "Calisthenics Routine — {min} min",
+  "app.subtitle": "Posture, core and wrists • No equipment • Built for long hours of programming",
+  "app.footer": "Made with 💚 for happy posture, back and wrists. — 5–6 days/week.",
+  "nav.routines": "Routines",
+  "nav.audio": "Sound & voice",
+  "nav.history": "History",
+  "nav.mute": "Mute (M)",
+  "nav.fullscreen": "Fullscreen (F)",
+  "nav.pip": "Floating timer (always on top)",
+  "nav.pipClose": "Close the floating timer",
+  "nav.language": "Language",
+  "nav.settings": "Settings",
+  "nav.library": "Exercises",
+  "nav.planner": "Weekly plan",
+  "nav.plans": "Training plans",
+  "nav.profiles": "Profiles",
+  "nav.intervals": "Intervals",
+  "common.back": "Back",
+  "common.up": "Move up",
+  "common.down": "Move down",
+  "progress.label": "Session progress",
+  "progress.seek": "Click to jump to that point",
+  "wake.active": "Screen on",
+  "wake.activeTitle": "The screen won't turn off while the session is running",
+  "wake.unsupported": "May dim",
+  "wake.unsupportedTitle": "This browser can't keep the screen on",
+  "resume.title": "You have an unfinished session",
+  "resume.detail": "{routine} • step {step}/{total} ({title}) • {left} left",
+  "resume.resume": "Resume",
+  "resume.discard": "Discard",
+  "start.title": "Ready to start",
+  "start.intro": "{min} guided minutes. Press {key} or Start.",
+  "start.introFullscreen": "We'll switch to fullscreen.",
+  "start.spaceKey": "Space",
+  "start.structure": "Structure",
+  "start.shortcuts": "Shortcuts",
+  "start.shortcutsText": "Space: Play/Pause • ←/→: Previous/Next • Shift+→: Next phase • +/−: ±15 s • Enter: Done (reps) • R: Restart • F: Fullscreen • M: Mute",
+  "start.safety": "Safety",
+  "start.safetyText": "Wrists and lower back protected. Comfortable range and smooth breathing.",
+  "start.start": "Start",
+  "start.fullscreen": "Fullscreen",
+
+  // --- Settings
+  "settings.session": "Session",
+  "settings.scale": "Duration multiplier",
+  "settings.scaleOption": "{n}× (~{min} min)",
+  "settings.defaultRounds": "Strength rounds in new routines",
+  "settings.resumeWindow": "Offer to resume a session for (min)",
+  "settings.behaviour": "Behaviour",
+  "settings.autoFullscreen": "Fullscreen on start",
+  "settings.keepAwake": "Keep the screen on",
+  "settings.autoAdvance": "Move on to the next step automatically",
+  "settings.autoAdvanceHint": "If off, the session pauses at the end of each timed exercise until you press Resume.",
+  "settings.theme": "Theme",
+  "settings.theme.dark": "Dark",
+  "settings.theme.light": "Light",
+  "settings.theme.system": "Match system",
+  "reminder.settings": "Movement breaks during the workday",
+  "reminder.settingsHint": "While the app is open (even in another tab), it reminds you to do a ~2 min micro-routine for shoulders, chest and wrists.",
+  "reminder.enabled": "Remind me to take a break",
+  "reminder.noPermission": "No notification permission: the reminder will only show inside the app.",
+  "reminder.denied": "Notifications are blocked for this site: the reminder will only show inside the app.",
+  "reminder.unsupported": "This browser does not support notifications: the reminder will only show inside the app.",
+  "reminder.interval": "Frequency",
+  "reminder.everyMin": "Every {n} min",
+  "reminder.from": "From",
+  "reminder.to": "Until",
+  "reminder.snooze": "Snooze",
+  "reminder.minutes": "{n} min",
+  "reminder.lastWeek": "Last 7 days:",
+  "reminder.stat.shown.one": "{n} reminder",
+  "reminder.stat.shown.other": "{n} reminders",
+  "reminder.stat.started.one": "{n} done",
+  "reminder.stat.started.other": "{n} done",
+  "reminder.stat.snoozed.one": "{n} snoozed",
+  "reminder.stat.snoozed.other": "{n} snoozed",
+  "reminder.stat.skipped.one": "{n} skipped",
+  "reminder.stat.skipped.other": "{n} skipped",
+  "reminder.title": "Time for a movement break",
+  "reminder.body": "2 minutes: shoulders, chest and wrists. Click to start.",
+  "reminder.routineName": "Movement break — 2 min",
+  "reminder.start": "Start",
+  "reminder.later": "Snooze {n} min",
+  "reminder.skip": "Not now",
+  "reminder.active": "Movement-break micro-routine.",
+  "reminder.backToRoutine": "Back to my routine",
+  "plan.intro": "Assign routines to days and times and export them to your calendar as weekly events.",
+  "plan.days": "{n} days planned (goal: {min}–{max}).",
+  "plan.rest": "Rest",
+  "plan.missing": "(deleted routine)",
+  "plan.minutes": "~{n} min",
+  "plan.add": "Add session",
+  "plan.remove": "Remove",
+  "plan.export": "Export to calendar (.ics)",
+  "plan.exportHint": "Importing it again updates the same events instead of duplicating them.",
+  "plan.calendarName": "Calisthenics Routine",
+  "plan.total": "Total duration: ~{min} min",
+  "profile.defaultName": "Me",
+  "profile.who": "Who is training?",
+  "profile.manage": "Manage profiles",
+  "profile.intro": "Each profile has its own routines, settings, history, plan and reminders. Handy when you share the device.",
+  "profile.name": "Name",
+  "profile.color": "Avatar colour",
+  "profile.color.emerald": "Green",
+  "profile.color.sky": "Blue",
+  "profile.color.amber": "Amber",
+  "profile.color.rose": "Pink",
+  "profile.color.violet": "Violet",
+  "profile.color.lime": "Lime",
+  "profile.current": "Current profile",
+  "profile.use": "Switch to this profile",
+  "profile.export": "Export profile",
+  "profile.delete": "Delete profile",
+  "profile.confirmDelete": "Delete the profile \"{name}\" and all its data? This cannot be undone.",
+  "profile.new": "New profile",
+  "profile.create": "Create",
+  "profile.move": "Move a profile to another device",
+  "profile.moveHint": "Export the profile with its button and import it here: it is added as a new profile, leaving existing ones untouched.",
+  "profile.import": "Import profile",
+  "profile.imported": "Profile \"{name}\" imported.",
+  "profile.importFailed": "Could not import \"{file}\":",
+  "profile.badFile": "The file is not a profile exported from this app.",
+
+  // --- Session
+  "session.set": "Set {set}/{sets}",
+  "session.reps": "{n} reps",
+  "session.tempo": "Tempo {tempo}",
+  "session.done": "Done",
+  "side.left": "Left side",
+  "side.right": "Right side",
+  "image.generic": "Generic reference",
+  "image.source": "Source: {source}",
+  "controls.prev": "Previous",
+  "controls.prevTitle": "Previous (←)",
+  "controls.pause": "Pause",
+  "controls.resume": "Resume",
+  "controls.next": "Next",
+  "controls.nextTitle": "Next (→)",
+  "controls.startNow": "Start now",
+  "controls.minus15": "Remove 15 s (−)",
+  "controls.plus15": "Add 15 s (+)",
+  "controls.phase": "Phase",
+  "controls.phaseTitle": "Next phase (Shift+→)",
+  "controls.restart": "Restart",
+  "controls.restartTitle": "Restart (R)",
+  "break.prep": "Get ready",
+  "break.set": "Rest between sets",
+  "break.round": "Rest between rounds",
+  "break.phase": "Rest between phases",
+  "break.interval": "Rest",
+  "break.upNext": "Up next",
+  "steps.title": "Steps",
+  "summary.set": "set {set}/{sets}",
+  "summary.reps": "{reps} reps (~{s}s)",
+  "tips.title": "Quick tips",
+  "tips.1": "Breathe in through the nose and out through the mouth; steady rhythm.",
+  "tips.2": "Shoulder blades back and down (open the chest).",
+  "tips.3": "If your lower back complains: reduce the range and engage abs/glutes.",
+  "tips.4": "Wrists: comfortable range; switch between palms/fingers/fists if needed.",
+  "tips.5": "During the day: 30–60 s of chest opening every 1–2 h.",
+
+  // --- Check-ins and suggestions
+  "checkin.title": "How did it go?",
+  "checkin.intro": "Rate the effort of each strength exercise (RPE: 1 very easy, 10 maximum) and mark where you felt discomfort.",
+  "checkin.rpe": "Effort: {n}/10",
+  "checkin.pain": "Discomfort",
+  "checkin.save": "Save",
+  "checkin.skip": "Skip",
+  "area.wrists": "Wrists",
+  "area.lowerBack": "Lower back",
+  "area.shoulders": "Shoulders",
+  "area.neck": "Neck",
+  "area.knees": "Knees",
+  "area.upperBack": "Upper back",
+  "area.chest": "Chest",
+  "area.hips": "Hips",
+  "pain.warning": "Last time you felt discomfort in: {areas}. Reduce the range and stop if it comes back.",
+  "suggest.title": "Suggestions from your check-ins",
+  "suggest.longer": "{title}: it's feeling easy; make it a little longer.",
+  "suggest.shorter": "{title}: it's feeling very hard; make it a little shorter.",
+  "suggest.regress": "{title}: swap it for {to}, a gentler version.",
+  "suggest.extraRound": "Everything felt easy: add a strength round.",
+  "suggest.apply": "Apply",
+  "suggest.dismiss": "Not now",
+
+  // --- Exercise library
+  "library.search": "Search exercises…",
+  "library.allTags": "All",
+  "library.allAreas": "All areas",
+  "library.anyEquipment": "Any equipment",
+  "library.count.one": "{n} exercise",
+  "library.count.other": "{n} exercises",
+  "library.none": "No exercise matches your search.",
+  "library.custom": "Imported",
+  "library.duration": "Duration",
+  "library.areas": "Areas",
+  "library.equipment": "Equipment",
+  "library.sides": "Sides",
+  "sides.split": "Switch sides halfway",
+  "sides.steps": "One step per side",
+  "library.variants": "Variants",
+  "library.contra": "Contraindications",
+  "library.noContra": "None listed; stop if you feel pain.",
+  "tag.wrists": "Wrists",
+  "tag.posture": "Posture",
+  "tag.core": "Core",
+  "tag.mobility": "Mobility",
+  "tag.stretch": "Stretch",
+  "equipment.none": "No equipment",
+  "equipment.mat": "Mat",
+  "equipment.wall": "Wall",
+  "equipment.door": "Door frame",
+
+  // --- Phases and routines
+  "phase.warmup": "Warm-up",
+  "phase.strength": "Strength",
+  "phase.cooldown": "Stretching",
+  "routine.phaseSummary": "{min} min {phase}",
+  "routine.rounds.one": "({n} round)",
+  "routine.rounds.other": "({n} rounds)",
+  "routine.new": "New routine",
+  "routine.copy": "{name} (copy)",
+  "routine.imported": "Imported routine",
+  "routine.importedN": "Imported routine {n}",
+
+  // --- Intervals (Tabata, EMOM, AMRAP)
+  "interval.tabata": "Tabata",
+  "interval.emom": "EMOM",
+  "interval.amrap": "AMRAP",
+  "interval.custom": "Intervals",
+  "interval.work": "Work",
+  "interval.round": "Round {round}/{rounds}",
+  "interval.amrapRounds.one": "{n} round",
+  "interval.amrapRounds.other": "{n} rounds",
+  "interval.roundPlus": "Round done",
+  "interval.roundMinus": "Remove a round",
+  "interval.circuit": "Circuit",
+  "interval.exercises.one": "{n} exercise",
+  "interval.exercises.other": "{n} exercises",
+  "interval.emomTarget": "{n} reps, then rest until the next minute",
+  "interval.routineName": "{format} — {min} min",
+  "interval.pick": "Exercises",
+  "interval.pickHint": "They run in the order you tick them and repeat until the rounds are done.",
+  "interval.bookends": "With the warm-up and cool-down of the original routine",
+  "interval.save": "Save as routine",
+  "interval.total": "~{min} min in total",
+  "interval.noExercises": "Pick at least one exercise.",
+
+  // --- Multi-week plans
+  "plans.intro": "Multi-week programs: each week adjusts times, rounds or variants, and each day the right session is picked for you. You move forward by completing sessions, not by the calendar.",
+  "plans.position": "Week {week} · Day {day}",
+  "plans.progress": "{done}/{total} sessions",
+  "plans.next": "Next: {position}",
+  "plans.notStarted": "Not started",
+  "plans.done": "Plan completed",
+  "plans.finished": "You completed \"{name}\"!",
+  "plans.weekN": "Week {n}",
+  "plans.weeks.one": "{n} week",
+  "plans.weeks.other": "{n} weeks",
+  "plans.days.one": "{n} day",
+  "plans.days.other": "{n} days",
+  "plans.count.one": "{n} plan",
+  "plans.count.other": "{n} plans",
+  "plans.week.scale": "{n}% of the time",
+  "plans.week.rounds": "+{n} strength round(s)",
+  "plans.week.base": "Base routine",
+  "plans.start": "Start",
+  "plans.continue": "Continue",
+  "plans.leave": "Pause plan",
+  "plans.manage": "View plans",
+  "plans.reset": "Reset",
+  "plans.restart": "Start over",
+  "plans.confirmReset": "Reset the progress of \"{name}\"? You go back to week 1.",
+  "plans.delete": "Delete plan",
+  "plans.confirmDelete": "Delete the plan \"{name}\" and its progress?",
+  "plans.export": "Export",
+  "plans.import": "Import a plan",
+  "plans.importHint": "Same JSON file as routines, with a `plans` list (see docs/formato-json.md).",
+  "plans.imported": "Imported \"{file}\": {plans}.",
+  "plans.importedN": "Imported plan {n}",
+  "plans.builtin.postureWrists.name": "Posture & wrists — 6 weeks",
+  "plans.builtin.postureWrists.description": "The original routine five days a week: start with the regressions and less time, move on to the full version and finish with an extra strength round.",
+
+  // --- Routine editor
+  "editor.inUse": "In use",
+  "editor.use": "Use this routine",
+  "editor.duplicate": "Duplicate",
+  "editor.delete": "Delete",
+  "editor.remove": "Remove",
+  "editor.share": "Share",
+  "editor.shareHint": "Export to JSON or drop a file here to import it.",
+  "editor.exportOne": "This routine",
+  "editor.exportAll": "Everything",
+  "editor.exportAllFile": "routines",
+  "editor.import": "Import…",
+  "editor.importFailed": "Could not import \"{file}\":",
+  "editor.imported": "Imported \"{file}\": {routines} routine(s), {exercises} exercise(s).",
+  "editor.importedPlans": "Also: {plans}.",
+  "editor.name": "Name",
+  "editor.empty": "Empty routine: add at least one exercise to use it.",
+  "editor.rounds": "Rounds",
+  "editor.add": "Add",
+  "editor.transition.prep": "Get ready before each exercise",
+  "editor.transition.roundRest": "Rest between rounds",
+  "editor.transition.phaseRest": "Rest between phases",
+  "editor.mode.time": "Time",
+  "editor.mode.reps": "Reps",
+  "editor.mode.sets": "Sets",
+  "editor.sets": "Sets",
+  "editor.reps": "Repetitions",
+  "editor.tempo": "Tempo, e.g. 2-1-2 (seconds per phase)",
+  "editor.restBetweenSets": "Rest between sets",
+  "editor.restUnit": "s rest",
+  "editor.format": "Phase format",
+  "editor.format.rounds": "Rounds",
+  "editor.interval.tabata": "20 s of work and 10 s of rest, 8 rounds, rotating the exercises.",
+  "editor.interval.emom": "At the start of every minute, the exercise reps; whatever is left of the minute is rest.",
+  "editor.interval.amrap": "As many laps of the circuit as you can in the set time; log them with +1.",
+  "editor.interval.custom": "Your own work and rest times, rotating the exercises.",
+  "editor.interval.duration": "Duration",
+  "editor.interval.every": "Every",
+  "editor.interval.work": "Work",
+  "editor.interval.rest": "Rest",
+
+  // --- History
+  "history.streak": "Current streak",
+  "history.longest": "Longest streak",
+  "history.days.one": "{n} day",
+  "history.days.other": "{n} days",
+  "history.week": "This week",
+  "history.goalMet": "Goal reached 💚",
+  "history.goalLeft": "{n} to go",
+  "history.sessions": "Sessions",
+  "history.sessionsOnDay.one": "{n} session",
+  "history.sessionsOnDay.other": "{n} sessions",
+  "history.weekdays": "M,T,W,T,F,S,S",
+  "history.complete": "Complete",
+  "history.partial": "Partial",
+  "history.incomplete": "Incomplete",
+  "history.byExercise": "By exercise",
+  "history.none": "No sessions recorded yet.",
+  "history.done": "{n} done",
+  "history.skipped": "{n} skipped",
+  "history.recent": "Recent",
+  "history.steps": "{done}/{total} steps",
+  "history.paused": "{n} min paused",
+  "history.rpe": "RPE {n}",
+
+  // --- End-of-session summary
+  "finish.title": "Session complete!",
+  "finish.titlePartial": "Session finished",
+  "finish.brand": "Calisthenics Routine",
+  "finish.active": "Active time",
+  "finish.activeOf": "of ~{planned} planned",
+  "finish.paused": "Paused",
+  "finish.pauses.one": "{n} pause",
+  "finish.pauses.other": "{n} pauses",
+  "finish.noPauses": "No pauses",
+  "finish.streak": "{days} streak",
+  "finish.streakRecord": "{days} streak: your best yet!",
+  "finish.weekMet": "{n} days this week: goal met",
+  "finish.weekLeft": "{n} days this week, {left} to go for the goal",
+  "finish.done": "{done}/{total} done",
+  "finish.missed": "{n} not done",
+  "finish.complete": "Full session",
+  "finish.createCard": "Create image to share",
+  "finish.cardAlt": "Card with the session summary",
+  "finish.cardFailed": "Couldn't create the image in this browser.",
+  "finish.download": "Download PNG",
+  "finish.share": "Share",
+  "finish.copy": "Copy image",
+  "finish.copied": "Copied",
+  "finish.close": "Done",
+
+  // --- Sound and voice
+  "audio.muted": "Muted (M): nothing will play until you unmute.",
+  "audio.sounds": "Sounds",
+  "audio.pack": "Sound pack",
+  "audio.volume": "Volume: {n}%",
+  "audio.test": "Try it",
+  "sound.pack.clasico": "Classic",
+  "sound.pack.suave": "Soft",
+  "sound.pack.campana": "Bell",
+  "sound.cue.tick": "Last 3 seconds",
+  "sound.cue.step": "Step change",
+  "sound.cue.phase": "Phase change",
+  "sound.cue.half": "Halfway",
+  "sound.cue.side": "Switch sides",
+  "sound.cue.end": "Session complete",
+  "voice.title": "Voice",
+  "voice.unsupported": "This browser does not support speech synthesis.",
+  "voice.enabled": "Voice coach",
+  "voice.lang": "Voice language",
+  "voice.voice": "Voice",
+  "voice.systemDefault": "System default",
+  "voice.rate": "Rate: {n}×",
+  "voice.announcements": "Announcements",
+  "voice.announce.step": "Exercise name when it starts",
+  "voice.announce.cue": "Form cue",
+  "voice.announce.time": "30 and 10 second warnings",
+  "voice.announce.countdown": "3-2-1 countdown",
+  "voice.announce.phase": "Phase change",
+  "voice.announce.end": "End of session",
+  "say.phase": "{phase} phase",
+  "say.prep": "Get ready: {title}",
+  "say.rest": "Rest. Next: {title}",
+  "say.set": "{title}, set {set} of {sets}",
+  "say.reps": "{n} reps",
+  "say.side": "Switch sides. {side}",
+  "say.round": "Round {round} of {rounds}",
+  "say.circuit": "{min} minute AMRAP: as many rounds of the circuit as you can",
+  "say.seconds": "{n} seconds",
+  "say.end": "Session complete. Great job!",
+
+  // --- Import (src/schema.ts)
+  "import.invalidJson": "Not valid JSON: {message}",
+  "import.notObject": "The file must contain a JSON object.",
+  "import.badVersion": "`version` is missing or is not a positive integer.",
+  "import.newerVersion": "The file uses format version {version}; this app only understands up to {supported}. Please update the app.",
+  "import.badFormat": "`format` must be \"{format}\".",
+  "import.mustBeList": "`{field}` must be a list.",
+  "import.mustBeObject": "{at}: must be an object.",
+  "import.missing": "{at}: `{field}` is missing.",
+  "import.duplicateKey": "{at}: duplicate `key` in the file.",
+  "import.badDuration": "{at}: `duration` must be a number of seconds greater than 0 (got: {value}).",
+  "import.mustBeText": "{at}: `{field}` must be text.",
+  "import.noAnimation": "{at}: there is no animation (ExerciseAnimation) for \"{animation}\". Set `animation` to one of: {options}.",
+  "import.badAnimation": "{at}: `animation` is not a valid animation: it needs `frames` (poses with the required joints as [x, y]) and `seconds` > 0. See docs/formato-json.md.",
+  "import.builtinSkipped": "\"{key}\" already exists in the built-in catalogue; the app's version is used.",
+  "import.phasesList": "{at} (\"{name}\"): `phases` must be a list.",
+  "import.unknownPhase": "{at}: unknown phase {value}. Use one of: {options}.",
+  "import.duplicatePhase": "{at}: phase \"{phase}\" appears more than once.",
+  "import.badRounds": "{at}: `rounds` must be an integer greater than 0.",
+  "import.unknownInterval": "{at}: unknown interval format {value}. Use one of: {options}.",
+  "import.badInterval": "{at}: `interval` needs integer `work` and `rounds` greater than 0 and `rest` of 0 or more.",
+  "import.itemsList": "{at}: `items` must be a list.",
+  "import.unknownExercise": "{at}: unknown exercise {value}.",
+  "import.badItemDuration": "{at}: `duration` must be greater than 0.",
+  "import.badTransition": "{at}.transitions: `{field}` must be a number of seconds ≥ 0.",
+  "import.empty": "The file contains no exercises, routines or plans.",
+  "import.unknownMode": "{at}: unknown `mode` {value}. Use one of: {options}.",
+  "import.badInt": "{at}: `{field}` must be an integer greater than 0.",
+  "import.mustBeTextList": "{at}: `{field}` must be a list of text values.",
+  "import.unknownValues": "{at}: unknown values in `{field}`: {value}. Use: {options}.",
+  "import.badRest": "{at}: `rest` must be a number of seconds ≥ 0.",
+  "import.badDaysPerWeek": "{at}: `daysPerWeek` must be an integer from 1 to 7.",
+  "import.planRoutines": "{at}: `routines` must be a list with at least one routine.",
+  "import.planWeeks": "{at}: `weeks` must be a list with at least one week.",
+  "import.badScale": "{at}: `scale` must be a number greater than 0.",
+  "import.badExtraRounds": "{at}: `extraRounds` must be an integer ≥ 0.",
+
+  // --- Built-in exercises
+  "exercise.breathing.title": "Diaphragmatic breathing and chest opening",
+  "exercise.breathing.cue": "Take 5 deep breaths; shoulders back, ribs expand.",
+  "exercise.breathing.contra": "If you feel dizzy, go back to breathing at your normal pace.",
+  "exercise.catcow.title": "Cat–Cow",
+  "exercise.catcow.cue": "Alternate rounding and arching the spine, slow and controlled.",
+  "exercise.catcow.contra": "With a herniated disc or acute lower back pain, reduce the range a lot or skip it. If your wrists hurt, rest on fists or forearms.",
+  "exercise.shoulder-rolls.title": "Backward shoulder rolls",
+  "exercise.shoulder-rolls.cue": "Big circles; don't shrug into your neck.",
+  "exercise.shoulder-rolls.contra": "With acute shoulder pain, make small circles or skip it.",
+  "exercise.tspine-rotation.title": "Quadruped thoracic rotation",
+  "exercise.tspine-rotation.cue": "Hand behind your head, rotate to open the chest. Switch sides halfway.",
+  "exercise.tspine-rotation.contra": "Don't force the rotation if your back or shoulder hurts; with wrist discomfort, rest on your forearm.",
+  "exercise.wrist-circles.title": "Wrist circles",
+  "exercise.wrist-circles.cue": "Palms on the floor or in the air; rotate gently both ways.",
+  "exercise.wrist-circles.contra": "With a recent wrist injury or acute carpal tunnel syndrome, do it only in the air without load.",
+  "exercise.scapular-prone.title": "Prone scapular retractions",
+  "exercise.scapular-prone.cue": "Lift the chest slightly and squeeze the shoulder blades; keep the neck relaxed.",
+  "exercise.scapular-prone.contra": "If extending hurts your lower back, don't lift the chest: just squeeze the shoulder blades.",
+  "exercise.low-plank.title": "Forearm plank",
+  "exercise.low-plank.cue": "Hips in line; abs and glutes engaged; don't let the lower back sag.",
+  "exercise.low-plank.contra": "With lower back or shoulder pain, or postpartum with diastasis, use the plank on knees.",
+  "exercise.bird-dog.title": "Bird Dog",
+  "exercise.bird-dog.cue": "Extend opposite arm and leg; stable pelvis; one side, then the other.",
+  "exercise.bird-dog.contra": "If your knees complain, put a towel under them; with lower back pain, extend only the leg or only the arm.",
+  "exercise.glute-bridge.title": "Glute bridge (modified)",
+  "exercise.glute-bridge.cue": "Lift the hips without arching the lower back; squeeze the glutes at the top.",
+  "exercise.glute-bridge.contra": "If your lower back hurts, lift less (short bridge) and squeeze the glutes before lifting.",
+  "exercise.wrist-pushups.title": "Gentle wrist push-ups (on knees)",
+  "exercise.wrist-pushups.cue": "Hands forward, then backward; comfortable range.",
+  "exercise.wrist-pushups.contra": "With wrist pain or injury, swap it for wall push-ups or rest on your fists.",
+  "exercise.door-pec.title": "Doorway chest stretch",
+  "exercise.door-pec.cue": "Arm on the wall, turn the torso until you feel the chest open.",
+  "exercise.door-pec.contra": "With shoulder instability or a previous dislocation, keep the arm below shoulder height.",
+  "exercise.upper-trap.title": "Upper trapezius stretch",
+  "exercise.upper-trap.cue": "Ear to shoulder, opposite shoulder drops; breathe.",
+  "exercise.upper-trap.contra": "Don't pull on your head; skip it with tingling in the arm or a recent neck injury.",
+  "exercise.child-pose.title": "Child's pose",
+  "exercise.child-pose.cue": "Hips to heels; lengthen the spine, shoulders relaxed.",
+  "exercise.child-pose.contra": "With knee pain, put a cushion between glutes and heels; during pregnancy, spread the knees.",
+  "exercise.wrist-stretch-flex.title": "Wrist flexor stretch",
+  "exercise.wrist-stretch-flex.cue": "Palm down, gently pull the fingers toward you.",
+  "exercise.wrist-stretch-flex.contra": "Stretch without pain; skip it with a recent wrist or elbow injury.",
+  "exercise.wrist-stretch-ext.title": "Wrist extensor stretch",
+  "exercise.wrist-stretch-ext.cue": "Palm up, gently pull the fingers toward you.",
+  "exercise.wrist-stretch-ext.contra": "Stretch without pain; skip it with a recent wrist or elbow injury.",
+  "exercise.knee-plank.title": "Plank on knees",
+  "exercise.knee-plank.cue": "Forearms and knees on the floor; straight line from shoulders to knees, abs engaged.",
+  "exercise.knee-plank.contra": "If your knees complain, rest them on a folded towel.",
+  "exercise.short-bridge.title": "Short isometric bridge",
+  "exercise.short-bridge.cue": "Lift the hips just a few centimetres and hold; neutral lower back, glutes squeezed.",
+  "exercise.short-bridge.contra": "Stop if lower back pain appears; keep the pelvis neutral.",
+  "exercise.wall-pushups.title": "Wall push-ups",
+  "exercise.wall-pushups.cue": "Hands on the wall at chest height; pain-free wrists, body in one piece.",
+  "exercise.wall-pushups.contra": "If your wrists still complain, rest your forearms on the wall.",
+};
+
+export default en;
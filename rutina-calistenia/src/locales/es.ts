@@ -0,0 +1,511 @@
+// ===== Español (diccionario de referencia) =====
+// Las claves nuevas se añaden aquí primero; el tipo `Messages` obliga a traducirlas en los demás idiomas.
+export default {
+  // --- Cabecera y pantalla de inicio
+  "app.title": "Rutina Calistenia — {min} min",
+  "app.subtitle": "Postura, core y muñecas • Sin equipo • Diseñada para largas horas de programación",
+  "app.footer": "Hecho con 💚 para postura, espalda y muñecas felices. — 5–6 días/semana.",
+  "nav.routines": "Rutinas",
+  "nav.audio": "Sonido y voz",
+  "nav.history": "Historial",
+  "nav.mute": "Silenciar (M)",
+  "nav.fullscreen": "Pantalla completa (F)",
+  "nav.pip": "Temporizador flotante (siempre visible)",
+  "nav.pipClose": "Cerrar el temporizador flotante",
+  "nav.language": "Idioma",
+  "nav.settings": "Ajustes",
+  "nav.library": "Ejercicios",
+  "nav.planner": "Plan semanal",
+  "nav.plans": "Planes de entrenamiento",
+  "nav.profiles": "Perfiles",
+  "nav.intervals": "Intervalos",
+  "common.back": "Volver",
+  "common.up": "Subir",
+  "common.down": "Bajar",
+  "progress.label": "Progreso de la sesión",
+  "progress.seek": "Haz clic para saltar a ese punto",
+  "wake.active": "Pantalla encendida",
+  "wake.activeTitle": "La pantalla no se apagará mientras la sesión esté en marcha",
+  "wake.unsupported": "Puede apagarse",
+  "wake.unsupportedTitle": "Este navegador no permite mantener la pantalla encendida",
+  "resume.title": "Tienes una sesión sin terminar",
+  "resume.detail": "{routine} • paso {step}/{total} ({title}) • quedan {left}",
+  "resume.resume": "Reanudar",
+  "resume.discard": "Descartar",
+  "start.title": "Listo para empezar",
+  "start.intro": "{min} minutos guiados. Presiona {key} o Iniciar.",
+  "start.introFullscreen": "Entraremos en pantalla completa.",
+  "start.spaceKey": "Espacio",
+  "start.structure": "Estructura",
+  "start.shortcuts": "Atajos",
+  "start.shortcutsText": "Espacio: Play/Pause • ←/→: Anterior/Siguiente • Shift+→: Siguiente fase • +/−: ±15 s • Enter: Hecho (reps) • R: Reiniciar • F: Fullscreen • M: Mute",
+  "start.safety": "Seguridad",
+  "start.safetyText": "Muñecas y lumbar protegidas. Rango cómodo y respiración fluida.",
+  "start.start": "Iniciar",
+  "start.fullscreen": "Pantalla completa",
+
+  // --- Ajustes
+  "settings.session": "Sesión",
+  "settings.scale": "Multiplicador de duración",
+  "settings.scaleOption": "{n}× (~{min} min)",
+  "settings.defaultRounds": "Rondas de fuerza en rutinas nuevas",
+  "settings.resumeWindow": "Ofrecer reanudar una sesión durante (min)",
+  "settings.behaviour": "Comportamiento",
+  "settings.autoFullscreen": "Pantalla completa al iniciar",
+  "settings.keepAwake": "Mantener la pantalla encendida",
+  "settings.autoAdvance": "Pasar solo al siguiente paso",
+  "settings.autoAdvanceHint": "Si lo desactivas, al acabar cada ejercicio con tiempo la sesión se pausa hasta que pulses Reanudar.",
+  "settings.theme": "Tema",
+  "settings.theme.dark": "Oscuro",
+  "settings.theme.light": "Claro",
+  "settings.theme.system": "Según el sistema",
+  "reminder.settings": "Pausas activas en la jornada",
+  "reminder.settingsHint": "Con la app abierta (aunque sea en otra pestaña), te avisa para hacer una micro-rutina de ~2 min de hombros, pecho y muñecas.",
+  "reminder.enabled": "Recordarme hacer una pausa",
+  "reminder.noPermission": "Sin permiso de notificaciones: el aviso solo aparecerá dentro de la app.",
+  "reminder.denied": "Las notificaciones están bloqueadas para este sitio: el aviso solo aparecerá dentro de la app.",
+  "reminder.unsupported": "Este navegador no admite notificaciones: el aviso solo aparecerá dentro de la app.",
+  "reminder.interval": "Frecuencia",
+  "reminder.everyMin": "Cada {n} min",
+  "reminder.from": "Desde",
+  "reminder.to": "Hasta",
+  "reminder.snooze": "Posponer",
+  "reminder.minutes": "{n} min",
+  "reminder.lastWeek": "Últimos 7 días:",
+  "reminder.stat.shown.one": "{n} aviso",
+  "reminder.stat.shown.other": "{n} avisos",
+  "reminder.stat.started.one": "{n} hecha",
+  "reminder.stat.started.other": "{n} hechas",
+  "reminder.stat.snoozed.one": "{n} pospuesta",
+  "reminder.stat.snoozed.other": "{n} pospuestas",
+  "reminder.stat.skipped.one": "{n} saltada",
+  "reminder.stat.skipped.other": "{n} saltadas",
+  "reminder.title": "Hora de una pausa activa",
+  "reminder.body": "2 minutos: hombros, pecho y muñecas. Pulsa para empezar.",
+  "reminder.routineName": "Pausa activa — 2 min",
+  "reminder.start": "Empezar",
+  "reminder.later": "Posponer {n} min",
+  "reminder.skip": "Ahora no",
+  "reminder.active": "Micro-rutina de pausa activa.",
+  "reminder.backToRoutine": "Volver a mi rutina",
+  "plan.intro": "Asigna rutinas a días y horas y expórtalas a tu calendario como eventos semanales.",
+  "plan.days": "{n} días planificados (objetivo: {min}–{max}).",
+  "plan.rest": "Descanso",
+  "plan.missing": "(rutina eliminada)",
+  "plan.minutes": "~{n} min",
+  "plan.add": "Añadir sesión",
+  "plan.remove": "Quitar",
+  "plan.export": "Exportar a calendario (.ics)",
+  "plan.exportHint": "Si vuelves a importarlo, el calendario actualiza los mismos eventos en vez de duplicarlos.",
+  "plan.calendarName": "Rutina Calistenia",
+  "plan.total": "Duración total: ~{min} min",
+  "profile.defaultName": "Yo",
+  "profile.who": "¿Quién entrena?",
+  "profile.manage": "Gestionar perfiles",
+  "profile.intro": "Cada perfil tiene sus propias rutinas, ajustes, historial, plan y recordatorios. Útil si compartes el dispositivo.",
+  "profile.name": "Nombre",
+  "profile.color": "Color del avatar",
+  "profile.color.emerald": "Verde",
+  "profile.color.sky": "Azul",
+  "profile.color.amber": "Ámbar",
+  "profile.color.rose": "Rosa",
+  "profile.color.violet": "Violeta",
+  "profile.color.lime": "Lima",
+  "profile.current": "Perfil actual",
+  "profile.use": "Cambiar a este perfil",
+  "profile.export": "Exportar perfil",
+  "profile.delete": "Borrar perfil",
+  "profile.confirmDelete": "¿Borrar el perfil \"{name}\" y todos sus datos? No se puede deshacer.",
+  "profile.new": "Nuevo perfil",
+  "profile.create": "Crear",
+  "profile.move": "Llevar un perfil a otro dispositivo",
+  "profile.moveHint": "Exporta el perfil con su botón e impórtalo aquí: se añade como perfil nuevo, sin tocar los existentes.",
+  "profile.import": "Importar perfil",
+  "profile.imported": "Perfil \"{name}\" importado.",
+  "profile.importFailed": "No se pudo importar \"{file}\":",
+  "profile.badFile": "El archivo no es un perfil exportado de esta app.",
+
+  // --- Sesión
+  "session.set": "Serie {set}/{sets}",
+  "session.reps": "{n} reps",
+  "session.tempo": "Tempo {tempo}",
+  "session.done": "Hecho",
+  "side.left": "Lado izquierdo",
+  "side.right": "Lado derecho",
+  "image.generic": "Referencia genérica",
+  "image.source": "Fuente: {source}",
+  "controls.prev": "Anterior",
+  "controls.prevTitle": "Anterior (←)",
+  "controls.pause": "Pausar",
+  "controls.resume": "Reanudar",
+  "controls.next": "Siguiente",
+  "controls.nextTitle": "Siguiente (→)",
+  "controls.startNow": "Empezar ya",
+  "controls.minus15": "Quitar 15 s (−)",
+  "controls.plus15": "Añadir 15 s (+)",
+  "controls.phase": "Fase",
+  "controls.phaseTitle": "Siguiente fase (Shift+→)",
+  "controls.restart": "Reiniciar",
+  "controls.restartTitle": "Reiniciar (R)",
+  "break.prep": "Prepárate",
+  "break.set": "Descanso entre series",
+  "break.round": "Descanso entre rondas",
+  "break.phase": "Descanso entre fases",
+  "break.interval": "Descanso",
+  "break.upNext": "A continuación",
+  "steps.title": "Pasos",
+  "summary.set": "serie {set}/{sets}",
+  "summary.reps": "{reps} reps (~{s}s)",
+  "tips.title": "Tips rápidos",
+  "tips.1": "Respira por la nariz y suelta por la boca; ritmo constante.",
+  "tips.2": "Escápulas atrás y abajo en espalda (abre pecho).",
+  "tips.3": "Si molesta la lumbar: reduce rango y activa abdomen/glúteos.",
+  "tips.4": "Muñecas: rango cómodo; alterna apoyo en palmas/dedos/puños si hace falta.",
+  "tips.5": "Durante el día: 30–60 s de apertura de pecho cada 1–2 h.",
+
+  // --- Check-ins y sugerencias
+  "checkin.title": "¿Cómo ha ido?",
+  "checkin.intro": "Puntúa el esfuerzo de cada ejercicio de fuerza (RPE: 1 muy fácil, 10 máximo) y marca dónde notaste molestias.",
+  "checkin.rpe": "Esfuerzo: {n}/10",
+  "checkin.pain": "Molestias",
+  "checkin.save": "Guardar",
+  "checkin.skip": "Omitir",
+  "area.wrists": "Muñecas",
+  "area.lowerBack": "Lumbar",
+  "area.shoulders": "Hombros",
+  "area.neck": "Cuello",
+  "area.knees": "Rodillas",
+  "area.upperBack": "Espalda alta",
+  "area.chest": "Pecho",
+  "area.hips": "Cadera",
+  "pain.warning": "La última vez notaste molestias en: {areas}. Reduce el rango y para si vuelve.",
+  "suggest.title": "Sugerencias según tus check-ins",
+  "suggest.longer": "{title}: te está resultando fácil; alárgalo un poco.",
+  "suggest.shorter": "{title}: te está costando mucho; acórtalo un poco.",
+  "suggest.regress": "{title}: cámbialo por {to}, una versión más suave.",
+  "suggest.extraRound": "Todo te resultó fácil: añade una ronda de fuerza.",
+  "suggest.apply": "Aplicar",
+  "suggest.dismiss": "Ahora no",
+
+  // --- Catálogo de ejercicios
+  "library.search": "Buscar ejercicio…",
+  "library.allTags": "Todos",
+  "library.allAreas": "Todas las zonas",
+  "library.anyEquipment": "Cualquier material",
+  "library.count.one": "{n} ejercicio",
+  "library.count.other": "{n} ejercicios",
+  "library.none": "Ningún ejercicio coincide con la búsqueda.",
+  "library.custom": "Importado",
+  "library.duration": "Duración",
+  "library.areas": "Zonas",
+  "library.equipment": "Material",
+  "library.sides": "Lados",
+  "sides.split": "Cambia de lado a mitad",
+  "sides.steps": "Un paso por lado",
+  "library.variants": "Variantes",
+  "library.contra": "Contraindicaciones",
+  "library.noContra": "Sin contraindicaciones indicadas; para si notas dolor.",
+  "tag.wrists": "Muñecas",
+  "tag.posture": "Postura",
+  "tag.core": "Core",
+  "tag.mobility": "Movilidad",
+  "tag.stretch": "Estiramiento",
+  "equipment.none": "Sin material",
+  "equipment.mat": "Esterilla",
+  "equipment.wall": "Pared",
+  "equipment.door": "Marco de puerta",
+
+  // --- Fases y rutinas
+  "phase.warmup": "Calentamiento",
+  "phase.strength": "Fuerza",
+  "phase.cooldown": "Estiramientos",
+  "routine.phaseSummary": "{min} min {phase}",
+  "routine.rounds.one": "({n} ronda)",
+  "routine.rounds.other": "({n} rondas)",
+  "routine.new": "Nueva rutina",
+  "routine.copy": "{name} (copia)",
+  "routine.imported": "Rutina importada",
+  "routine.importedN": "Rutina importada {n}",
+
+  // --- Intervalos (Tabata, EMOM, AMRAP)
+  "interval.tabata": "Tabata",
+  "interval.emom": "EMOM",
+  "interval.amrap": "AMRAP",
+  "interval.custom": "Intervalos",
+  "interval.work": "Trabajo",
+  "interval.round": "Ronda {round}/{rounds}",
+  "interval.amrapRounds.one": "{n} vuelta",
+  "interval.amrapRounds.other": "{n} vueltas",
+  "interval.roundPlus": "Vuelta completa",
+  "interval.roundMinus": "Quitar una vuelta",
+  "interval.circuit": "Circuito",
+  "interval.exercises.one": "{n} ejercicio",
+  "interval.exercises.other": "{n} ejercicios",
+  "interval.emomTarget": "{n} reps y descansa hasta el siguiente minuto",
+  "interval.routineName": "{format} — {min} min",
+  "interval.pick": "Ejercicios",
+  "interval.pickHint": "Se hacen en el orden en que los marcas y se repiten hasta completar las rondas.",
+  "interval.bookends": "Con el calentamiento y los estiramientos de la rutina original",
+  "interval.save": "Guardar como rutina",
+  "interval.total": "~{min} min en total",
+  "interval.noExercises": "Elige al menos un ejercicio.",
+
+  // --- Planes de varias semanas
+  "plans.intro": "Programas de varias semanas: cada semana ajusta tiempos, rondas o variantes, y cada día se elige solo la sesión que toca. Se avanza al completar sesiones, no por calendario.",
+  "plans.position": "Semana {week} · Día {day}",
+  "plans.progress": "{done}/{total} sesiones",
+  "plans.next": "Siguiente: {position}",
+  "plans.notStarted": "Sin empezar",
+  "plans.done": "Plan completado",
+  "plans.finished": "¡Has completado \"{name}\"!",
+  "plans.weekN": "Semana {n}",
+  "plans.weeks.one": "{n} semana",
+  "plans.weeks.other": "{n} semanas",
+  "plans.days.one": "{n} día",
+  "plans.days.other": "{n} días",
+  "plans.count.one": "{n} plan",
+  "plans.count.other": "{n} planes",
+  "plans.week.scale": "{n} % del tiempo",
+  "plans.week.rounds": "+{n} ronda(s) de fuerza",
+  "plans.week.base": "Rutina base",
+  "plans.start": "Empezar",
+  "plans.continue": "Continuar",
+  "plans.leave": "Dejar en pausa",
+  "plans.manage": "Ver planes",
+  "plans.reset": "Reiniciar",
+  "plans.restart": "Empezar de nuevo",
+  "plans.confirmReset": "¿Reiniciar el progreso de \"{name}\"? Se vuelve a la semana 1.",
+  "plans.delete": "Eliminar plan",
+  "plans.confirmDelete": "¿Eliminar el plan \"{name}\" y su progreso?",
+  "plans.export": "Exportar",
+  "plans.import": "Importar un plan",
+  "plans.importHint": "Mismo archivo JSON que las rutinas, con una lista `plans` (ver docs/formato-json.md).",
+  "plans.imported": "Importado \"{file}\": {plans}.",
+  "plans.importedN": "Plan importado {n}",
+  "plans.builtin.postureWrists.name": "Postura y muñecas — 6 semanas",
+  "plans.builtin.postureWrists.description": "La rutina original cinco días por semana: empieza con las regresiones y menos tiempo, pasa a la versión completa y termina con una ronda más de fuerza.",
+
+  // --- Editor de rutinas
+  "editor.inUse": "En uso",
+  "editor.use": "Usar esta rutina",
+  "editor.duplicate": "Duplicar",
+  "editor.delete": "Eliminar",
+  "editor.remove": "Quitar",
+  "editor.share": "Compartir",
+  "editor.shareHint": "Exporta a JSON o arrastra aquí un archivo para importarlo.",
+  "editor.exportOne": "Esta rutina",
+  "editor.exportAll": "Todo",
+  "editor.exportAllFile": "rutinas",
+  "editor.import": "Importar…",
+  "editor.importFailed": "No se pudo importar \"{file}\":",
+  "editor.imported": "Importado \"{file}\": {routines} rutina(s), {exercises} ejercicio(s).",
+  "editor.importedPlans": "También: {plans}.",
+  "editor.name": "Nombre",
+  "editor.empty": "Rutina vacía: añade al menos un ejercicio para poder usarla.",
+  "editor.rounds": "Rondas",
+  "editor.add": "Añadir",
+  "editor.transition.prep": "Prepárate antes de cada ejercicio",
+  "editor.transition.roundRest": "Descanso entre rondas",
+  "editor.transition.phaseRest": "Descanso entre fases",
+  "editor.mode.time": "Tiempo",
+  "editor.mode.reps": "Reps",
+  "editor.mode.sets": "Series",
+  "editor.sets": "Series",
+  "editor.reps": "Repeticiones",
+  "editor.tempo": "Tempo, p. ej. 2-1-2 (segundos por fase)",
+  "editor.restBetweenSets": "Descanso entre series",
+  "editor.restUnit": "s desc.",
+  "editor.format": "Formato de la fase",
+  "editor.format.rounds": "Rondas",
+  "editor.interval.tabata": "20 s de trabajo y 10 s de descanso, 8 rondas, rotando los ejercicios.",
+  "editor.interval.emom": "Al empezar cada minuto, las repeticiones del ejercicio; lo que sobra del minuto es descanso.",
+  "editor.interval.amrap": "Tantas vueltas al circuito como puedas en el tiempo fijado; anótalas con +1.",
+  "editor.interval.custom": "Tus propios tiempos de trabajo y descanso, rotando los ejercicios.",
+  "editor.interval.duration": "Duración",
+  "editor.interval.every": "Cada",
+  "editor.interval.work": "Trabajo",
+  "editor.interval.rest": "Descanso",
+
+  // --- Historial
+  "history.streak": "Racha actual",
+  "history.longest": "Racha más larga",
+  "history.days.one": "{n} día",
+  "history.days.other": "{n} días",
+  "history.week": "Esta semana",
+  "history.goalMet": "Meta cumplida 💚",
+  "history.goalLeft": "Faltan {n}",
+  "history.sessions": "Sesiones",
+  "history.sessionsOnDay.one": "{n} sesión",
+  "history.sessionsOnDay.other": "{n} sesiones",
+  "history.weekdays": "L,M,X,J,V,S,D",
+  "history.complete": "Completa",
+  "history.partial": "Parcial",
+  "history.incomplete": "Incompleta",
+  "history.byExercise": "Por ejercicio",
+  "history.none": "Todavía no hay sesiones registradas.",
+  "history.done": "{n} hechos",
+  "history.skipped": "{n} saltados",
+  "history.recent": "Recientes",
+  "history.steps": "{done}/{total} pasos",
+  "history.paused": "{n} min en pausa",
+  "history.rpe": "RPE {n}",
+
+  // --- Fin de sesión
+  "finish.title": "¡Sesión completada!",
+  "finish.titlePartial": "Sesión terminada",
+  "finish.brand": "Rutina Calistenia",
+  "finish.active": "Tiempo activo",
+  "finish.activeOf": "de ~{planned} previstos",
+  "finish.paused": "En pausa",
+  "finish.pauses.one": "{n} pausa",
+  "finish.pauses.other": "{n} pausas",
+  "finish.noPauses": "Sin pausas",
+  "finish.streak": "Racha de {days}",
+  "finish.streakRecord": "Racha de {days}: ¡tu récord!",
+  "finish.weekMet": "{n} días esta semana: meta cumplida",
+  "finish.weekLeft": "{n} días esta semana, faltan {left} para la meta",
+  "finish.done": "{done}/{total} hechos",
+  "finish.missed": "{n} sin hacer",
+  "finish.complete": "Sesión completa",
+  "finish.createCard": "Crear imagen para compartir",
+  "finish.cardAlt": "Tarjeta con el resumen de la sesión",
+  "finish.cardFailed": "No se pudo crear la imagen en este navegador.",
+  "finish.download": "Descargar PNG",
+  "finish.share": "Compartir",
+  "finish.copy": "Copiar imagen",
+  "finish.copied": "Copiada",
+  "finish.close": "Hecho",
+
+  // --- Sonido y voz
+  "audio.muted": "Silenciado (M): no sonará nada hasta quitar el silencio.",
+  "audio.sounds": "Sonidos",
+  "audio.pack": "Paquete",
+  "audio.volume": "Volumen: {n}%",
+  "audio.test": "Probar",
+  "sound.pack.clasico": "Clásico",
+  "sound.pack.suave": "Suave",
+  "sound.pack.campana": "Campana",
+  "sound.cue.tick": "Últimos 3 segundos",
+  "sound.cue.step": "Cambio de paso",
+  "sound.cue.phase": "Cambio de fase",
+  "sound.cue.half": "Mitad del ejercicio",
+  "sound.cue.side": "Cambio de lado",
+  "sound.cue.end": "Sesión completada",
+  "voice.title": "Voz",
+  "voice.unsupported": "Este navegador no soporta síntesis de voz.",
+  "voice.enabled": "Entrenador por voz",
+  "voice.lang": "Idioma de la voz",
+  "voice.voice": "Voz",
+  "voice.systemDefault": "Predeterminada del sistema",
+  "voice.rate": "Velocidad: {n}×",
+  "voice.announcements": "Anuncios",
+  "voice.announce.step": "Nombre del ejercicio al empezar",
+  "voice.announce.cue": "Indicación técnica",
+  "voice.announce.time": "Aviso de 30 y 10 segundos",
+  "voice.announce.countdown": "Cuenta atrás 3-2-1",
+  "voice.announce.phase": "Cambio de fase",
+  "voice.announce.end": "Fin de la sesión",
+  "say.phase": "Fase de {phase}",
+  "say.prep": "Prepárate: {title}",
+  "say.rest": "Descanso. Siguiente: {title}",
+  "say.set": "{title}, serie {set} de {sets}",
+  "say.reps": "{n} repeticiones",
+  "say.side": "Cambia de lado. {side}",
+  "say.round": "Ronda {round} de {rounds}",
+  "say.circuit": "AMRAP de {min} minutos: el circuito tantas veces como puedas",
+  "say.seconds": "{n} segundos",
+  "say.end": "Sesión completada. ¡Buen trabajo!",
+
+  // --- Importación (src/schema.ts)
+  "import.invalidJson": "No es un JSON válido: {message}",
+  "import.notObject": "El archivo debe contener un objeto JSON.",
+  "import.badVersion": "Falta `version` o no es un entero positivo.",
+  "import.newerVersion": "El archivo usa la versión {version} del formato; esta app solo entiende hasta la {supported}. Actualiza la app.",
+  "import.badFormat": "`format` debe ser \"{format}\".",
+  "import.mustBeList": "`{field}` debe ser una lista.",
+  "import.mustBeObject": "{at}: debe ser un objeto.",
+  "import.missing": "{at}: falta `{field}`.",
+  "import.duplicateKey": "{at}: `key` duplicado en el archivo.",
+  "import.badDuration": "{at}: `duration` debe ser un número de segundos mayor que 0 (recibido: {value}).",
+  "import.mustBeText": "{at}: `{field}` debe ser texto.",
+  "import.noAnimation": "{at}: no hay animación (ExerciseAnimation) para \"{animation}\". Indica `animation` con una de: {options}.",
+  "import.badAnimation": "{at}: `animation` no es una animación válida: necesita `frames` (poses con las articulaciones obligatorias como [x, y]) y `seconds` > 0. Ver docs/formato-json.md.",
+  "import.builtinSkipped": "\"{key}\" ya existe en el catálogo base; se usa la versión de la app.",
+  "import.phasesList": "{at} (\"{name}\"): `phases` debe ser una lista.",
+  "import.unknownPhase": "{at}: fase desconocida {value}. Usa una de: {options}.",
+  "import.duplicatePhase": "{at}: la fase \"{phase}\" aparece más de una vez.",
+  "import.badRounds": "{at}: `rounds` debe ser un entero mayor que 0.",
+  "import.unknownInterval": "{at}: formato de intervalos desconocido {value}. Usa uno de: {options}.",
+  "import.badInterval": "{at}: `interval` necesita `work` y `rounds` enteros mayores que 0 y `rest` de 0 o más.",
+  "import.itemsList": "{at}: `items` debe ser una lista.",
+  "import.unknownExercise": "{at}: ejercicio desconocido {value}.",
+  "import.badItemDuration": "{at}: `duration` debe ser mayor que 0.",
+  "import.badTransition": "{at}.transitions: `{field}` debe ser un número de segundos ≥ 0.",
+  "import.empty": "El archivo no contiene ejercicios, rutinas ni planes.",
+  "import.unknownMode": "{at}: `mode` desconocido {value}. Usa uno de: {options}.",
+  "import.badInt": "{at}: `{field}` debe ser un entero mayor que 0.",
+  "import.mustBeTextList": "{at}: `{field}` debe ser una lista de textos.",
+  "import.unknownValues": "{at}: valores desconocidos en `{field}`: {value}. Usa: {options}.",
+  "import.badRest": "{at}: `rest` debe ser un número de segundos ≥ 0.",
+  "import.badDaysPerWeek": "{at}: `daysPerWeek` debe ser un entero de 1 a 7.",
+  "import.planRoutines": "{at}: `routines` debe ser una lista con al menos una rutina.",
+  "import.planWeeks": "{at}: `weeks` debe ser una lista con al menos una semana.",
+  "import.badScale": "{at}: `scale` debe ser un número mayor que 0.",
+  "import.badExtraRounds": "{at}: `extraRounds` debe ser un entero ≥ 0.",
+
+  // --- Ejercicios base (src/exercises.ts): "exercise.<key>.title" / "exercise.<key>.cue"
+  "exercise.breathing.title": "Respiración diafragmática y apertura de pecho",
+  "exercise.breathing.cue": "Respira 5× profundo; hombros atrás, costillas se expanden.",
+  "exercise.breathing.contra": "Si te mareas, vuelve a respirar a tu ritmo normal.",
+  "exercise.catcow.title": "Cat–Cow (Gato–Vaca)",
+  "exercise.catcow.cue": "Alterna redondear y extender la columna, lento y controlado.",
+  "exercise.catcow.contra": "Con hernia discal o dolor lumbar agudo, reduce mucho el rango o evítalo. Si duelen las muñecas, apóyate en puños o antebrazos.",
+  "exercise.shoulder-rolls.title": "Rotaciones de hombros hacia atrás",
+  "exercise.shoulder-rolls.cue": "Movimientos amplios; evita encoger cuello.",
+  "exercise.shoulder-rolls.contra": "Con dolor agudo de hombro, haz círculos pequeños o déjalo.",
+  "exercise.tspine-rotation.title": "Movilidad torácica en 4 apoyos",
+  "exercise.tspine-rotation.cue": "Mano detrás de la cabeza, rota abriendo el pecho. Cambia de lado a mitad.",
+  "exercise.tspine-rotation.contra": "Evita forzar la rotación si hay dolor de espalda o de hombro; con molestias de muñeca, apoya el antebrazo.",
+  "exercise.wrist-circles.title": "Círculos de muñeca",
+  "exercise.wrist-circles.cue": "Palmas al suelo o en el aire; gira suave ambos sentidos.",
+  "exercise.wrist-circles.contra": "Con lesión reciente de muñeca o síndrome del túnel carpiano agudo, hazlo solo en el aire y sin carga.",
+  "exercise.scapular-prone.title": "Retracciones escapulares (boca abajo)",
+  "exercise.scapular-prone.cue": "Levanta pecho levemente y junta escápulas; no tenses cuello.",
+  "exercise.scapular-prone.contra": "Con dolor lumbar al extender, no eleves el pecho: solo junta las escápulas.",
+  "exercise.low-plank.title": "Plancha baja",
+  "exercise.low-plank.cue": "Cadera alineada; abdomen y glúteos activos; no hundas la lumbar.",
+  "exercise.low-plank.contra": "Con dolor lumbar o de hombro, o en el posparto con diástasis, usa la plancha con rodillas apoyadas.",
+  "exercise.bird-dog.title": "Bird Dog",
+  "exercise.bird-dog.cue": "Extiende brazo y pierna contrarios; pelvis estable; primero un lado y luego el otro.",
+  "exercise.bird-dog.contra": "Si molestan las rodillas, pon una toalla debajo; con dolor lumbar, extiende solo la pierna o solo el brazo.",
+  "exercise.glute-bridge.title": "Puente de glúteo (modificado)",
+  "exercise.glute-bridge.cue": "Sube cadera sin arquear lumbar; aprieta glúteos arriba.",
+  "exercise.glute-bridge.contra": "Si duele la zona lumbar, sube menos (puente corto) y aprieta glúteos antes de elevar.",
+  "exercise.wrist-pushups.title": "Wrist push-ups suaves (en rodillas)",
+  "exercise.wrist-pushups.cue": "Manos hacia adelante y luego hacia atrás; rango cómodo.",
+  "exercise.wrist-pushups.contra": "Con dolor o lesión de muñeca, cámbialo por flexiones en pared o apóyate en puños.",
+  "exercise.door-pec.title": "Estiramiento de pectoral (pared/puerta)",
+  "exercise.door-pec.cue": "Brazo en pared, gira el torso hasta sentir apertura.",
+  "exercise.door-pec.contra": "Con inestabilidad o luxación previa de hombro, baja el brazo por debajo de la altura del hombro.",
+  "exercise.upper-trap.title": "Estiramiento trapecio superior",
+  "exercise.upper-trap.cue": "Oreja al hombro, hombro contrario desciende; respira.",
+  "exercise.upper-trap.contra": "No tires de la cabeza; evítalo con hormigueo en el brazo o lesión cervical reciente.",
+  "exercise.child-pose.title": "Postura del niño",
+  "exercise.child-pose.cue": "Caderas a talones; alarga columna, hombros relajados.",
+  "exercise.child-pose.contra": "Con dolor de rodilla, pon un cojín entre glúteos y talones; en el embarazo, separa las rodillas.",
+  "exercise.wrist-stretch-flex.title": "Estiramiento flexores de muñeca",
+  "exercise.wrist-stretch-flex.cue": "Palma hacia abajo, tira de dedos hacia ti, suave.",
+  "exercise.wrist-stretch-flex.contra": "Estira sin dolor; evítalo con lesión reciente de muñeca o codo.",
+  "exercise.wrist-stretch-ext.title": "Estiramiento extensores de muñeca",
+  "exercise.wrist-stretch-ext.cue": "Palma hacia arriba, tira de dedos hacia ti, suave.",
+  "exercise.wrist-stretch-ext.contra": "Estira sin dolor; evítalo con lesión reciente de muñeca o codo.",
+  "exercise.knee-plank.title": "Plancha con rodillas apoyadas",
+  "exercise.knee-plank.cue": "Antebrazos y rodillas en el suelo; línea recta de hombros a rodillas, abdomen activo.",
+  "exercise.knee-plank.contra": "Si molestan las rodillas, apóyalas sobre una toalla doblada.",
+  "exercise.short-bridge.title": "Puente corto isométrico",
+  "exercise.short-bridge.cue": "Eleva la cadera solo unos centímetros y mantén; lumbar neutra, glúteos apretados.",
+  "exercise.short-bridge.contra": "Para si aparece dolor lumbar; mantén la pelvis neutra.",
+  "exercise.wall-pushups.title": "Flexiones en pared",
+  "exercise.wall-pushups.cue": "Manos en la pared a la altura del pecho; muñecas sin dolor, cuerpo en bloque.",
+  "exercise.wall-pushups.contra": "Si aún molestan las muñecas, apoya los antebrazos en la pared.",
+};
@@ -0,0 +1,145 @@
+// ===== Temporizador flotante (Picture-in-Picture) =====
+// Con Document Picture-in-Picture (Chrome/Edge) la mini-ventana es HTML normal: se le copian los
+// estilos y React pinta en ella con un portal. Si no existe, se dibuja en un canvas que se emite
+// como vídeo y se abre en el PiP de vídeo; sus botones llegan por la Media Session API.
+export type PipTone = "work" | "interval" | "prep" | "rest";
+
+// Lo que enseña la mini-ventana; `progress` es la fracción hecha del paso (0–1)
+export interface PipView {
+  title: string;
+  detail: string;
+  time: string;
+  progress: number;
+  running: boolean;
+  open: boolean; // paso de repeticiones: "Siguiente" es "Hecho"
+  tone: PipTone;
+}
+
+export type PipTarget =
+  | { kind: "document"; window: Window }
+  | { kind: "video"; video: HTMLVideoElement; canvas: HTMLCanvasElement };
+
+// Aún no está en lib.dom
+interface DocumentPip { requestWindow(options?: { width?: number; height?: number }): Promise<Window> }
+const documentPip = () => (window as unknown as { documentPictureInPicture?: DocumentPip }).documentPictureInPicture;
+
+const videoPipSupported = () =>
+  typeof document !== "undefined" && document.pictureInPictureEnabled && "captureStream" in HTMLCanvasElement.prototype;
+
+export const pipSupported = () => typeof window !== "undefined" && (!!documentPip() || videoPipSupported());
+
+// Hay que llamarla desde un gesto del usuario (clic)
+export async function openPip(onClose: () => void): Promise<PipTarget> {
+  const api = documentPip();
+  if (api) {
+    const win = await api.requestWindow({ width: 300, height: 340 });
+    copyStyles(win.document);
+    win.addEventListener("pagehide", onClose, { once: true });
+    return { kind: "document", window: win };
+  }
+  const canvas = document.createElement("canvas");
+  canvas.width = VIDEO.w;
+  canvas.height = VIDEO.h;
+  canvas.getContext("2d")!.fillRect(0, 0, VIDEO.w, VIDEO.h); // un primer fotograma para que el vídeo arranque
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = canvas.captureStream();
+  await video.play();
+  await video.requestPictureInPicture();
+  video.addEventListener("leavepictureinpicture", onClose, { once: true });
+  return { kind: "video", video, canvas };
+}
+
+export function closePip(target: PipTarget) {
+  if (target.kind === "document") target.window.close();
+  else {
+    if (document.pictureInPictureElement === target.video) document.exitPictureInPicture().catch(() => {});
+    target.video.srcObject = null;
+  }
+}
+
+// Hojas de estilo de la página (Tailwind incluido) y tema claro/oscuro
+function copyStyles(doc: Document) {
+  for (const sheet of Array.from(document.styleSheets)) {
+    try {
+      const style = doc.createElement("style");
+      style.textContent = Array.from(sheet.cssRules).map((r) => r.cssText).join("\n");
+      doc.head.appendChild(style);
+    } catch {
+      // Hoja de otro origen: no se pueden leer sus reglas, se enlaza
+      if (!sheet.href) continue;
+      const link = doc.createElement("link");
+      link.rel = "stylesheet";
+      link.href = sheet.href;
+      doc.head.appendChild(link);
+    }
+  }
+  doc.documentElement.dataset.theme = document.documentElement.dataset.theme;
+  doc.title = document.title;
+}
+
+// ===== Fotograma del PiP de vídeo =====
+const VIDEO = { w: 480, h: 270 };
+const COLORS = { bg: "#022c22", text: "#ecfdf5", dim: "#a7f3d0", track: "rgba(236,253,245,0.15)" };
+export const TONE_COLOR: Record<PipTone, string> = { work: "#34d399", interval: "#fb7185", prep: "#38bdf8", rest: "#fbbf24" };
+const FONT = "system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif";
+
+export function drawPipFrame(canvas: HTMLCanvasElement, view: PipView) {
+  const { w, h } = VIDEO;
+  const ctx = canvas.getContext("2d")!;
+  ctx.fillStyle = COLORS.bg;
+  ctx.fillRect(0, 0, w, h);
+
+  // Anillo de progreso del paso con el tiempo dentro
+  const cx = 130, cy = h / 2, r = 95;
+  ctx.lineWidth = 16;
+  ctx.lineCap = "round";
+  ctx.strokeStyle = COLORS.track;
+  ctx.beginPath();
+  ctx.arc(cx, cy, r, 0, Math.PI * 2);
+  ctx.stroke();
+  if (view.progress > 0) {
+    ctx.strokeStyle = TONE_COLOR[view.tone];
+    ctx.beginPath();
+    ctx.arc(cx, cy, r, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * Math.min(1, view.progress));
+    ctx.stroke();
+  }
+  ctx.fillStyle = COLORS.text;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.font = `bold ${view.time.length > 5 ? 30 : 48}px ${FONT}`;
+  ctx.fillText(view.time, cx, cy, r * 1.6);
+
+  // Ejercicio y estado
+  const x = 250, max = w - x - 20;
+  ctx.textAlign = "left";
+  ctx.textBaseline = "alphabetic";
+  ctx.fillStyle = TONE_COLOR[view.tone];
+  ctx.font = `600 18px ${FONT}`;
+  ctx.fillText(view.detail, x, 100, max);
+  ctx.fillStyle = COLORS.text;
+  ctx.font = `bold 26px ${FONT}`;
+  wrap(ctx, view.title, max, 2).forEach((line, i) => ctx.fillText(line, x, 140 + i * 32));
+  if (!view.running) {
+    ctx.fillStyle = COLORS.dim;
+    ctx.font = `20px ${FONT}`;
+    ctx.fillText("❚❚", x, 220);
+  }
+}
+
+// Reparte el texto en `lines` líneas como mucho; la última se corta con "…"
+function wrap(ctx: CanvasRenderingContext2D, text: string, max: number, lines: number) {
+  const out: string[] = [];
+  let line = "";
+  for (const word of text.split(" ")) {
+    const next = line ? `${line} ${word}` : word;
+    if (ctx.measureText(next).width <= max || !line) line = next;
+    else { out.push(line); line = word; }
+  }
+  out.push(line);
+  if (out.length <= lines) return out;
+  let last = out.slice(lines - 1).join(" ");
+  while (last && ctx.measureText(last + "…").width > max) last = last.slice(0, -1);
+  return [...out.slice(0, lines - 1), last + "…"];
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { type PlanEntry, planToICS, sortPlan } from "./plan";
+import { DEFAULT_ROUTINE } from "./routines";
+
+// Lunes 19/10/2026 a mediodía (hora local)
+const now = new Date(2026, 9, 19, 12);
+const monday: PlanEntry = { id: "lunes", day: 1, time: "07:30", routineId: DEFAULT_ROUTINE.id };
+const sunday: PlanEntry = { id: "domingo", day: 0, time: "10:00", routineId: DEFAULT_ROUTINE.id };
+const renamed = (name: string) => [{ ...DEFAULT_ROUTINE, name }];
+
+// Deshace el plegado (CRLF + espacio) y devuelve las líneas lógicas
+const unfold = (ics: string) => ics.replace(/\r\n /g, "").split("\r\n");
+
+describe("planToICS", () => {
+  it("un evento semanal por entrada, lunes primero, con hora local flotante", () => {
+    const lines = unfold(planToICS([sunday, monday], [DEFAULT_ROUTINE], 1, now));
+    expect(lines.filter((l) => l.startsWith("RRULE"))).toEqual(["RRULE:FREQ=WEEKLY;BYDAY=MO", "RRULE:FREQ=WEEKLY;BYDAY=SU"]);
+    // Las 7:30 del lunes ya pasaron, pero la primera fecha sigue siendo hoy: la regla repite cada semana
+    expect(lines).toContain("DTSTART:20261019T073000");
+    expect(lines).toContain("DTSTART:20261025T100000");
+    expect(lines).toContain("UID:lunes@rutina-calistenia");
+    expect(lines.at(-1)).toBe("");
+  });
+
+  it("escapa barras, comas, puntos y coma y saltos de línea", () => {
+    const lines = unfold(planToICS([monday], renamed("A, B; C\\D\nE"), 1, now));
+    expect(lines).toContain("SUMMARY:A\\, B\\; C\\\\D\\nE");
+  });
+
+  it("pliega las líneas largas a 75 octetos sin partir caracteres", () => {
+    const name = "Ñ".repeat(80);
+    const ics = planToICS([monday], renamed(name), 1, now);
+    const encoder = new TextEncoder();
+    for (const line of ics.split("\r\n")) expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+    expect(ics).not.toContain("�");
+    expect(unfold(ics)).toContain(`SUMMARY:${name}`);
+  });
+
+  it("omite las entradas de rutinas que ya no existen", () => {
+    expect(planToICS([monday], [], 1, now)).not.toContain("BEGIN:VEVENT");
+  });
+});
+
+describe("sortPlan", () => {
+  it("ordena de lunes a domingo y por hora", () => {
+    const evening = { ...monday, id: "lunes-tarde", time: "19:00" };
+    expect(sortPlan([sunday, evening, monday]).map((e) => e.id)).toEqual(["lunes", "lunes-tarde", "domingo"]);
+  });
+});
@@ -0,0 +1,103 @@
+import { type Routine, type Step, buildProgram, programSeconds, isOpenStep, phaseLabel } from "./routines";
+import { loadJSON, saveJSON, uid } from "./storage";
+import { t, getLocale } from "./i18n";
+
+// ===== Plan semanal =====
+// Cada entrada es una rutina a una hora de un día de la semana (Date.getDay(): 0 = domingo).
+// El `id` se conserva entre exportaciones: es el UID del evento en el calendario.
+export interface PlanEntry { id: string; day: number; time: string; routineId: string }
+
+const PLAN_KEY = "plan";
+export const loadPlan = () => loadJSON<PlanEntry[]>(PLAN_KEY, []);
+export const savePlan = (plan: PlanEntry[]) => saveJSON(PLAN_KEY, plan);
+export const newPlanEntry = (day: number, routineId: string): PlanEntry => ({ id: uid(), day, time: "07:30", routineId });
+
+// Orden de la semana en pantalla y en el archivo: lunes primero
+export const PLAN_DAYS = [1, 2, 3, 4, 5, 6, 0];
+export const sortPlan = (plan: PlanEntry[]) =>
+  [...plan].sort((a, b) => PLAN_DAYS.indexOf(a.day) - PLAN_DAYS.indexOf(b.day) || a.time.localeCompare(b.time));
+
+// Días distintos con algo planificado (para compararlo con el objetivo semanal)
+export const plannedDays = (plan: PlanEntry[]) => new Set(plan.map((e) => e.day)).size;
+
+// ===== Exportación iCalendar (RFC 5545) =====
+// Un VEVENT semanal (RRULE) por entrada, con hora local "flotante" (sin zona: el calendario la
+// pone en la del usuario). La descripción lista los ejercicios del programa compilado.
+const BYDAY = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const UID_DOMAIN = "rutina-calistenia";
+
+const pad = (n: number) => String(n).padStart(2, "0");
+const localStamp = (d: Date) => `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}T${pad(d.getHours())}${pad(d.getMinutes())}00`;
+const utcStamp = (d: Date) => d.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// Texto con \ ; , y saltos de línea escapados
+const escapeText = (s: string) => s.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Líneas de más de 75 octetos se pliegan en CRLF + espacio (sin partir caracteres UTF-8)
+const encoder = new TextEncoder();
+function fold(line: string) {
+  const out: string[] = [];
+  let current = "", size = 0;
+  for (const ch of line) {
+    const n = encoder.encode(ch).length;
+    if (size + n > (out.length ? 74 : 75)) { out.push(current); current = ""; size = 0; }
+    current += ch;
+    size += n;
+  }
+  return [...out, current].join("\r\n ");
+}
+
+// Primera fecha con ese día de la semana y hora, a partir de hoy
+function firstOccurrence(e: PlanEntry, now: Date) {
+  const [h, m] = e.time.split(":").map(Number);
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate() + ((e.day - now.getDay() + 7) % 7), h || 0, m || 0);
+}
+
+function stepLine(s: Step) {
+  const length = isOpenStep(s) ? t("summary.reps", { reps: s.reps ?? 0, s: Math.round(s.duration) }) : `${Math.round(s.duration)}s`;
+  const extra = [s.set != null && t("summary.set", { set: s.set, sets: s.sets ?? s.set }), s.side && t(`side.${s.side}`)].filter(Boolean);
+  return `- ${s.title}: ${length}${extra.length ? ` (${extra.join(", ")})` : ""}`;
+}
+
+// Resumen de la rutina: duración total y ejercicios por fase, en el orden en que se hacen
+export function describeProgram(steps: Step[]) {
+  const lines = [t("plan.total", { min: Math.round(programSeconds(steps) / 60) })];
+  let phase: Step["phase"] | null = null;
+  for (const s of steps) {
+    if (s.kind !== "work") continue;
+    if (s.phase !== phase) { phase = s.phase; lines.push("", `${phaseLabel(s.phase)}:`); }
+    lines.push(stepLine(s));
+  }
+  return lines.join("\n");
+}
+
+export function planToICS(plan: PlanEntry[], routines: Routine[], scale = 1, now = new Date()) {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:-//${UID_DOMAIN}//plan//${getLocale().toUpperCase()}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(t("plan.calendarName"))}`,
+  ];
+  for (const e of sortPlan(plan)) {
+    const routine = routines.find((r) => r.id === e.routineId);
+    if (!routine) continue;
+    const steps = buildProgram(routine, scale);
+    const start = firstOccurrence(e, now);
+    const end = new Date(start.getTime() + Math.max(1, Math.ceil(programSeconds(steps) / 60)) * 60_000);
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${e.id}@${UID_DOMAIN}`,
+      `DTSTAMP:${utcStamp(now)}`,
+      `DTSTART:${localStamp(start)}`,
+      `DTEND:${localStamp(end)}`,
+      `RRULE:FREQ=WEEKLY;BYDAY=${BYDAY[e.day]}`,
+      `SUMMARY:${escapeText(routine.name)}`,
+      `DESCRIPTION:${escapeText(describeProgram(steps))}`,
+      "END:VEVENT",
+    );
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
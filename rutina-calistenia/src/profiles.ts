@@ -0,0 +1,78 @@
+import { DEFAULT_PROFILE_ID, getActiveProfileId, loadJSON, saveJSON, profileEntries, writeProfileEntries, removeProfileData, uid } from "./storage";
+import { t } from "./i18n";
+
+// ===== Perfiles locales =====
+// Varias personas en el mismo dispositivo: cada perfil tiene sus rutinas (y la preferida), ajustes,
+// idioma, historial, check-ins, plan y recordatorios. El aislamiento lo hace storage.ts por prefijo;
+// aquí solo se gestiona la lista (nombre y color del avatar) y el intercambio de un perfil suelto.
+export type ProfileColor = "emerald" | "sky" | "amber" | "rose" | "violet" | "lime";
+export const PROFILE_COLORS: ProfileColor[] = ["emerald", "sky", "amber", "rose", "violet", "lime"];
+// Clases completas para que Tailwind las detecte
+export const AVATAR_CLASS: Record<ProfileColor, string> = {
+  emerald: "bg-emerald-400 text-emerald-950",
+  sky: "bg-sky-400 text-sky-950",
+  amber: "bg-amber-400 text-amber-950",
+  rose: "bg-rose-400 text-rose-950",
+  violet: "bg-violet-400 text-violet-950",
+  lime: "bg-lime-400 text-lime-950",
+};
+
+export interface Profile { id: string; name: string; color: ProfileColor }
+
+const PROFILES_KEY = "profiles";
+const ACTIVE_KEY = "active-profile";
+
+// Sin lista guardada existe solo el perfil inicial (dueño de los datos de siempre)
+export function loadProfiles(): Profile[] {
+  const saved = loadJSON<Profile[]>(PROFILES_KEY, []);
+  return Array.isArray(saved) && saved.length ? saved : [{ id: DEFAULT_PROFILE_ID, name: t("profile.defaultName"), color: "emerald" }];
+}
+export const saveProfiles = (profiles: Profile[]) => saveJSON(PROFILES_KEY, profiles);
+export const activeProfileId = getActiveProfileId;
+
+// Cambiar de perfil recarga la app para que todos los módulos lean los datos del nuevo
+export function switchProfile(id: string) {
+  if (id === getActiveProfileId()) return;
+  saveJSON(ACTIVE_KEY, id);
+  location.reload();
+}
+
+export const newProfile = (name: string, color: ProfileColor): Profile => ({ id: uid(), name, color });
+
+export function deleteProfile(profiles: Profile[], id: string) {
+  if (id === getActiveProfileId()) return profiles;
+  removeProfileData(id);
+  return profiles.filter((p) => p.id !== id);
+}
+
+// ===== Exportar / importar un perfil =====
+// Todos sus datos guardados, tal cual, salvo la foto de la sesión a medias.
+export const PROFILE_FORMAT = "rutina-calistenia-profile";
+const PROFILE_VERSION = 1;
+const NOT_EXPORTED = new Set(["session-snapshot"]);
+
+export interface ProfileFile {
+  format: typeof PROFILE_FORMAT;
+  version: typeof PROFILE_VERSION;
+  profile: { name: string; color: ProfileColor };
+  data: Record<string, unknown>;
+}
+
+export function exportProfile(p: Profile): ProfileFile {
+  const data = Object.fromEntries(profileEntries(p.id).filter(([key]) => !NOT_EXPORTED.has(key)));
+  return { format: PROFILE_FORMAT, version: PROFILE_VERSION, profile: { name: p.name, color: p.color }, data };
+}
+
+// Un perfil importado es siempre nuevo: no pisa a ninguno existente
+export function importProfile(text: string): { ok: true; profile: Profile } | { ok: false; error: string } {
+  let raw: unknown;
+  try { raw = JSON.parse(text); } catch (e) { return { ok: false, error: t("import.invalidJson", { message: (e as Error).message }) }; }
+  const file = raw as Partial<ProfileFile> | null;
+  if (!file || typeof file !== "object" || file.format !== PROFILE_FORMAT) return { ok: false, error: t("profile.badFile") };
+  if (file.version !== PROFILE_VERSION) return { ok: false, error: t("import.newerVersion", { version: String(file.version), supported: PROFILE_VERSION }) };
+  if (!file.data || typeof file.data !== "object" || typeof file.profile?.name !== "string") return { ok: false, error: t("profile.badFile") };
+  const color = PROFILE_COLORS.includes(file.profile.color) ? file.profile.color : "emerald";
+  const profile = newProfile(file.profile.name.trim() || t("profile.defaultName"), color);
+  writeProfileEntries(profile.id, Object.entries(file.data));
+  return { ok: true, profile };
+}
@@ -0,0 +1,14 @@
+// ===== PWA: registro del service worker y precarga de imágenes =====
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch(() => {});
+  });
+}
+
+// Pide al service worker que guarde las imágenes de referencia para usarlas sin conexión
+export async function precacheImages(urls: string[]) {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator) || !urls.length) return;
+  const reg = await navigator.serviceWorker.ready;
+  reg.active?.postMessage({ type: "precache-images", urls: [...new Set(urls)] });
+}
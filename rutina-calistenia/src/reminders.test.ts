@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_REMINDERS, type ReminderSettings, nextReminder, reminderStats } from "./reminders";
+
+// Fechas en hora local; el 19/10/2026 es lunes
+const at = (day: number, h: number, m = 0) => new Date(2026, 9, day, h, m).getTime();
+const on: ReminderSettings = { ...DEFAULT_REMINDERS, enabled: true };
+
+describe("nextReminder", () => {
+  it("avisa un intervalo después dentro del horario", () => {
+    expect(nextReminder(on, at(19, 10))).toBe(at(19, 11));
+    expect(nextReminder(on, at(19, 10), on.snoozeMin)).toBe(at(19, 10, 10));
+  });
+
+  it("antes de empezar la jornada espera a su inicio más un intervalo", () => {
+    expect(nextReminder(on, at(19, 6))).toBe(at(19, 10));
+  });
+
+  it("al acabar la jornada pasa al siguiente día laborable", () => {
+    expect(nextReminder(on, at(19, 17, 30))).toBe(at(20, 10));
+    // Viernes por la tarde: el siguiente es el lunes
+    expect(nextReminder(on, at(23, 17, 30))).toBe(at(26, 10));
+  });
+
+  it("la hora de fin queda fuera del horario", () => {
+    expect(nextReminder({ ...on, intervalMin: 30 }, at(19, 17, 30))).toBe(at(20, 9, 30));
+  });
+
+  it("null si está desactivado o el horario no deja sitio", () => {
+    expect(nextReminder(DEFAULT_REMINDERS, at(19, 10))).toBeNull();
+    expect(nextReminder({ ...on, days: [] }, at(19, 10))).toBeNull();
+    expect(nextReminder({ ...on, start: "18:00", end: "09:00" }, at(19, 10))).toBeNull();
+  });
+});
+
+describe("reminderStats", () => {
+  it("cuenta cada acción desde la fecha dada", () => {
+    const log = [
+      { at: at(18, 10), action: "shown" as const },
+      { at: at(19, 10), action: "shown" as const },
+      { at: at(19, 10, 1), action: "snoozed" as const },
+      { at: at(19, 11), action: "started" as const },
+    ];
+    expect(reminderStats(log, at(19, 0))).toEqual({ shown: 1, started: 1, snoozed: 1, skipped: 0 });
+  });
+});
@@ -0,0 +1,156 @@
+import { useEffect, useRef, useState } from "react";
+import type { Routine } from "./routines";
+import { loadJSON, saveJSON } from "./storage";
+import { t } from "./i18n";
+
+// ===== Recordatorios de pausa activa =====
+// Mientras la app esté abierta (aunque sea en segundo plano) avisa cada `intervalMin` dentro del
+// horario laboral: notificación del navegador (si hay permiso) y aviso dentro de la app. Al
+// pulsarlos arranca una micro-rutina de ~2 min. Los avisos y lo que se hizo con ellos (empezar,
+// posponer, saltar) se guardan en un registro aparte del historial de sesiones.
+export interface ReminderSettings {
+  enabled: boolean;
+  intervalMin: number;
+  start: string; // "HH:MM", hora local
+  end: string;
+  days: number[]; // días laborables como Date.getDay(): 0 = domingo … 6 = sábado
+  snoozeMin: number;
+}
+
+export const DEFAULT_REMINDERS: ReminderSettings = { enabled: false, intervalMin: 60, start: "09:00", end: "18:00", days: [1, 2, 3, 4, 5], snoozeMin: 10 };
+export const REMINDER_INTERVALS = [30, 45, 60, 90, 120];
+export const SNOOZE_OPTIONS = [5, 10, 15, 30];
+// Lunes primero, como el calendario del historial
+export const WEEK_DAYS = [1, 2, 3, 4, 5, 6, 0];
+
+const SETTINGS_KEY = "reminders";
+export const loadReminderSettings = (): ReminderSettings => ({ ...DEFAULT_REMINDERS, ...loadJSON<Partial<ReminderSettings>>(SETTINGS_KEY, {}) });
+export const saveReminderSettings = (s: ReminderSettings) => saveJSON(SETTINGS_KEY, s);
+
+// ===== Calendario =====
+const minutesOf = (hhmm: string) => {
+  const [h, m] = hhmm.split(":").map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+const atMinutes = (d: Date, min: number) => new Date(d.getFullYear(), d.getMonth(), d.getDate(), 0, min);
+
+export function inWorkingHours(s: ReminderSettings, at: Date) {
+  const m = at.getHours() * 60 + at.getMinutes();
+  return s.days.includes(at.getDay()) && m >= minutesOf(s.start) && m < minutesOf(s.end);
+}
+
+// Próximo aviso `afterMin` minutos después de `from`; si cae fuera del horario, el primero del
+// siguiente tramo laboral (un intervalo después de su inicio). null si el horario no deja sitio.
+export function nextReminder(s: ReminderSettings, from: number, afterMin = s.intervalMin): number | null {
+  if (!s.enabled || !s.days.length || minutesOf(s.end) <= minutesOf(s.start)) return null;
+  let at = new Date(from + afterMin * 60_000);
+  for (let i = 0; i < 8; i++) {
+    if (inWorkingHours(s, at)) return at.getTime();
+    const today = atMinutes(at, minutesOf(s.start));
+    const start = at < today ? today : atMinutes(new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1), minutesOf(s.start));
+    at = new Date(start.getTime() + s.intervalMin * 60_000);
+  }
+  return null;
+}
+
+// ===== Registro =====
+export type ReminderAction = "shown" | "started" | "snoozed" | "skipped";
+export const REMINDER_ACTIONS: ReminderAction[] = ["shown", "started", "snoozed", "skipped"];
+export interface ReminderLogEntry { at: number; action: ReminderAction }
+
+const LOG_KEY = "reminders-log";
+const LOG_LIMIT = 500;
+export const loadReminderLog = () => loadJSON<ReminderLogEntry[]>(LOG_KEY, []);
+function logReminder(action: ReminderAction) {
+  saveJSON(LOG_KEY, [...loadReminderLog(), { at: Date.now(), action }].slice(-LOG_LIMIT));
+}
+
+// Cuántos avisos de cada tipo hubo desde `since`
+export function reminderStats(log: ReminderLogEntry[], since: number) {
+  const counts = Object.fromEntries(REMINDER_ACTIONS.map((a) => [a, 0])) as Record<ReminderAction, number>;
+  for (const e of log) if (e.at >= since) counts[e.action]++;
+  return counts;
+}
+
+// ===== Micro-rutina =====
+// No se guarda con las rutinas del usuario: App la ejecuta en lugar de la activa hasta que termina,
+// sin el ajuste de duración y sin registrarla en el historial (no suma a rachas ni al objetivo semanal).
+export const MICRO_ROUTINE_ID = "micro-break";
+export const microRoutine = (): Routine => ({
+  id: MICRO_ROUTINE_ID,
+  name: t("reminder.routineName"),
+  phases: [{
+    phase: "cooldown",
+    rounds: 1,
+    items: [
+      { key: "shoulder-rolls", duration: 30 },
+      { key: "door-pec", duration: 40 },
+      { key: "wrist-stretch-flex", duration: 30 },
+      { key: "wrist-stretch-ext", duration: 30 },
+    ],
+  }],
+});
+
+// ===== Programador =====
+export const notificationsSupported = () => typeof window !== "undefined" && "Notification" in window;
+
+// `busy`: hay una sesión abierta (en marcha o en pausa); el aviso que toque entonces se salta sin mostrarse.
+// Devuelve si hay un aviso pendiente de respuesta y las acciones para responderlo.
+export function useReminders(settings: ReminderSettings, busy: boolean, onStart: () => void) {
+  const [pending, setPending] = useState(false);
+  const nextRef = useRef<number | null>(null);
+  const startRef = useRef(onStart);
+  const busyRef = useRef(busy);
+  useEffect(() => { startRef.current = onStart; busyRef.current = busy; });
+
+  useEffect(() => {
+    nextRef.current = nextReminder(settings, Date.now());
+    if (!settings.enabled) { setPending(false); return; }
+    let notification: Notification | null = null;
+
+    // Comprobación periódica: sobrevive a que el navegador estrangule los temporizadores en segundo plano
+    const check = () => {
+      const now = Date.now();
+      if (nextRef.current == null || now < nextRef.current) return;
+      nextRef.current = nextReminder(settings, now);
+      if (busyRef.current) return;
+      logReminder("shown");
+      setPending(true);
+      if (notificationsSupported() && Notification.permission === "granted") {
+        notification?.close();
+        notification = new Notification(t("reminder.title"), { body: t("reminder.body"), tag: "rutina-calistenia-reminder" });
+        notification.onclick = () => {
+          window.focus();
+          notification?.close();
+          setPending(false);
+          logReminder("started");
+          startRef.current();
+        };
+      }
+    };
+    const id = setInterval(check, 30_000);
+    document.addEventListener("visibilitychange", check);
+    return () => {
+      clearInterval(id);
+      document.removeEventListener("visibilitychange", check);
+      notification?.close();
+    };
+  }, [settings]);
+
+  const answer = (action: ReminderAction) => {
+    setPending(false);
+    logReminder(action);
+  };
+  return {
+    pending,
+    start() { answer("started"); startRef.current(); },
+    snooze() { answer("snoozed"); nextRef.current = nextReminder(settings, Date.now(), settings.snoozeMin); },
+    skip() { answer("skipped"); },
+  };
+}
+
+// Se pide al activar los recordatorios (necesita un gesto del usuario)
+export async function requestNotificationPermission() {
+  if (!notificationsSupported() || Notification.permission !== "default") return;
+  try { await Notification.requestPermission(); } catch { /* navegadores antiguos: solo callback */ }
+}
@@ -0,0 +1,32 @@
+import { type SessionLog, normalizeSession } from "./history";
+import { loadJSON, saveJSON, removeKey } from "./storage";
+
+// ===== Reanudar sesión interrumpida =====
+// Se guarda una foto de la sesión en curso en cada tick; al volver a abrir la app
+// se ofrece reanudar en el mismo paso y segundo (en pausa) o descartarla.
+export interface SessionSnapshot {
+  savedAt: number;
+  routineId: string;
+  idx: number;
+  key: string; // ejercicio en `idx`, para detectar que la rutina cambió
+  remaining: number;
+  session: SessionLog;
+}
+
+const SNAPSHOT_KEY = "session-snapshot";
+const WINDOW_KEY = "resume-window-min";
+export const DEFAULT_RESUME_WINDOW_MIN = 120;
+
+export function loadSnapshot() {
+  const snap = loadJSON<SessionSnapshot | null>(SNAPSHOT_KEY, null);
+  return snap && { ...snap, session: normalizeSession(snap.session) };
+}
+export const saveSnapshot = (snap: SessionSnapshot) => saveJSON(SNAPSHOT_KEY, snap);
+export const clearSnapshot = () => removeKey(SNAPSHOT_KEY);
+
+// Ventana (minutos) tras la cual una foto se descarta sola
+export const loadResumeWindowMin = () => loadJSON<number>(WINDOW_KEY, DEFAULT_RESUME_WINDOW_MIN);
+export const saveResumeWindowMin = (min: number) => saveJSON(WINDOW_KEY, min);
+
+export const isStale = (snap: SessionSnapshot, now = Date.now()) =>
+  now - snap.savedAt > loadResumeWindowMin() * 60_000;
@@ -0,0 +1,273 @@
+import { type Exercise, type ExerciseMode, type BuiltinExercise, type Side, type SidesMode, warmup, strengthCore, cooldown, EXERCISES, exerciseByKey, repSeconds } from "./exercises";
+import { loadJSON, saveJSON, uid } from "./storage";
+import { getSetting } from "./settings";
+import { t, tp } from "./i18n";
+
+// ===== Tipado =====
+// Identificadores estables de fase; el nombre visible sale de las traducciones ("phase.<id>").
+export type Phase = "warmup" | "strength" | "cooldown";
+export const PHASES: Phase[] = ["warmup", "strength", "cooldown"];
+export const phaseLabel = (p: Phase) => t(`phase.${p}`);
+
+// Hasta la v2 del formato (y en datos locales antiguos) la fase se guardaba con su nombre en español
+const LEGACY_PHASES: Record<string, Phase> = { Calentamiento: "warmup", Fuerza: "strength", Estiramientos: "cooldown" };
+export const toPhase = (v: unknown): Phase | undefined =>
+  PHASES.includes(v as Phase) ? (v as Phase) : typeof v === "string" && Object.hasOwn(LEGACY_PHASES, v) ? LEGACY_PHASES[v] : undefined;
+
+// Tras compilar, `mode` es "time" (dura `duration`) o "reps" (abierto: `duration` es una estimación);
+// las series se expanden en pasos "work" + descansos "rest". Todos los pasos de un mismo
+// ejercicio comparten `indexInPhase`.
+// Los pasos "prep" (prepárate) y "rest" (descanso) llevan los datos del ejercicio que viene a
+// continuación para poder previsualizarlo; `breakType` dice de qué descanso se trata.
+// `side` marca los pasos de un ejercicio unilateral expandido en un paso por lado.
+// `interval` marca los pasos de una fase por intervalos (formato y ronda en curso); en AMRAP el
+// único paso de trabajo lleva en `circuit` los ejercicios que se repiten durante el bloque.
+export type BreakType = "set" | "round" | "phase" | "interval";
+export interface StepInterval { format: IntervalFormat; round: number; rounds: number; circuit?: { title: string; reps?: number }[] }
+export interface Step extends Exercise {
+  phase: Phase; indexInPhase: number; totalInPhase: number;
+  kind: "work" | "rest" | "prep"; mode: "time" | "reps"; set?: number; breakType?: BreakType; side?: Side; interval?: StepInterval;
+}
+
+export const isOpenStep = (s: Step) => s.mode === "reps";
+
+// Lado en curso de un paso: fijo si se expandió por lados; en "split" cambia a mitad, justo
+// cuando suena el aviso (`remaining`/`duration` del temporizador, que incluyen los ajustes ±15 s)
+export const splitsMidway = (s: Step) => s.kind === "work" && s.sides === "split" && !s.side && !isOpenStep(s);
+export const sideAt = (s: Step, remaining: number, duration: number): Side | undefined =>
+  s.side ?? (splitsMidway(s) ? (remaining > Math.ceil(duration / 2) ? "left" : "right") : undefined);
+
+// Una rutina guardada solo referencia ejercicios del catálogo por `key`;
+// la duración (y el modo reps/series) se puede ajustar por ejercicio.
+export interface RoutineItem { key: string; duration: number; mode?: ExerciseMode; reps?: number; sets?: number; rest?: number; tempo?: string }
+export interface RoutinePhase { phase: Phase; rounds: number; items: RoutineItem[]; interval?: Interval }
+
+// ===== Intervalos =====
+// Una fase con `interval` no usa rondas ni duraciones por ejercicio: el formato fija el reloj.
+// - tabata / custom: `rounds` veces `work` s de trabajo + `rest` s de descanso, rotando ejercicios.
+// - emom: cada minuto (`work` s) un ejercicio con sus reps; lo que sobra del minuto es el descanso.
+// - amrap: un solo bloque de `work` s repitiendo el circuito entero tantas veces como se pueda.
+export type IntervalFormat = "tabata" | "emom" | "amrap" | "custom";
+export const INTERVAL_FORMATS: IntervalFormat[] = ["tabata", "emom", "amrap", "custom"];
+export interface Interval { format: IntervalFormat; work: number; rest: number; rounds: number }
+export const INTERVAL_PRESETS: Record<IntervalFormat, Interval> = {
+  tabata: { format: "tabata", work: 20, rest: 10, rounds: 8 },
+  emom: { format: "emom", work: 60, rest: 0, rounds: 10 },
+  amrap: { format: "amrap", work: 600, rest: 0, rounds: 1 },
+  custom: { format: "custom", work: 40, rest: 20, rounds: 6 },
+};
+export const intervalLabel = (f: IntervalFormat) => t(`interval.${f}`);
+// Etiqueta de fase de un paso: el formato en las fases por intervalos
+export const stepPhaseLabel = (s: Step) => (s.interval ? intervalLabel(s.interval.format) : phaseLabel(s.phase));
+// Transiciones en segundos (0 = sin pausa): prepárate antes de cada ejercicio,
+// descanso entre rondas de una fase y descanso entre fases.
+export interface Transitions { prep: number; roundRest: number; phaseRest: number }
+export interface Routine { id: string; name: string; phases: RoutinePhase[]; transitions?: Transitions }
+
+export const NO_TRANSITIONS: Transitions = { prep: 0, roundRest: 0, phaseRest: 0 };
+
+const items = (list: BuiltinExercise[]): RoutineItem[] => list.map(({ key, duration }) => ({ key, duration }));
+
+// Rutina original de 20 min: 5 calentamiento • 2 rondas de fuerza (10 min) • 5 estiramientos
+export const DEFAULT_ROUTINE: Routine = {
+  id: "default",
+  name: "Rutina Calistenia — 20 min",
+  phases: [
+    { phase: "warmup", rounds: 1, items: items(warmup) },
+    { phase: "strength", rounds: 2, items: items(strengthCore) },
+    { phase: "cooldown", rounds: 1, items: items(cooldown) },
+  ],
+};
+
+// ===== Programa =====
+type ItemStep = Omit<Step, "phase" | "indexInPhase" | "totalInPhase">;
+
+// Un ejercicio de la rutina -> uno o varios pasos (series y descansos)
+function expandItem(e: Exercise, it: RoutineItem): ItemStep[] {
+  const overrides = Object.fromEntries(Object.entries(it).filter(([, v]) => v !== undefined));
+  const x: Exercise = { ...e, ...overrides };
+  const mode = x.mode ?? "time";
+  if (mode === "time") return bySide([{ ...x, kind: "work", mode: "time" }], x.sides);
+  const reps = x.reps ?? 10;
+  const work = { ...x, kind: "work" as const, mode: "reps" as const, reps, duration: Math.round(reps * repSeconds(x.tempo)) };
+  if (mode === "reps") return bySide([work], x.sides);
+  const sets = x.sets ?? 3, rest = x.rest ?? 30;
+  const steps: ItemStep[] = [];
+  for (let k = 1; k <= sets; k++) {
+    steps.push({ ...work, set: k });
+    if (k < sets && rest > 0) steps.push({ ...work, kind: "rest", mode: "time", duration: rest, set: k + 1, breakType: "set" });
+  }
+  return bySide(steps, x.sides);
+}
+
+// Ejercicio unilateral: cada paso de trabajo se desdobla en izquierdo + derecho, salvo los de
+// tiempo en "split", que siguen siendo uno (el aviso de cambio de lado suena a mitad)
+function bySide(steps: ItemStep[], sides?: SidesMode): ItemStep[] {
+  if (!sides) return steps;
+  return steps.flatMap((st): ItemStep[] => {
+    if (st.kind !== "work" || (sides === "split" && st.mode === "time")) return [st];
+    if (st.mode === "reps") return [{ ...st, side: "left" }, { ...st, side: "right" }];
+    return [{ ...st, side: "left", duration: Math.ceil(st.duration / 2) }, { ...st, side: "right", duration: Math.floor(st.duration / 2) }];
+  });
+}
+
+// Fase por intervalos -> pasos ya numerados por ronda (`indexInPhase` = ronda)
+function intervalSteps(phase: Phase, iv: Interval, list: { e: Exercise; it: RoutineItem }[]): Step[] {
+  const base = (e: Exercise, it: RoutineItem, round: number, rounds: number) => ({
+    ...e, tempo: it.tempo ?? e.tempo, phase, indexInPhase: round, totalInPhase: rounds,
+    // Un unilateral cambia de lado a mitad del intervalo (no se parte en dos pasos)
+    sides: e.sides && ("split" as const),
+  });
+  const reps = (e: Exercise, it: RoutineItem) => it.reps ?? e.reps ?? 10;
+  if (iv.format === "amrap") {
+    const { e, it } = list[0];
+    const circuit = list.map((x) => ({ title: x.e.title, reps: reps(x.e, x.it) }));
+    return [{ ...base(e, it, 1, 1), kind: "work", mode: "time", duration: iv.work, reps: undefined, interval: { format: iv.format, round: 1, rounds: 1, circuit } }];
+  }
+  const steps: Step[] = [];
+  for (let r = 1; r <= iv.rounds; r++) {
+    const { e, it } = list[(r - 1) % list.length];
+    const interval = { format: iv.format, round: r, rounds: iv.rounds };
+    const work: Step = { ...base(e, it, r, iv.rounds), kind: "work", mode: "time", duration: iv.work, reps: iv.format === "emom" ? reps(e, it) : undefined, interval };
+    if (r > 1 && iv.rest > 0) steps.push(pause("rest", iv.rest, work, "interval"));
+    steps.push(work);
+  }
+  return steps;
+}
+
+// Paso de pausa que previsualiza `next`
+const pause = (kind: "rest" | "prep", duration: number, next: Step, breakType?: BreakType): Step =>
+  ({ ...next, kind, mode: "time", duration, breakType });
+
+// Multiplicador global de duración (ajustes): escala tiempos, descansos y repeticiones
+// (el reloj de los intervalos no: Tabata es 20/10 y un EMOM dura un minuto)
+function scaleStep(s: Step, scale: number): Step {
+  if (s.interval && (s.kind === "work" || s.breakType === "interval")) return s;
+  if (!isOpenStep(s)) return { ...s, duration: Math.max(1, Math.round(s.duration * scale)) };
+  const reps = Math.max(1, Math.round((s.reps ?? 10) * scale));
+  return { ...s, reps, duration: Math.round(reps * repSeconds(s.tempo)) };
+}
+
+// Compila una rutina a la lista plana de pasos que consume el temporizador, con los textos de
+// `catalog` (por defecto, el del idioma actual). Los `key` que ya no existan en él se ignoran.
+export function buildProgram(routine: Routine, scale = 1, catalog = EXERCISES): Step[] {
+  const byKey = new Map(catalog.map((e) => [e.key, e]));
+  const { prep, roundRest, phaseRest } = routine.transitions ?? NO_TRANSITIONS;
+  const steps: Step[] = [];
+  for (const { phase, rounds, items, interval } of routine.phases) {
+    if (interval) {
+      const list = items.flatMap((it) => {
+        const e = byKey.get(it.key);
+        return e ? [{ e, it }] : [];
+      });
+      if (!list.length) continue;
+      const block = intervalSteps(phase, interval, list);
+      if (steps.length && phaseRest > 0) steps.push(pause("rest", phaseRest, block[0], "phase"));
+      else if (prep > 0 && steps.at(-1)?.kind !== "rest") steps.push(pause("prep", prep, block[0]));
+      steps.push(...block);
+      continue;
+    }
+    const exercises = items.flatMap((it) => {
+      const e = byKey.get(it.key);
+      return e ? [expandItem(e, it)] : [];
+    });
+    const total = exercises.length * rounds;
+    for (let r = 0; r < rounds && exercises.length; r++) {
+      const round = exercises.flatMap((group, i) =>
+        group.map((st): Step => ({ ...st, phase, indexInPhase: r * exercises.length + i + 1, totalInPhase: total }))
+      );
+      if (r === 0 && steps.length && phaseRest > 0) steps.push(pause("rest", phaseRest, round[0], "phase"));
+      if (r > 0 && roundRest > 0) steps.push(pause("rest", roundRest, round[0], "round"));
+      for (const st of round) {
+        // "Prepárate" solo entre ejercicios: tras un descanso ya se está previsualizando el siguiente
+        const prev = steps.at(-1);
+        // (ni entre los dos lados de un mismo ejercicio)
+        if (prep > 0 && st.kind === "work" && st.side !== "right" && (!prev || prev.kind === "work")) steps.push(pause("prep", prep, st));
+        steps.push(st);
+      }
+    }
+  }
+  return scale === 1 ? steps : steps.map((st) => scaleStep(st, scale));
+}
+
+// Segundos de una fase por intervalos (sin el descanso tras la última ronda)
+export const intervalSeconds = (iv: Interval) => (iv.format === "amrap" ? iv.work : iv.rounds * iv.work + (iv.rounds - 1) * iv.rest);
+
+// Segundos (estimados en reps/series) de un ejercicio de la rutina
+export function itemSeconds(it: RoutineItem) {
+  const e = exerciseByKey(it.key);
+  return e ? expandItem(e, it).reduce((a, st) => a + st.duration, 0) : 0;
+}
+
+export const programSeconds = (steps: Step[]) => steps.reduce((acc, s) => acc + s.duration, 0);
+export const hasEstimates = (steps: Step[]) => steps.some(isOpenStep);
+
+// ===== Edición =====
+export const newRoutine = (name: string): Routine => ({
+  id: uid(),
+  name,
+  phases: PHASES.map((phase) => ({ phase, rounds: phase === "strength" ? getSetting("defaultRounds") : 1, items: [] })),
+});
+
+// Rutina del generador de intervalos: calentamiento y estiramientos de la original (opcionales)
+// alrededor de una fase de fuerza por intervalos con los ejercicios elegidos, en ese orden
+export function intervalRoutine(name: string, interval: Interval, keys: string[], bookends = true): Routine {
+  const original = (phase: Phase) => (bookends ? structuredClone(DEFAULT_ROUTINE.phases.find((p) => p.phase === phase)?.items ?? []) : []);
+  return {
+    id: uid(),
+    name,
+    phases: [
+      { phase: "warmup", rounds: 1, items: original("warmup") },
+      { phase: "strength", rounds: 1, items: keys.map((key) => ({ key, duration: interval.work })), interval },
+      { phase: "cooldown", rounds: 1, items: original("cooldown") },
+    ],
+  };
+}
+
+export const duplicateRoutine = (r: Routine): Routine => ({
+  ...structuredClone(r),
+  id: uid(),
+  name: t("routine.copy", { name: r.name }),
+});
+
+// Mueve el elemento `i` una posición arriba (-1) o abajo (+1)
+export function move<T>(list: T[], i: number, dir: -1 | 1): T[] {
+  const j = i + dir;
+  if (j < 0 || j >= list.length) return list;
+  const next = list.slice();
+  [next[i], next[j]] = [next[j], next[i]];
+  return next;
+}
+
+// ===== Persistencia =====
+const ROUTINES_KEY = "routines";
+const ACTIVE_KEY = "active-routine";
+
+export function loadRoutines(): Routine[] {
+  const saved = loadJSON<Routine[]>(ROUTINES_KEY, []);
+  if (!Array.isArray(saved) || !saved.length) return [structuredClone(DEFAULT_ROUTINE)];
+  return saved.map((r) => ({ ...r, phases: r.phases.map((p) => ({ ...p, phase: toPhase(p.phase) ?? p.phase })) }));
+}
+export const saveRoutines = (routines: Routine[]) => saveJSON(ROUTINES_KEY, routines);
+
+export const loadActiveRoutineId = () => loadJSON<string>(ACTIVE_KEY, DEFAULT_ROUTINE.id);
+export const saveActiveRoutineId = (id: string) => saveJSON(ACTIVE_KEY, id);
+
+// "5 min calentamiento • 10 min fuerza (2 rondas) • 5 min estiramientos"
+export function describeRoutine(r: Routine, scale = 1) {
+  return r.phases
+    .filter((p) => p.items.length)
+    .map((p) => {
+      if (p.interval) {
+        const text = t("routine.phaseSummary", { min: Math.round(intervalSeconds(p.interval) / 60), phase: intervalLabel(p.interval.format) });
+        return p.interval.format === "amrap" ? text : `${text} ${tp("routine.rounds", p.interval.rounds)}`;
+      }
+      const min = Math.round((p.items.reduce((a, it) => a + itemSeconds(it), 0) * p.rounds * scale) / 60);
+      const text = t("routine.phaseSummary", { min, phase: phaseLabel(p.phase).toLowerCase() });
+      return p.rounds > 1 ? `${text} ${tp("routine.rounds", p.rounds)}` : text;
+    })
+    .join(" • ");
+}
+
+// Duraciones para el motor del temporizador (null = paso abierto de repeticiones)
+export const timerDurations = (steps: Step[]) => steps.map((s) => (isOpenStep(s) ? null : s.duration));
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { FORMAT, SCHEMA_VERSION, exportFile, parseImport } from "./schema";
+import { type Routine, DEFAULT_ROUTINE } from "./routines";
+import type { TrainingPlan } from "./trainingPlans";
+import { t } from "./i18n";
+
+const file = (data: object) => JSON.stringify({ format: FORMAT, version: SCHEMA_VERSION, ...data });
+const errorsOf = (text: string) => {
+  const res = parseImport(text);
+  if (res.ok) throw new Error("se esperaba un error de importación");
+  return res.errors;
+};
+
+// Un ejercicio propio válido y una rutina de una sola fase, tal como llegarían en el JSON
+const custom = { key: "my-hang", title: "Colgarse", cue: "Hombros activos", duration: 30, animation: "breathing" };
+const oneBlock = (items: unknown[], phase: unknown = "strength") => ({ id: "r1", name: "Mía", phases: [{ phase, rounds: 2, items }] });
+
+describe("parseImport: formato", () => {
+  it("rechaza JSON inválido, no-objetos, versiones raras y formato ajeno", () => {
+    expect(errorsOf("{")[0]).toMatch(/JSON/);
+    expect(errorsOf("[]")).toEqual([t("import.notObject")]);
+    expect(errorsOf(JSON.stringify({ format: FORMAT, version: 1.5 }))).toEqual([t("import.badVersion")]);
+    expect(errorsOf(JSON.stringify({ format: FORMAT, version: SCHEMA_VERSION + 1 })))
+      .toEqual([t("import.newerVersion", { version: SCHEMA_VERSION + 1, supported: SCHEMA_VERSION })]);
+    expect(errorsOf(JSON.stringify({ format: "otro", version: SCHEMA_VERSION }))).toEqual([t("import.badFormat", { format: FORMAT })]);
+  });
+
+  it("un archivo sin nada que importar es un error", () => {
+    expect(errorsOf(file({}))).toEqual([t("import.empty")]);
+  });
+});
+
+describe("parseImport: validación", () => {
+  it("importa ejercicios y rutinas válidos y completa las fases en orden canónico", () => {
+    const res = parseImport(file({ exercises: [custom], routines: [oneBlock([{ key: "my-hang" }, { key: "low-plank", duration: 20 }])] }));
+    expect(res.ok).toBe(true);
+    if (!res.ok) return;
+    expect(res.exercises.map((e) => e.key)).toEqual(["my-hang"]);
+    const [r] = res.routines;
+    expect(r.phases.map((p) => p.phase)).toEqual(["warmup", "strength", "cooldown"]);
+    expect(r.phases[1]).toEqual({ phase: "strength", rounds: 2, items: [{ key: "my-hang", duration: 30 }, { key: "low-plank", duration: 20 }] });
+  });
+
+  it("señala cada problema con su ruta", () => {
+    const errors = errorsOf(file({
+      exercises: [{ ...custom, duration: 0 }, null],
+      routines: [oneBlock([{ key: "nope" }, 7], "legs")],
+    }));
+    expect(errors).toEqual([
+      t("import.badDuration", { at: 'exercises[0] ("my-hang")', value: "0" }),
+      t("import.mustBeObject", { at: "exercises[1]" }),
+      t("import.unknownPhase", { at: "routines[0].phases[0]", value: '"legs"', options: "warmup, strength, cooldown" }),
+      t("import.unknownExercise", { at: "routines[0].phases[0].items[0]", value: '"nope"' }),
+      t("import.mustBeObject", { at: "routines[0].phases[0].items[1]" }),
+    ]);
+  });
+
+  it("los ejercicios base se ignoran con un aviso y los ids repetidos se renuevan", () => {
+    const res = parseImport(file({ exercises: [{ ...custom, key: "low-plank" }], routines: [oneBlock([{ key: "low-plank" }])] }), ["r1"]);
+    expect(res.ok).toBe(true);
+    if (!res.ok) return;
+    expect(res.exercises).toEqual([]);
+    expect(res.warnings).toEqual([t("import.builtinSkipped", { key: "low-plank" })]);
+    expect(res.routines[0].id).not.toBe("r1");
+  });
+
+  it("valida los planes y sus semanas", () => {
+    const plan = { id: "p1", name: "Plan", daysPerWeek: 8, routines: [oneBlock([{ key: "low-plank" }])], weeks: [{ scale: -1, swap: { "low-plank": "nope" } }] };
+    expect(errorsOf(file({ plans: [plan] }))).toEqual([
+      t("import.badDaysPerWeek", { at: 'plans[0] ("Plan")' }),
+      t("import.badScale", { at: "plans[0].weeks[0]" }),
+      t("import.unknownExercise", { at: "plans[0].weeks[0].swap", value: '"nope"' }),
+    ]);
+  });
+});
+
+describe("parseImport: migraciones", () => {
+  it("v1: las constantes de App.tsx pasan a una rutina con sus ejercicios", () => {
+    const res = parseImport(JSON.stringify({
+      version: 1, name: "Antigua", strengthRounds: 3,
+      warmup: [{ key: "breathing", title: "Respirar", cue: "", duration: 60 }],
+      strengthCore: [custom],
+      cooldown: [],
+    }));
+    expect(res.ok).toBe(true);
+    if (!res.ok) return;
+    expect(res.exercises.map((e) => e.key)).toEqual(["my-hang"]);
+    expect(res.routines[0].name).toBe("Antigua");
+    expect(res.routines[0].phases.map((p) => [p.phase, p.rounds, p.items.map((i) => i.key)])).toEqual([
+      ["warmup", 1, ["breathing"]],
+      ["strength", 3, ["my-hang"]],
+      ["cooldown", 1, []],
+    ]);
+  });
+
+  it("v1: las entradas que no son objetos se señalan en lugar de romper la importación", () => {
+    const errors = errorsOf(JSON.stringify({ version: 1, warmup: [null], strengthCore: [custom, 5], cooldown: "x" }));
+    expect(errors).toEqual([
+      t("import.mustBeObject", { at: "routines[0].phases[0].items[0]" }),
+      t("import.mustBeObject", { at: "routines[0].phases[1].items[1]" }),
+    ]);
+  });
+
+  it("v2: los nombres de fase en español pasan a su id", () => {
+    const res = parseImport(JSON.stringify({
+      format: FORMAT, version: 2, exercises: [],
+      routines: [{ name: "R", phases: [{ phase: "Fuerza", items: [{ key: "low-plank" }] }, { phase: "Calentamiento", items: [] }] }],
+    }));
+    expect(res.ok).toBe(true);
+    if (!res.ok) return;
+    expect(res.routines[0].phases[1].items.map((i) => i.key)).toEqual(["low-plank"]);
+  });
+});
+
+describe("exportFile", () => {
+  it("lo exportado se vuelve a importar igual", () => {
+    const reps: Routine = { ...DEFAULT_ROUTINE, id: "reps", phases: DEFAULT_ROUTINE.phases.map((p) =>
+      p.phase === "strength" ? { ...p, items: [{ key: "low-plank", duration: 30, mode: "reps" as const, reps: 8, sets: 2, rest: 40 }] } : p) };
+    const plan: TrainingPlan = { id: "p9", name: "Plan", daysPerWeek: 3, routines: [reps], weeks: [{}, { scale: 1.2, extraRounds: 1 }] };
+    const out = exportFile([DEFAULT_ROUTINE], [], [plan]);
+    expect(out.exercises).toEqual([]);
+    const res = parseImport(JSON.stringify(out));
+    expect(res.ok).toBe(true);
+    if (!res.ok) return;
+    expect(res.routines).toEqual([DEFAULT_ROUTINE]);
+    expect(res.plans).toEqual([plan]);
+  });
+});
@@ -0,0 +1,331 @@
+import { type Exercise, type ExerciseMode, type SidesMode, EXERCISE_MODES, SIDES_MODES, EXERCISE_TAGS, BODY_AREAS, EQUIPMENT, exerciseByKey, isBuiltinExercise } from "./exercises";
+import { type Routine, type RoutineItem, type Phase, type Transitions, type Interval, type IntervalFormat, PHASES, NO_TRANSITIONS, INTERVAL_FORMATS, INTERVAL_PRESETS, toPhase } from "./routines";
+import { ANIMATION_KEYS, isStickAnimation } from "./animations";
+import type { TrainingPlan, PlanWeek } from "./trainingPlans";
+import { uid } from "./storage";
+import { t } from "./i18n";
+
+// ===== Formato JSON de intercambio (ver docs/formato-json.md) =====
+// v1: la forma de las constantes originales de App.tsx (warmup / strengthCore / strengthRounds / cooldown).
+// v2: catálogo de ejercicios + lista de rutinas con fases y rondas.
+// v3: las fases se identifican por id estable (warmup / strength / cooldown) en vez de por su nombre.
+export const FORMAT = "rutina-calistenia";
+export const SCHEMA_VERSION = 3;
+
+export interface ExportFile {
+  format: typeof FORMAT;
+  version: typeof SCHEMA_VERSION;
+  exercises: Exercise[];
+  routines: Routine[];
+  plans?: TrainingPlan[];
+}
+
+export type ImportResult =
+  | { ok: true; exercises: Exercise[]; routines: Routine[]; plans: TrainingPlan[]; warnings: string[] }
+  | { ok: false; errors: string[] };
+
+// ===== Exportar =====
+// Solo se incluyen los ejercicios personalizados que usan las rutinas (y los planes, con sus
+// variantes); los base se referencian por `key`.
+export function exportFile(routines: Routine[], extraExercises: Exercise[] = [], plans: TrainingPlan[] = []): ExportFile {
+  const exercises = new Map<string, Exercise>();
+  const include = (key: string) => {
+    const e = exerciseByKey(key);
+    if (e && !isBuiltinExercise(e.key)) exercises.set(e.key, e);
+  };
+  for (const e of extraExercises) exercises.set(e.key, e);
+  for (const r of [...routines, ...plans.flatMap((p) => p.routines)]) for (const p of r.phases) for (const it of p.items) include(it.key);
+  for (const w of plans.flatMap((p) => p.weeks)) for (const key of Object.values(w.swap ?? {})) include(key);
+  return { format: FORMAT, version: SCHEMA_VERSION, exercises: [...exercises.values()], routines, ...(plans.length && { plans }) };
+}
+
+// ===== Migraciones =====
+// Cada entrada convierte la versión N en la N+1.
+type Json = Record<string, unknown>;
+const MIGRATIONS: Record<number, (data: Json) => Json> = {
+  1: (data) => {
+    const list = (v: unknown) => (Array.isArray(v) ? (v as Json[]) : []);
+    // Las entradas que no son objetos pasan tal cual: el validador las señala con su ruta
+    const phase = (phase: string, rounds: unknown, exs: Json[]) => ({
+      phase,
+      rounds: rounds ?? 1,
+      items: exs.map((e) => (e && typeof e === "object" ? { key: e.key, duration: e.duration } : e)),
+    });
+    const warmup = list(data.warmup), strength = list(data.strengthCore), cooldown = list(data.cooldown);
+    const exercises = new Map<unknown, Json>();
+    for (const e of [...warmup, ...strength, ...cooldown]) if (e && typeof e === "object") exercises.set(e.key, e);
+    return {
+      format: FORMAT,
+      version: 2,
+      exercises: [...exercises.values()],
+      routines: [{
+        name: data.name ?? t("routine.imported"),
+        phases: [
+          phase("Calentamiento", 1, warmup),
+          phase("Fuerza", data.strengthRounds, strength),
+          phase("Estiramientos", 1, cooldown),
+        ],
+      }],
+    };
+  },
+  2: (data) => ({
+    ...data,
+    version: 3,
+    routines: Array.isArray(data.routines)
+      ? (data.routines as Json[]).map((r) => (Array.isArray(r?.phases)
+        ? { ...r, phases: (r.phases as Json[]).map((p) => ({ ...p, phase: toPhase(p?.phase) ?? p?.phase })) }
+        : r))
+      : data.routines,
+  }),
+};
+
+// ===== Importar =====
+export function parseImport(text: string, existingRoutineIds: string[] = [], existingPlanIds: string[] = []): ImportResult {
+  let data: Json;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    return { ok: false, errors: [t("import.invalidJson", { message: (err as Error).message })] };
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) return { ok: false, errors: [t("import.notObject")] };
+
+  if (typeof data.version !== "number" || !Number.isInteger(data.version) || data.version < 1) {
+    return { ok: false, errors: [t("import.badVersion")] };
+  }
+  let version = data.version;
+  if (version > SCHEMA_VERSION) {
+    return { ok: false, errors: [t("import.newerVersion", { version, supported: SCHEMA_VERSION })] };
+  }
+  while (version < SCHEMA_VERSION) {
+    data = MIGRATIONS[version](data);
+    version = data.version as number;
+  }
+  if (data.format !== FORMAT) return { ok: false, errors: [t("import.badFormat", { format: FORMAT })] };
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  // --- Ejercicios
+  const exercises: Exercise[] = [];
+  const seen = new Map<string, unknown>(); // key -> duration declarada en el archivo
+  const rawExercises = data.exercises ?? [];
+  if (!Array.isArray(rawExercises)) errors.push(t("import.mustBeList", { field: "exercises" }));
+  else rawExercises.forEach((raw: Json, i: number) => {
+    const at = `exercises[${i}]`;
+    if (!raw || typeof raw !== "object") return errors.push(t("import.mustBeObject", { at }));
+    const { key, title, cue, duration, image, credit, animation, tempo, contraindications, sides } = raw;
+    const where = typeof key === "string" && key ? `${at} ("${key}")` : at;
+    if (typeof key !== "string" || !key.trim()) return errors.push(t("import.missing", { at, field: "key" }));
+    if (seen.has(key)) return errors.push(t("import.duplicateKey", { at: where }));
+    seen.set(key, duration);
+    if (typeof title !== "string" || !title.trim()) errors.push(t("import.missing", { at: where, field: "title" }));
+    if (typeof cue !== "string") errors.push(t("import.missing", { at: where, field: "cue" }));
+    if (!isPositive(duration)) errors.push(t("import.badDuration", { at: where, value: JSON.stringify(duration) }));
+    for (const [name, v] of [["image", image], ["credit", credit], ["tempo", tempo], ["contraindications", contraindications]] as const) {
+      if (v !== undefined && typeof v !== "string") errors.push(t("import.mustBeText", { at: where, field: name }));
+    }
+    if (sides !== undefined && !SIDES_MODES.includes(sides as SidesMode)) {
+      errors.push(t("import.unknownValues", { at: where, field: "sides", value: JSON.stringify(sides), options: SIDES_MODES.join(", ") }));
+    }
+    const target = checkTarget(raw, where, errors);
+    const meta = checkMeta(raw, where, errors);
+    // `animation`: `key` de una animación existente o una animación propia (objeto con `frames`)
+    const anim = typeof animation === "string" ? animation : key;
+    if (animation !== undefined && typeof animation === "object") {
+      if (!isStickAnimation(animation)) errors.push(t("import.badAnimation", { at: where }));
+    } else if (animation !== undefined && typeof animation !== "string") {
+      errors.push(t("import.mustBeText", { at: where, field: "animation" }));
+    } else if (!ANIMATION_KEYS.includes(anim)) {
+      errors.push(t("import.noAnimation", { at: where, animation: anim, options: ANIMATION_KEYS.join(", ") }));
+    }
+    if (isBuiltinExercise(key)) {
+      warnings.push(t("import.builtinSkipped", { key }));
+      return;
+    }
+    exercises.push({
+      key, title: String(title), cue: String(cue ?? ""), duration: Number(duration),
+      ...(typeof image === "string" && { image }),
+      ...(typeof credit === "string" && { credit }),
+      ...((typeof animation === "string" || isStickAnimation(animation)) && { animation }),
+      ...(typeof contraindications === "string" && { contraindications }),
+      ...(SIDES_MODES.includes(sides as SidesMode) && { sides: sides as SidesMode }),
+      ...target,
+      ...meta,
+    });
+  });
+
+  const known = (key: string) => seen.has(key) || !!exerciseByKey(key);
+
+  // --- Rutinas (sueltas o dentro de un plan)
+  const ids = new Set(existingRoutineIds);
+  function parseRoutine(raw: Json, at: string, fallbackName: string): Routine | undefined {
+    if (!raw || typeof raw !== "object") { errors.push(t("import.mustBeObject", { at })); return undefined; }
+    const name = typeof raw.name === "string" && raw.name.trim() ? raw.name : fallbackName;
+    if (!Array.isArray(raw.phases)) { errors.push(t("import.phasesList", { at, name })); return undefined; }
+    const phaseNames = new Set<unknown>();
+    const phases = (raw.phases as Json[]).map((p, pi) => {
+      const pat = `${at}.phases[${pi}]`;
+      if (!PHASES.includes(p?.phase as Phase)) {
+        errors.push(t("import.unknownPhase", { at: pat, value: JSON.stringify(p?.phase), options: PHASES.join(", ") }));
+      } else if (phaseNames.has(p.phase)) {
+        errors.push(t("import.duplicatePhase", { at: pat, phase: String(p.phase) }));
+      }
+      phaseNames.add(p?.phase);
+      const rounds = p?.rounds ?? 1;
+      if (!isPositive(rounds) || !Number.isInteger(rounds)) errors.push(t("import.badRounds", { at: pat }));
+      const items: RoutineItem[] = [];
+      if (!Array.isArray(p?.items)) errors.push(t("import.itemsList", { at: pat }));
+      else (p.items as Json[]).forEach((it, ii) => {
+        const iat = `${pat}.items[${ii}]`;
+        if (!it || typeof it !== "object") return errors.push(t("import.mustBeObject", { at: iat }));
+        const key = it.key;
+        if (typeof key !== "string" || !known(key)) return errors.push(t("import.unknownExercise", { at: iat, value: JSON.stringify(key) }));
+        const duration = it.duration ?? seen.get(key) ?? exerciseByKey(key)?.duration;
+        if (!isPositive(duration)) return errors.push(t("import.badItemDuration", { at: `${iat} ("${key}")` }));
+        if (it.tempo !== undefined && typeof it.tempo !== "string") errors.push(t("import.mustBeText", { at: `${iat} ("${key}")`, field: "tempo" }));
+        items.push({ key, duration: Number(duration), ...checkTarget(it, `${iat} ("${key}")`, errors) });
+      });
+      const interval = p?.interval === undefined ? undefined : checkInterval(p.interval, pat, errors);
+      return { phase: p?.phase as Phase, rounds: Number(rounds), items, ...(interval && { interval }) };
+    });
+    // Un id repetido (p. ej. reimportar lo mismo) recibe uno nuevo para no pisar rutinas locales
+    const id = typeof raw.id === "string" && raw.id && !ids.has(raw.id) ? raw.id : uid();
+    ids.add(id);
+    let transitions: Transitions | undefined;
+    if (raw.transitions !== undefined) {
+      const given = (raw.transitions ?? {}) as Json;
+      transitions = { ...NO_TRANSITIONS };
+      for (const field of Object.keys(NO_TRANSITIONS) as (keyof Transitions)[]) {
+        const v = given[field] ?? 0;
+        if (typeof v !== "number" || !(v >= 0)) errors.push(t("import.badTransition", { at, field }));
+        else transitions[field] = v;
+      }
+    }
+    // Las fases se guardan siempre completas y en orden canónico
+    return {
+      id, name,
+      phases: PHASES.map((phase) => phases.find((p) => p.phase === phase) ?? { phase, rounds: 1, items: [] }),
+      ...(transitions && { transitions }),
+    };
+  }
+
+  const routines: Routine[] = [];
+  const rawRoutines = data.routines ?? [];
+  if (!Array.isArray(rawRoutines)) errors.push(t("import.mustBeList", { field: "routines" }));
+  else rawRoutines.forEach((raw: Json, ri: number) => {
+    const r = parseRoutine(raw, `routines[${ri}]`, t("routine.importedN", { n: ri + 1 }));
+    if (r) routines.push(r);
+  });
+
+  // --- Planes de varias semanas (opcional)
+  const plans: TrainingPlan[] = [];
+  const planIds = new Set(existingPlanIds);
+  const rawPlans = data.plans ?? [];
+  if (!Array.isArray(rawPlans)) errors.push(t("import.mustBeList", { field: "plans" }));
+  else rawPlans.forEach((raw: Json, pi: number) => {
+    const at = `plans[${pi}]`;
+    if (!raw || typeof raw !== "object") return errors.push(t("import.mustBeObject", { at }));
+    const name = typeof raw.name === "string" && raw.name.trim() ? raw.name : t("plans.importedN", { n: pi + 1 });
+    const where = `${at} ("${name}")`;
+    if (raw.description !== undefined && typeof raw.description !== "string") errors.push(t("import.mustBeText", { at: where, field: "description" }));
+    const days = raw.daysPerWeek;
+    if (!isPositive(days) || !Number.isInteger(days) || days > 7) errors.push(t("import.badDaysPerWeek", { at: where }));
+    const planRoutines: Routine[] = [];
+    if (!Array.isArray(raw.routines) || !raw.routines.length) errors.push(t("import.planRoutines", { at: where }));
+    else (raw.routines as Json[]).forEach((r, ri) => {
+      const routine = parseRoutine(r, `${at}.routines[${ri}]`, `${name} ${ri + 1}`);
+      if (routine) planRoutines.push(routine);
+    });
+    const weeks: PlanWeek[] = [];
+    if (!Array.isArray(raw.weeks) || !raw.weeks.length) errors.push(t("import.planWeeks", { at: where }));
+    else (raw.weeks as Json[]).forEach((w, wi) => {
+      const week = checkWeek(w, `${at}.weeks[${wi}]`, known, errors);
+      if (week) weeks.push(week);
+    });
+    const id = typeof raw.id === "string" && raw.id && !planIds.has(raw.id) ? raw.id : uid();
+    planIds.add(id);
+    plans.push({
+      id, name, daysPerWeek: Number(days), routines: planRoutines, weeks,
+      ...(typeof raw.description === "string" && { description: raw.description }),
+    });
+  });
+
+  if (!errors.length && !exercises.length && !routines.length && !plans.length) errors.push(t("import.empty"));
+  return errors.length ? { ok: false, errors } : { ok: true, exercises, routines, plans, warnings };
+}
+
+// Campos opcionales de modo reps/series, compartidos por ejercicios e items de rutina
+function checkTarget(raw: Json, where: string, errors: string[]) {
+  const { mode, reps, sets, rest, tempo } = raw;
+  if (mode !== undefined && !EXERCISE_MODES.includes(mode as ExerciseMode)) {
+    errors.push(t("import.unknownMode", { at: where, value: JSON.stringify(mode), options: EXERCISE_MODES.join(", ") }));
+  }
+  for (const [name, v] of [["reps", reps], ["sets", sets]] as const) {
+    if (v !== undefined && (!isPositive(v) || !Number.isInteger(v))) errors.push(t("import.badInt", { at: where, field: name }));
+  }
+  if (rest !== undefined && (typeof rest !== "number" || !(rest >= 0))) errors.push(t("import.badRest", { at: where }));
+  return {
+    ...(mode !== undefined && { mode: mode as ExerciseMode }),
+    ...(typeof reps === "number" && { reps }),
+    ...(typeof sets === "number" && { sets }),
+    ...(typeof rest === "number" && { rest }),
+    ...(typeof tempo === "string" && { tempo }),
+  };
+}
+
+// Fase por intervalos (opcional): formato conocido y reloj en segundos; lo que falte sale del preset
+function checkInterval(raw: unknown, where: string, errors: string[]): Interval | undefined {
+  const iv = (raw ?? {}) as Json;
+  const format = iv.format as IntervalFormat;
+  if (!INTERVAL_FORMATS.includes(format)) {
+    errors.push(t("import.unknownInterval", { at: where, value: JSON.stringify(iv.format), options: INTERVAL_FORMATS.join(", ") }));
+    return undefined;
+  }
+  const { work = INTERVAL_PRESETS[format].work, rest = INTERVAL_PRESETS[format].rest, rounds = INTERVAL_PRESETS[format].rounds } = iv;
+  const whole = (v: unknown): v is number => isPositive(v) && Number.isInteger(v);
+  if (!whole(work) || !whole(rounds) || typeof rest !== "number" || !(rest >= 0)) {
+    errors.push(t("import.badInterval", { at: where }));
+    return undefined;
+  }
+  return { format, work, rest, rounds };
+}
+
+// Semana de un plan: `scale` > 0, `extraRounds` entero ≥ 0 y `swap` entre ejercicios conocidos
+function checkWeek(raw: Json, where: string, known: (key: string) => boolean, errors: string[]): PlanWeek | undefined {
+  if (!raw || typeof raw !== "object") { errors.push(t("import.mustBeObject", { at: where })); return undefined; }
+  const { scale, extraRounds, swap } = raw;
+  if (scale !== undefined && !isPositive(scale)) errors.push(t("import.badScale", { at: where }));
+  if (extraRounds !== undefined && (typeof extraRounds !== "number" || !Number.isInteger(extraRounds) || extraRounds < 0)) {
+    errors.push(t("import.badExtraRounds", { at: where }));
+  }
+  if (swap !== undefined) {
+    if (!swap || typeof swap !== "object" || Array.isArray(swap)) errors.push(t("import.mustBeObject", { at: `${where}.swap` }));
+    else for (const [from, to] of Object.entries(swap)) {
+      if (typeof to !== "string" || !known(from) || !known(to)) errors.push(t("import.unknownExercise", { at: `${where}.swap`, value: JSON.stringify(known(from) ? to : from) }));
+    }
+  }
+  return {
+    ...(isPositive(scale) && { scale }),
+    ...(typeof extraRounds === "number" && { extraRounds }),
+    ...(typeof swap === "object" && swap && !Array.isArray(swap) && { swap: swap as Record<string, string> }),
+  };
+}
+
+// Metadatos opcionales del catálogo: listas de valores conocidos (`variants` admite cualquier `key`)
+function checkMeta(raw: Json, where: string, errors: string[]) {
+  const meta: Pick<Exercise, "tags" | "areas" | "equipment" | "variants"> = {};
+  for (const [field, allowed] of [["tags", EXERCISE_TAGS], ["areas", BODY_AREAS], ["equipment", EQUIPMENT], ["variants", null]] as const) {
+    const v = raw[field];
+    if (v === undefined) continue;
+    if (!Array.isArray(v) || !v.every((x) => typeof x === "string")) {
+      errors.push(t("import.mustBeTextList", { at: where, field }));
+      continue;
+    }
+    const unknown = allowed ? v.filter((x) => !(allowed as readonly string[]).includes(x)) : [];
+    if (unknown.length) errors.push(t("import.unknownValues", { at: where, field, value: unknown.join(", "), options: allowed!.join(", ") }));
+    else Object.assign(meta, { [field]: v });
+  }
+  return meta;
+}
+
+const isPositive = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v) && v > 0;
@@ -0,0 +1,53 @@
+import { loadJSON, saveJSON } from "./storage";
+
+// ===== Preferencias generales =====
+export type Theme = "dark" | "light" | "system";
+export const THEMES: Theme[] = ["dark", "light", "system"];
+
+export interface Settings {
+  muted: boolean;
+  autoFullscreen: boolean; // pantalla completa al pulsar Iniciar
+  durationScale: number;   // multiplica duraciones, descansos y repeticiones (0.5× ≈ 10 min, 1.5× ≈ 30 min)
+  defaultRounds: number;   // rondas de fuerza de las rutinas nuevas
+  autoAdvance: boolean;    // false = al acabar un ejercicio con tiempo se espera a que el usuario continúe
+  keepAwake: boolean;      // mantener la pantalla encendida durante la sesión
+  theme: Theme;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  muted: false,
+  autoFullscreen: true,
+  durationScale: 1,
+  defaultRounds: 2,
+  autoAdvance: true,
+  keepAwake: true,
+  theme: "dark",
+};
+
+export const DURATION_SCALES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+const SETTINGS_KEY = "settings";
+export const loadSettings = (): Settings => {
+  const saved = { ...DEFAULT_SETTINGS, ...loadJSON<Partial<Settings>>(SETTINGS_KEY, {}) };
+  return THEMES.includes(saved.theme) ? saved : { ...saved, theme: DEFAULT_SETTINGS.theme };
+};
+export const saveSettings = (s: Settings) => saveJSON(SETTINGS_KEY, s);
+
+// Lectura puntual fuera de React (p. ej. al crear una rutina nueva)
+export const getSetting = <K extends keyof Settings>(key: K) => loadSettings()[key];
+
+// ===== Tema =====
+// Los temas redefinen la paleta emerald en index.css (atributo data-theme en <html>);
+// "system" sigue a prefers-color-scheme mientras esté elegido.
+const lightQuery = () => globalThis.matchMedia?.("(prefers-color-scheme: light)");
+
+export function applyTheme(theme: Theme) {
+  const query = lightQuery();
+  const apply = () => {
+    document.documentElement.dataset.theme = theme === "system" ? (query?.matches ? "light" : "dark") : theme;
+  };
+  apply();
+  if (theme !== "system" || !query) return () => {};
+  query.addEventListener("change", apply);
+  return () => query.removeEventListener("change", apply);
+}
@@ -0,0 +1,104 @@
+import { loadJSON, saveJSON } from "./storage";
+
+// ===== Sonidos (Web Audio) =====
+// Tonos generados al vuelo: no dependen de archivos ni de la política de autoplay del <audio>.
+// El AudioContext nace suspendido hasta un gesto del usuario; unlockAudio() se llama al iniciar.
+export type SoundCue = "tick" | "step" | "phase" | "half" | "side" | "end";
+
+interface Tone {
+  freq: number;
+  ms: number;
+  at?: number; // ms desde el inicio del sonido
+  wave?: OscillatorType;
+  gain?: number; // relativo al volumen general
+}
+
+export type SoundPackId = "clasico" | "suave" | "campana";
+
+// Nombres visibles: "sound.pack.<id>" en las traducciones
+export const SOUND_PACKS: Record<SoundPackId, { cues: Record<SoundCue, Tone[]> }> = {
+  clasico: {
+    cues: {
+      tick: [{ freq: 880, ms: 90, wave: "square", gain: 0.5 }],
+      step: [{ freq: 660, ms: 120, wave: "square" }, { freq: 990, ms: 160, at: 140, wave: "square" }],
+      phase: [{ freq: 523, ms: 140, wave: "square" }, { freq: 659, ms: 140, at: 160, wave: "square" }, { freq: 784, ms: 220, at: 320, wave: "square" }],
+      half: [{ freq: 740, ms: 80, wave: "square", gain: 0.6 }, { freq: 740, ms: 80, at: 130, wave: "square", gain: 0.6 }],
+      side: [{ freq: 990, ms: 120, wave: "square", gain: 0.7 }, { freq: 660, ms: 180, at: 150, wave: "square", gain: 0.7 }],
+      end: [523, 659, 784, 1047].map((freq, i) => ({ freq, ms: i === 3 ? 450 : 150, at: i * 170, wave: "square" as const })),
+    },
+  },
+  suave: {
+    cues: {
+      tick: [{ freq: 600, ms: 120, gain: 0.6 }],
+      step: [{ freq: 440, ms: 200 }, { freq: 660, ms: 260, at: 180 }],
+      phase: [{ freq: 392, ms: 220 }, { freq: 523, ms: 220, at: 200 }, { freq: 659, ms: 320, at: 400 }],
+      half: [{ freq: 520, ms: 160, gain: 0.6 }],
+      side: [{ freq: 660, ms: 200, gain: 0.7 }, { freq: 440, ms: 260, at: 200, gain: 0.7 }],
+      end: [392, 494, 587, 784].map((freq, i) => ({ freq, ms: i === 3 ? 700 : 220, at: i * 220 })),
+    },
+  },
+  campana: {
+    cues: {
+      tick: [{ freq: 1320, ms: 180, wave: "triangle", gain: 0.5 }],
+      step: [{ freq: 1046, ms: 600, wave: "triangle" }, { freq: 2093, ms: 400, wave: "sine", gain: 0.3 }],
+      phase: [{ freq: 784, ms: 700, wave: "triangle" }, { freq: 1046, ms: 700, at: 250, wave: "triangle" }],
+      half: [{ freq: 1568, ms: 300, wave: "triangle", gain: 0.5 }],
+      side: [{ freq: 1318, ms: 400, wave: "triangle", gain: 0.6 }, { freq: 988, ms: 600, at: 220, wave: "triangle", gain: 0.6 }],
+      end: [{ freq: 784, ms: 900, wave: "triangle" }, { freq: 988, ms: 900, at: 200, wave: "triangle" }, { freq: 1175, ms: 1200, at: 400, wave: "triangle" }],
+    },
+  },
+};
+
+export const SOUND_CUES: SoundCue[] = ["tick", "step", "phase", "half", "side", "end"];
+
+export interface SoundSettings {
+  volume: number; // 0..1
+  pack: SoundPackId;
+}
+
+export const DEFAULT_SOUND_SETTINGS: SoundSettings = { volume: 0.6, pack: "clasico" };
+
+const SOUND_KEY = "sound";
+export const loadSoundSettings = (): SoundSettings => {
+  const saved = { ...DEFAULT_SOUND_SETTINGS, ...loadJSON<Partial<SoundSettings>>(SOUND_KEY, {}) };
+  return saved.pack in SOUND_PACKS ? saved : { ...saved, pack: DEFAULT_SOUND_SETTINGS.pack };
+};
+export const saveSoundSettings = (s: SoundSettings) => saveJSON(SOUND_KEY, s);
+
+let ctx: AudioContext | null = null;
+function context() {
+  if (!ctx) {
+    const Ctor = globalThis.AudioContext ?? (globalThis as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!Ctor) return null;
+    ctx = new Ctor();
+  }
+  return ctx;
+}
+
+// Llamar desde un gesto del usuario (clic/tecla): reanuda el contexto suspendido
+export function unlockAudio() {
+  const c = context();
+  if (c?.state === "suspended") c.resume().catch(() => {});
+}
+
+export function playCue(cue: SoundCue, settings: SoundSettings) {
+  const c = context();
+  if (!c || c.state === "closed" || settings.volume <= 0) return;
+  const t0 = c.currentTime + 0.01;
+  for (const { freq, ms, at = 0, wave = "sine", gain = 1 } of SOUND_PACKS[settings.pack].cues[cue]) {
+    const start = t0 + at / 1000;
+    const end = start + ms / 1000;
+    const osc = c.createOscillator();
+    const amp = c.createGain();
+    osc.type = wave;
+    osc.frequency.value = freq;
+    // Ataque corto y caída exponencial para evitar clics
+    const peak = 0.4 * settings.volume * gain;
+    amp.gain.setValueAtTime(0.0001, start);
+    amp.gain.exponentialRampToValueAtTime(peak, start + 0.01);
+    amp.gain.exponentialRampToValueAtTime(0.0001, end);
+    osc.connect(amp).connect(c.destination);
+    osc.start(start);
+    osc.stop(end + 0.02);
+  }
+}
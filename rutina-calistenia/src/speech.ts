@@ -0,0 +1,65 @@
+import { useEffect, useState } from "react";
+import { loadJSON, saveJSON } from "./storage";
+
+// ===== Voz (Web Speech API) =====
+export interface Announcements {
+  step: boolean;      // título del ejercicio al empezar
+  cue: boolean;       // indicación técnica tras el título
+  time: boolean;      // "30 segundos", "10 segundos"
+  countdown: boolean; // 3-2-1
+  phase: boolean;     // cambio de fase
+  end: boolean;       // fin de la sesión
+}
+export interface VoiceSettings {
+  enabled: boolean;
+  lang: string;
+  voiceURI?: string;
+  rate: number;
+  announce: Announcements;
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  enabled: false,
+  lang: "es-ES",
+  rate: 1,
+  announce: { step: true, cue: true, time: true, countdown: true, phase: true, end: true },
+};
+
+const VOICE_KEY = "voice";
+export const loadVoiceSettings = (): VoiceSettings => {
+  const saved = loadJSON<Partial<VoiceSettings>>(VOICE_KEY, {});
+  return { ...DEFAULT_VOICE_SETTINGS, ...saved, announce: { ...DEFAULT_VOICE_SETTINGS.announce, ...saved.announce } };
+};
+export const saveVoiceSettings = (v: VoiceSettings) => saveJSON(VOICE_KEY, v);
+
+export const speechSupported = () => typeof window !== "undefined" && "speechSynthesis" in window;
+
+// `interrupt`: corta lo que se esté diciendo (p. ej. al empezar un paso nuevo)
+export function speak(text: string, settings: VoiceSettings, interrupt = false) {
+  if (!speechSupported() || !settings.enabled) return;
+  const synth = window.speechSynthesis;
+  if (interrupt) synth.cancel();
+  const u = new SpeechSynthesisUtterance(text);
+  u.lang = settings.lang;
+  u.rate = settings.rate;
+  const voice = synth.getVoices().find((v) => v.voiceURI === settings.voiceURI);
+  if (voice) u.voice = voice;
+  synth.speak(u);
+}
+
+export function stopSpeaking() {
+  if (speechSupported()) window.speechSynthesis.cancel();
+}
+
+// Las voces se cargan de forma asíncrona en Chrome (evento `voiceschanged`)
+export function useVoices() {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() => (speechSupported() ? window.speechSynthesis.getVoices() : []));
+  useEffect(() => {
+    if (!speechSupported()) return;
+    const update = () => setVoices(window.speechSynthesis.getVoices());
+    update();
+    window.speechSynthesis.addEventListener("voiceschanged", update);
+    return () => window.speechSynthesis.removeEventListener("voiceschanged", update);
+  }, []);
+  return voices;
+}
@@ -0,0 +1,78 @@
+// ===== Persistencia local (localStorage) =====
+// Todas las claves llevan el prefijo de la app para no chocar con otras apps del mismo origen.
+const PREFIX = "rutina-calistenia:";
+
+// ===== Perfiles =====
+// Cada perfil guarda sus datos bajo "rutina-calistenia:profile:<id>:<clave>". El perfil inicial
+// usa las claves sin perfil de siempre, así los datos de antes de existir perfiles siguen siendo
+// suyos. La lista de perfiles y el activo son comunes. El perfil se fija al cargar la página:
+// cambiarlo recarga la app (los módulos leen sus datos al importarse).
+export const DEFAULT_PROFILE_ID = "default";
+const GLOBAL_KEYS = new Set(["profiles", "active-profile"]);
+const PROFILE_PREFIX = "profile:";
+
+function readGlobal<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(PREFIX + key);
+    return raw == null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+}
+
+const activeProfile = readGlobal<string>("active-profile", DEFAULT_PROFILE_ID);
+export const getActiveProfileId = () => activeProfile;
+
+const scope = (profile: string) => (profile === DEFAULT_PROFILE_ID ? PREFIX : `${PREFIX}${PROFILE_PREFIX}${profile}:`);
+const storageKey = (key: string) => (GLOBAL_KEYS.has(key) ? PREFIX : scope(activeProfile)) + key;
+
+export function loadJSON<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(storageKey(key));
+    return raw == null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+}
+
+export function saveJSON(key: string, value: unknown) {
+  try { localStorage.setItem(storageKey(key), JSON.stringify(value)); } catch {}
+}
+
+export function removeKey(key: string) {
+  try { localStorage.removeItem(storageKey(key)); } catch {}
+}
+
+// Claves (sin prefijo) con datos de un perfil y su contenido, para exportarlo o borrarlo
+export function profileEntries(profile: string): [string, unknown][] {
+  const prefix = scope(profile);
+  const out: [string, unknown][] = [];
+  try {
+    for (let i = 0; i < localStorage.length; i++) {
+      const full = localStorage.key(i);
+      if (!full?.startsWith(prefix)) continue;
+      const key = full.slice(prefix.length);
+      // Las claves del perfil inicial no llevan marca: se excluyen las globales y las de otros perfiles
+      if (GLOBAL_KEYS.has(key) || (profile === DEFAULT_PROFILE_ID && key.startsWith(PROFILE_PREFIX))) continue;
+      try { out.push([key, JSON.parse(localStorage.getItem(full) ?? "null")]); } catch { /* valor corrupto: se omite */ }
+    }
+  } catch {}
+  return out;
+}
+
+export function writeProfileEntries(profile: string, entries: [string, unknown][]) {
+  for (const [key, value] of entries) {
+    if (GLOBAL_KEYS.has(key)) continue;
+    try { localStorage.setItem(scope(profile) + key, JSON.stringify(value)); } catch {}
+  }
+}
+
+export function removeProfileData(profile: string) {
+  for (const [key] of profileEntries(profile)) {
+    try { localStorage.removeItem(scope(profile) + key); } catch {}
+  }
+}
+
+// Id corto y único (suficiente para datos locales)
+export const uid = () =>
+  globalThis.crypto?.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { formatClock, summarize } from "./summary";
+import { type Phase, type Step, DEFAULT_ROUTINE, buildProgram, programSeconds } from "./routines";
+import type { SessionLog, SessionStep } from "./history";
+
+// El resumen compara lo registrado con el programa de la rutina por defecto
+const program = buildProgram(DEFAULT_ROUTINE, 1);
+const workIn = (phase: Phase) => program.filter((s) => s.kind === "work" && s.phase === phase);
+const logged = (s: Step, skipped = false): SessionStep =>
+  ({ key: s.key, title: s.title, phase: s.phase, duration: s.duration, seconds: skipped ? 0 : s.duration, skipped });
+
+const today = new Date(2026, 9, 21, 20); // miércoles
+const morning = (day: number) => new Date(2026, 9, day, 8).getTime();
+const sessionOn = (day: number, steps: SessionStep[] = [], extra: Partial<SessionLog> = {}): SessionLog => ({
+  id: `s${day}`, startedAt: morning(day), endedAt: morning(day) + 600_000, routineId: DEFAULT_ROUTINE.id, routineName: DEFAULT_ROUTINE.name,
+  totalSteps: program.length, steps, pausedMs: 0, reachedEnd: true, ...extra,
+});
+
+describe("summarize", () => {
+  it("cuenta por fase lo hecho, lo saltado y lo que no se llegó a hacer", () => {
+    const warmup = workIn("warmup"), strength = workIn("strength");
+    const s = sessionOn(21, [...warmup.map((st) => logged(st)), logged(strength[0]), logged(strength[1], true)], { reachedEnd: false });
+    expect(summarize(s, program, [s], today).phases).toEqual([
+      { phase: "warmup", done: warmup.length, skipped: 0, missed: 0 },
+      { phase: "strength", done: 1, skipped: 1, missed: strength.length - 2 },
+      { phase: "cooldown", done: 0, skipped: 0, missed: workIn("cooldown").length },
+    ]);
+  });
+
+  it("el tiempo activo descuenta las pausas y se compara con el del programa", () => {
+    const s = sessionOn(21, [], { pausedMs: 90_000, pauses: 2 });
+    expect(summarize(s, program, [s], today)).toMatchObject({
+      activeSeconds: 510, pausedSeconds: 90, pauses: 2, plannedSeconds: programSeconds(program),
+    });
+  });
+
+  it("racha y semana salen del historial", () => {
+    const history = [12, 18, 19, 20, 21].map((day) => sessionOn(day));
+    // El domingo 18 cuenta para la racha pero es de la semana anterior
+    expect(summarize(history[4], program, history, today)).toMatchObject({ streak: 4, longest: 4, week: 3 });
+  });
+
+  it("la nota de esfuerzo es la media de los check-ins", () => {
+    const s = sessionOn(21, [], { checkins: [{ key: "low-plank", rpe: 6, pain: [] }, { key: "bird-dog", rpe: 8, pain: [] }] });
+    expect(summarize(s, program, [s], today).rpe).toBe(7);
+    expect(summarize(sessionOn(21), program, [], today).rpe).toBeNull();
+  });
+});
+
+describe("formatClock", () => {
+  it("minutos y segundos con dos cifras", () => {
+    expect(formatClock(0)).toBe("0:00");
+    expect(formatClock(65)).toBe("1:05");
+    expect(formatClock(3600)).toBe("60:00");
+  });
+});
@@ -0,0 +1,155 @@
+import { type Phase, type Step, PHASES, phaseLabel, programSeconds } from "./routines";
+import { type SessionLog, WEEKLY_GOAL, streaks, weekCount } from "./history";
+import { t, tp, getLocale } from "./i18n";
+
+// ===== Resumen de fin de sesión =====
+// Tiempo activo = de Iniciar a terminar sin las pausas; se compara con la duración del programa.
+// Por fase: pasos de trabajo hechos, saltados y sin llegar (si se saltó la fase entera).
+export interface PhaseTally { phase: Phase; done: number; skipped: number; missed: number }
+export interface SessionSummary {
+  session: SessionLog;
+  activeSeconds: number;
+  plannedSeconds: number;
+  phases: PhaseTally[];
+  pauses: number;
+  pausedSeconds: number;
+  streak: number;
+  longest: number;
+  week: number;
+  rpe: number | null;
+}
+
+export function summarize(session: SessionLog, program: Step[], history: SessionLog[], now = new Date()): SessionSummary {
+  const phases = PHASES.map((phase) => {
+    const logged = session.steps.filter((s) => s.phase === phase);
+    const done = logged.filter((s) => !s.skipped).length;
+    const skipped = logged.length - done;
+    const planned = program.filter((s) => s.kind === "work" && s.phase === phase).length;
+    return { phase, done, skipped, missed: Math.max(0, planned - done - skipped) };
+  }).filter((p) => p.done + p.skipped + p.missed > 0);
+  const { current, longest } = streaks(history, now);
+  const rpe = session.checkins?.length ? session.checkins.reduce((a, c) => a + c.rpe, 0) / session.checkins.length : null;
+  return {
+    session,
+    activeSeconds: Math.max(0, Math.round((session.endedAt - session.startedAt - session.pausedMs) / 1000)),
+    plannedSeconds: programSeconds(program),
+    phases,
+    pauses: session.pauses ?? 0,
+    pausedSeconds: Math.round(session.pausedMs / 1000),
+    streak: current,
+    longest,
+    week: weekCount(history, now),
+    rpe,
+  };
+}
+
+export const formatClock = (s: number) => `${Math.floor(s / 60)}:${String(Math.round(s % 60)).padStart(2, "0")}`;
+
+export function streakLine(sum: SessionSummary) {
+  if (sum.streak > 1 && sum.streak >= sum.longest) return t("finish.streakRecord", { days: tp("history.days", sum.streak) });
+  return t("finish.streak", { days: tp("history.days", sum.streak) });
+}
+export const weekLine = (sum: SessionSummary) =>
+  sum.week >= WEEKLY_GOAL.min ? t("finish.weekMet", { n: sum.week }) : t("finish.weekLeft", { n: sum.week, left: WEEKLY_GOAL.min - sum.week });
+
+// ===== Tarjeta para compartir (PNG) =====
+// Se dibuja en un canvas con los colores de la app; no sale nada del dispositivo.
+const CARD = { w: 1080, h: 1350, pad: 80 };
+const COLORS = { top: "#064e3b", bottom: "#022c22", text: "#ecfdf5", soft: "#a7f3d0", dim: "#6ee7b7", accent: "#34d399", track: "rgba(236,253,245,0.12)", warn: "#fcd34d" };
+const FONT = "system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif";
+
+// Recorta con "…" lo que no cabe en `max` píxeles
+function fitText(ctx: CanvasRenderingContext2D, text: string, max: number) {
+  if (ctx.measureText(text).width <= max) return text;
+  let s = text;
+  while (s && ctx.measureText(s + "…").width > max) s = s.slice(0, -1);
+  return s + "…";
+}
+
+function roundRect(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number) {
+  ctx.beginPath();
+  ctx.roundRect(x, y, w, h, r);
+  ctx.fill();
+}
+
+export function drawSummaryCard(canvas: HTMLCanvasElement, sum: SessionSummary) {
+  const { w, h, pad } = CARD;
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext("2d")!;
+  const inner = w - pad * 2;
+
+  const bg = ctx.createLinearGradient(0, 0, 0, h);
+  bg.addColorStop(0, COLORS.top);
+  bg.addColorStop(1, COLORS.bottom);
+  ctx.fillStyle = bg;
+  ctx.fillRect(0, 0, w, h);
+
+  // Marca y fecha
+  ctx.textBaseline = "alphabetic";
+  ctx.fillStyle = COLORS.accent;
+  roundRect(ctx, pad, pad, 64, 64, 16);
+  ctx.fillStyle = COLORS.bottom;
+  ctx.font = `bold 34px ${FONT}`;
+  ctx.textAlign = "center";
+  ctx.fillText(String(Math.round(sum.plannedSeconds / 60)), pad + 32, pad + 44);
+  ctx.textAlign = "left";
+  ctx.fillStyle = COLORS.text;
+  ctx.font = `600 34px ${FONT}`;
+  ctx.fillText(t("finish.brand"), pad + 88, pad + 30);
+  ctx.fillStyle = COLORS.dim;
+  ctx.font = `28px ${FONT}`;
+  ctx.fillText(new Date(sum.session.startedAt).toLocaleDateString(getLocale(), { weekday: "long", day: "numeric", month: "long" }), pad + 88, pad + 66);
+
+  // Rutina y tiempo activo
+  let y = pad + 190;
+  ctx.fillStyle = COLORS.soft;
+  ctx.font = `600 40px ${FONT}`;
+  ctx.fillText(fitText(ctx, sum.session.routineName, inner), pad, y);
+  y += 150;
+  ctx.fillStyle = COLORS.text;
+  ctx.font = `bold 150px ${FONT}`;
+  ctx.fillText(formatClock(sum.activeSeconds), pad, y);
+  y += 60;
+  ctx.fillStyle = COLORS.dim;
+  ctx.font = `32px ${FONT}`;
+  ctx.fillText(t("finish.activeOf", { planned: formatClock(sum.plannedSeconds) }), pad, y);
+
+  // Fases: barra de hechos sobre el total
+  y += 90;
+  for (const p of sum.phases) {
+    const total = p.done + p.skipped + p.missed;
+    ctx.fillStyle = COLORS.text;
+    ctx.font = `600 34px ${FONT}`;
+    ctx.fillText(phaseLabel(p.phase), pad, y);
+    ctx.textAlign = "right";
+    ctx.fillStyle = p.done === total ? COLORS.accent : COLORS.warn;
+    ctx.fillText(`${p.done}/${total}`, w - pad, y);
+    ctx.textAlign = "left";
+    y += 24;
+    ctx.fillStyle = COLORS.track;
+    roundRect(ctx, pad, y, inner, 18, 9);
+    if (p.done) {
+      ctx.fillStyle = COLORS.accent;
+      roundRect(ctx, pad, y, Math.max(18, (inner * p.done) / total), 18, 9);
+    }
+    y += 80;
+  }
+
+  // Racha, semana y pausas
+  const stats = [streakLine(sum), weekLine(sum), sum.pauses ? tp("finish.pauses", sum.pauses) : t("finish.noPauses")];
+  if (sum.rpe != null) stats.push(t("history.rpe", { n: sum.rpe.toFixed(1) }));
+  y = Math.max(y + 10, h - pad - 60 - stats.length * 52);
+  ctx.fillStyle = COLORS.soft;
+  ctx.font = `32px ${FONT}`;
+  for (const line of stats) { ctx.fillText(fitText(ctx, line, inner), pad, y); y += 52; }
+
+  ctx.fillStyle = COLORS.dim;
+  ctx.font = `26px ${FONT}`;
+  ctx.textAlign = "right";
+  ctx.fillText(sum.session.reachedEnd ? t("finish.complete") : t("history.incomplete"), w - pad, h - pad + 10);
+  ctx.textAlign = "left";
+}
+
+export const cardBlob = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("toBlob"))), "image/png"));
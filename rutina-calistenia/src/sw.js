@@ -0,0 +1,54 @@
+// ===== Service worker (modo offline) =====
+// Plantilla: al compilar, vite.config.js sustituye __PRECACHE__ por la lista de archivos del build
+// y __VERSION__ por un hash de esa lista. En desarrollo no se registra.
+const VERSION = "__VERSION__";
+const APP_CACHE = `app-${VERSION}`;
+const IMG_CACHE = "images-v1"; // sobrevive a las actualizaciones de la app
+/* global __PRECACHE__ */
+const PRECACHE = __PRECACHE__;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(APP_CACHE).then((c) => c.addAll(PRECACHE)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((k) => k !== APP_CACHE && k !== IMG_CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+// Imágenes remotas: se guardan como respuestas opacas (no-cors), válidas para <img>
+async function cacheImage(cache, request) {
+  const res = await fetch(request);
+  if (res.ok || res.type === "opaque") await cache.put(request, res.clone());
+  return res;
+}
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type !== "precache-images") return;
+  event.waitUntil(caches.open(IMG_CACHE).then((cache) => Promise.all(event.data.urls.map(async (url) => {
+    const req = new Request(url, { mode: "no-cors" });
+    if (!(await cache.match(req))) await cacheImage(cache, req).catch(() => {});
+  }))));
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  // Navegación: red primero para recoger versiones nuevas; sin red, la app cacheada
+  if (request.mode === "navigate") {
+    event.respondWith(fetch(request).catch(() => caches.match("./")));
+    return;
+  }
+  if (url.origin === self.location.origin) {
+    event.respondWith(caches.match(request).then((hit) => hit ?? fetch(request)));
+    return;
+  }
+  if (request.destination === "image") {
+    event.respondWith(caches.open(IMG_CACHE).then(async (cache) => (await cache.match(request)) ?? cacheImage(cache, request)));
+  }
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { createTimer, type TimerEvents } from "./timer";
+
+// Reloj manual: el motor solo avanza cuando se llama a tick()
+function setup(durations: (number | null)[]) {
+  let now = 0;
+  const timer = createTimer(durations, { now: () => now, tickMs: 60_000 });
+  const events: string[] = [];
+  timer.on("stepstart", ({ idx }) => events.push(`start:${idx}`));
+  timer.on("stepend", ({ idx, reason }: TimerEvents["stepend"]) => events.push(`end:${idx}:${reason}`));
+  timer.on("finish", () => events.push("finish"));
+  const advance = (s: number) => { now += s * 1000; timer.tick(); };
+  return { timer, events, advance };
+}
+
+describe("createTimer", () => {
+  it("cuenta atrás y pasa de paso al terminar", () => {
+    const { timer, events, advance } = setup([10, 5]);
+    timer.start();
+    advance(4);
+    expect(timer.getState()).toMatchObject({ idx: 0, remaining: 6, elapsed: 4, running: true });
+    advance(7);
+    expect(timer.getState()).toMatchObject({ idx: 1, remaining: 4 });
+    expect(events).toEqual(["start:0", "end:0:done", "start:1"]);
+    timer.dispose();
+  });
+
+  it("se pone al día tras un hueco largo y termina", () => {
+    const { timer, events, advance } = setup([3, 3, 3]);
+    timer.start();
+    advance(20);
+    expect(events).toEqual(["start:0", "end:0:done", "start:1", "end:1:done", "start:2", "end:2:done", "finish"]);
+    expect(timer.getState()).toMatchObject({ finished: true, running: false });
+  });
+
+  it("no cuenta el tiempo en pausa", () => {
+    const { timer, advance } = setup([10]);
+    timer.start();
+    advance(3);
+    timer.pause();
+    advance(100);
+    expect(timer.getState()).toMatchObject({ remaining: 7, running: false });
+    timer.start();
+    advance(2);
+    expect(timer.getState().remaining).toBe(5);
+    timer.dispose();
+  });
+
+  it("skip y complete terminan el paso con su motivo", () => {
+    const { timer, events } = setup([10, null, 10]);
+    timer.start();
+    timer.skip();
+    expect(timer.getState()).toMatchObject({ idx: 1, open: true, remaining: 0, duration: 0 });
+    timer.complete();
+    expect(events).toEqual(["start:0", "end:0:skip", "start:1", "end:1:done", "start:2"]);
+    timer.dispose();
+  });
+
+  it("un paso abierto cuenta hacia arriba sin terminar solo", () => {
+    const { timer, advance } = setup([null]);
+    timer.start();
+    advance(500);
+    expect(timer.getState()).toMatchObject({ idx: 0, open: true, finished: false });
+    timer.dispose();
+  });
+
+  it("seek salta a un paso y segundo sin emitir stepend", () => {
+    const { timer, events } = setup([10, 20, 30]);
+    timer.start();
+    timer.seek(2, 12);
+    expect(timer.getState()).toMatchObject({ idx: 2, remaining: 12 });
+    expect(events).toEqual(["start:0", "start:2"]);
+    timer.dispose();
+  });
+
+  it("adjust suma tiempo y, si resta más de lo que queda, termina el paso", () => {
+    const { timer, events, advance } = setup([10, 10]);
+    timer.start();
+    advance(4);
+    timer.adjust(15);
+    expect(timer.getState()).toMatchObject({ remaining: 21, duration: 25 });
+    timer.adjust(-60);
+    expect(timer.getState().idx).toBe(1);
+    expect(events).toContain("end:0:done");
+    timer.dispose();
+  });
+
+  it("al volver a un paso con seek se descartan sus ajustes", () => {
+    const { timer } = setup([10, 10]);
+    timer.adjust(30);
+    timer.seek(0);
+    expect(timer.getState()).toMatchObject({ idx: 0, remaining: 10, duration: 10 });
+  });
+
+  it("load vuelve al principio en pausa con los pasos nuevos", () => {
+    const { timer, advance } = setup([10, 10]);
+    timer.start();
+    advance(15);
+    timer.load([30]);
+    expect(timer.getState()).toMatchObject({ idx: 0, remaining: 30, running: false, finished: false });
+  });
+});
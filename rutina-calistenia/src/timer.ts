@@ -0,0 +1,195 @@
+// ===== Motor del temporizador =====
+// Máquina de estados independiente de React. El tiempo restante se deriva de marcas de tiempo
+// (reloj de pared), no de contar ticks: si el navegador estrangula los intervalos en segundo
+// plano, el siguiente tick se pone al día y avanza los pasos que hayan terminado mientras tanto.
+// Un paso con duración `null` es abierto (p. ej. repeticiones): cuenta hacia arriba hasta complete().
+
+export type StepEndReason = "done" | "skip";
+
+export interface TimerState {
+  idx: number;
+  remaining: number; // segundos enteros (redondeo hacia arriba, como un reloj de cuenta atrás); 0 en pasos abiertos
+  elapsed: number; // segundos enteros transcurridos en el paso
+  duration: number; // duración del paso en segundos, con los ajustes de adjust(); 0 en pasos abiertos
+  open: boolean;
+  running: boolean;
+  finished: boolean;
+}
+
+export interface TimerEvents {
+  change: TimerState;
+  stepstart: { idx: number };
+  stepend: { idx: number; reason: StepEndReason; elapsed: number };
+  finish: { idx: number };
+}
+
+export interface TimerOptions {
+  now?: () => number; // ms; inyectable para pruebas
+  tickMs?: number;
+}
+
+export type Timer = ReturnType<typeof createTimer>;
+
+type Listeners = { [K in keyof TimerEvents]: Set<(payload: TimerEvents[K]) => void> };
+
+const toMs = (durations: (number | null)[]) => durations.map((s) => (s == null ? Infinity : s * 1000));
+
+export function createTimer(durations: (number | null)[], { now = Date.now, tickMs = 250 }: TimerOptions = {}) {
+  let base = toMs(durations);
+  let steps = [...base]; // duraciones vigentes (adjust() las modifica hasta el próximo restart)
+  let idx = 0;
+  let elapsedMs = 0; // acumulado del paso actual hasta `since`
+  let since: number | null = null; // inicio del tramo en marcha; null = en pausa
+  let finished = false;
+  let announced = -1; // último paso cuyo `stepstart` ya se emitió
+  let interval: ReturnType<typeof setInterval> | null = null;
+
+  const listeners: Listeners = { change: new Set(), stepstart: new Set(), stepend: new Set(), finish: new Set() };
+  function emit<K extends keyof TimerEvents>(event: K, payload: TimerEvents[K]) {
+    listeners[event].forEach((fn) => fn(payload));
+  }
+
+  const elapsed = (t = now()) => elapsedMs + (since == null ? 0 : t - since);
+  const isOpen = () => steps[idx] === Infinity;
+  const read = (): TimerState => {
+    const e = elapsed();
+    return {
+      idx,
+      remaining: isOpen() ? 0 : Math.ceil(Math.max(0, (steps[idx] ?? 0) - e) / 1000),
+      elapsed: Math.floor(Math.min(e, steps[idx] ?? 0) / 1000),
+      duration: isOpen() ? 0 : (steps[idx] ?? 0) / 1000,
+      open: isOpen(),
+      running: since != null,
+      finished,
+    };
+  };
+
+  // Solo se emite `change` cuando cambia algo visible (segundo, paso o estado)
+  let state = read();
+  function sync() {
+    const next = read();
+    if ((Object.keys(next) as (keyof TimerState)[]).some((k) => next[k] !== state[k])) {
+      state = next;
+      emit("change", state);
+    }
+  }
+
+  function announce() {
+    if (since != null && announced !== idx) {
+      announced = idx;
+      emit("stepstart", { idx });
+    }
+  }
+
+  const onVisibility = () => tick();
+  function schedule(on: boolean) {
+    if (on && interval == null) {
+      interval = setInterval(tick, tickMs);
+      globalThis.document?.addEventListener("visibilitychange", onVisibility);
+    } else if (!on && interval != null) {
+      clearInterval(interval);
+      interval = null;
+      globalThis.document?.removeEventListener("visibilitychange", onVisibility);
+    }
+  }
+
+  function finish() {
+    if (!isOpen()) elapsedMs = steps[idx] ?? 0;
+    since = null;
+    finished = true;
+    schedule(false);
+    emit("finish", { idx });
+  }
+
+  // Termina el paso actual y pasa al siguiente, arrastrando `carryMs` de tiempo sobrante
+  function advance(reason: StepEndReason, t: number, carryMs = 0) {
+    emit("stepend", { idx, reason, elapsed: Math.min(elapsed(t), steps[idx]) / 1000 });
+    if (idx >= steps.length - 1) return finish();
+    idx++;
+    elapsedMs = carryMs;
+    if (since != null) since = t;
+    announce();
+  }
+
+  function tick() {
+    const t = now();
+    while (since != null && elapsed(t) >= steps[idx]) advance("done", t, elapsed(t) - steps[idx]);
+    sync();
+  }
+
+  function start() {
+    if (since != null || !steps.length) return;
+    if (finished) restart();
+    since = now();
+    schedule(true);
+    announce();
+    tick();
+  }
+  function pause() {
+    if (since == null) return;
+    elapsedMs = elapsed();
+    since = null;
+    schedule(false);
+    sync();
+  }
+  function skip() {
+    if (finished || !steps.length) return;
+    advance("skip", now());
+    sync();
+  }
+  // El usuario marca como hecho el paso actual (pasos abiertos de repeticiones)
+  function complete() {
+    if (finished || !steps.length) return;
+    advance("done", now());
+    sync();
+  }
+  function restart() {
+    steps = [...base];
+    idx = 0; elapsedMs = 0; finished = false; announced = -1;
+    since = null;
+    schedule(false);
+    sync();
+  }
+  // Salta a un paso (y opcionalmente a un segundo restante concreto) sin contarlo como hecho ni saltado
+  function seek(i: number, remaining?: number) {
+    if (!steps.length) return;
+    idx = Math.min(steps.length - 1, Math.max(0, i));
+    steps[idx] = base[idx]; // al volver a un paso se descartan sus ajustes
+    const total = steps[idx];
+    elapsedMs = remaining == null || isOpen() ? 0 : Math.min(total, Math.max(0, total - remaining * 1000));
+    finished = false;
+    announced = -1;
+    if (since != null) { since = now(); announce(); }
+    sync();
+  }
+  // Suma (o resta) segundos al paso actual; restar más de lo que queda lo termina
+  function adjust(seconds: number) {
+    if (finished || !steps.length || isOpen()) return;
+    steps[idx] = Math.max(elapsed(), steps[idx] + seconds * 1000);
+    tick();
+  }
+
+  return {
+    getState: () => state,
+    tick,
+    start,
+    pause,
+    toggle: () => (since != null ? pause() : start()),
+    skip,
+    complete,
+    restart,
+    seek,
+    adjust,
+    // Nueva lista de pasos (p. ej. al cambiar de rutina): vuelve al inicio en pausa
+    load(next: (number | null)[]) {
+      base = toMs(next);
+      restart();
+    },
+    on<K extends keyof TimerEvents>(event: K, fn: (payload: TimerEvents[K]) => void) {
+      listeners[event].add(fn);
+      return () => { listeners[event].delete(fn); };
+    },
+    // Libera el intervalo; el estado se conserva y vuelve a programarse con start()
+    dispose: () => schedule(false),
+  };
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { type PlanProgress, BUILTIN_PLAN_IDS, allPlans, completesPlanDay, planPosition, planSession, recordSession } from "./trainingPlans";
+import { DEFAULT_ROUTINE } from "./routines";
+import type { SessionLog } from "./history";
+
+// Plan incluido: 6 semanas de 5 días con la rutina por defecto
+const [builtin] = allPlans([], "es");
+const after = (sessions: number): PlanProgress =>
+  ({ startedAt: 0, sessions: Array.from({ length: sessions }, (_, i) => ({ id: `s${i}`, at: i })) });
+const keysOf = (phases: { items: { key: string }[] }[]) => phases.flatMap((p) => p.items.map((it) => it.key));
+
+describe("planPosition", () => {
+  it("avanza por sesiones completadas, no por calendario", () => {
+    expect(BUILTIN_PLAN_IDS.has(builtin.id)).toBe(true);
+    expect(planPosition(builtin)).toEqual({ index: 0, week: 1, day: 1, finished: false });
+    expect(planPosition(builtin, after(7))).toEqual({ index: 7, week: 2, day: 3, finished: false });
+  });
+
+  it("al terminar se queda en el último día", () => {
+    expect(planPosition(builtin, after(30))).toEqual({ index: 29, week: 6, day: 5, finished: true });
+    expect(planPosition(builtin, after(31)).index).toBe(29);
+  });
+});
+
+describe("planSession", () => {
+  it("la primera semana usa las regresiones y menos tiempo", () => {
+    const { routine, scale } = planSession(builtin, planPosition(builtin));
+    expect(routine.id).toBe(`${builtin.id}:w1d1`);
+    expect(scale).toBe(0.75);
+    expect(keysOf(routine.phases)).toContain("knee-plank");
+    expect(keysOf(routine.phases)).not.toContain("low-plank");
+  });
+
+  it("las semanas con `extraRounds` suman rondas a las fases con ejercicios", () => {
+    const { routine } = planSession(builtin, planPosition(builtin, after(20)));
+    expect(routine.phases.map((p) => p.rounds)).toEqual(DEFAULT_ROUTINE.phases.map((p) => p.rounds + 1));
+    expect(keysOf(routine.phases)).toEqual(keysOf(DEFAULT_ROUTINE.phases));
+  });
+
+  it("rota las rutinas del plan día a día y no toca las fases de intervalos", () => {
+    const tabata = {
+      ...DEFAULT_ROUTINE, id: "tabata", name: "Tabata",
+      phases: DEFAULT_ROUTINE.phases.map((p) => (p.phase === "strength" ? { ...p, rounds: 1, interval: { format: "tabata" as const, work: 20, rest: 10, rounds: 8 } } : p)),
+    };
+    const plan = { ...builtin, id: "mixto", routines: [DEFAULT_ROUTINE, tabata], weeks: [{ extraRounds: 1 }] };
+    const day2 = planSession(plan, planPosition(plan, after(1))).routine;
+    expect(day2.name.startsWith("Tabata")).toBe(true);
+    expect(day2.phases.map((p) => p.rounds)).toEqual([2, 1, 2]);
+    expect(planSession(plan, planPosition(plan, after(2))).routine.name.startsWith(DEFAULT_ROUTINE.name)).toBe(true);
+  });
+});
+
+describe("recordSession", () => {
+  it("añade la sesión al progreso del plan y conserva su inicio", () => {
+    const s = recordSession(recordSession({ activeId: builtin.id, progress: {} }, builtin.id, "a", 10), builtin.id, "b", 20);
+    expect(s.progress[builtin.id]).toEqual({ startedAt: 10, sessions: [{ id: "a", at: 10 }, { id: "b", at: 20 }] });
+  });
+});
+
+describe("completesPlanDay", () => {
+  // Sesión de 10 pasos de trabajo con `done` hechos y `skipped` saltados
+  const day = (done: number, skipped: number, reachedEnd = true): SessionLog => ({
+    id: "s", startedAt: 0, endedAt: 0, routineId: `${builtin.id}:w1d1`, routineName: "", totalSteps: 10, pausedMs: 0, reachedEnd,
+    steps: Array.from({ length: done + skipped }, (_, i) => ({ key: "low-plank", title: "", phase: "strength", duration: 30, seconds: i < done ? 30 : 0, skipped: i >= done })),
+  });
+
+  it("pide llegar al final con al menos el 80 % del trabajo hecho", () => {
+    expect(completesPlanDay(day(8, 2))).toBe(true);
+    expect(completesPlanDay(day(7, 3))).toBe(false);
+    expect(completesPlanDay(day(10, 0, false))).toBe(false);
+  });
+
+  it("saltar con la barra hasta el final sin hacer nada no cuenta", () => {
+    expect(completesPlanDay(day(0, 0))).toBe(false);
+  });
+});
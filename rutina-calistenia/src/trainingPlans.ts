@@ -0,0 +1,113 @@
+import { type Routine, DEFAULT_ROUTINE } from "./routines";
+import { REGRESSIONS } from "./exercises";
+import type { SessionLog } from "./history";
+import { loadJSON, saveJSON } from "./storage";
+import { type Locale, t, tIn, getLocale } from "./i18n";
+
+// ===== Planes de varias semanas =====
+// Un plan repite sus rutinas (día 1 = la primera, día 2 = la segunda…, en rotación) `daysPerWeek`
+// veces por semana, y cada semana las ajusta:
+// - `scale`: multiplica tiempos, descansos y repeticiones (encima del ajuste global de duración).
+// - `extraRounds`: rondas de más en las fases con rondas (no en las de intervalos).
+// - `swap`: ejercicio -> variante para esa semana (p. ej. la regresión al principio).
+// Se avanza al completar sesiones, no por calendario: saltarse un día no hace perder la semana.
+export interface PlanWeek { scale?: number; extraRounds?: number; swap?: Record<string, string> }
+export interface TrainingPlan {
+  id: string;
+  name: string;
+  description?: string;
+  daysPerWeek: number;
+  routines: Routine[];
+  weeks: PlanWeek[];
+}
+
+// Sesiones completadas de un plan, en orden (ids del historial)
+export interface PlanProgress { startedAt: number; sessions: { id: string; at: number }[] }
+export interface TrainingState { activeId: string | null; progress: Record<string, PlanProgress> }
+
+// ===== Plan incluido: postura y muñecas, 6 semanas =====
+// Dos semanas con las regresiones y algo menos de tiempo, dos con la rutina original y dos con
+// una ronda más de fuerza.
+const builtin = (locale: Locale): TrainingPlan[] => [{
+  id: "posture-wrists-6w",
+  name: tIn(locale, "plans.builtin.postureWrists.name"),
+  description: tIn(locale, "plans.builtin.postureWrists.description"),
+  daysPerWeek: 5,
+  routines: [{ ...DEFAULT_ROUTINE, id: "posture-wrists-6w" }],
+  weeks: [
+    { scale: 0.75, swap: REGRESSIONS },
+    { scale: 0.85, swap: REGRESSIONS },
+    { scale: 1, swap: { "wrist-pushups": REGRESSIONS["wrist-pushups"] } },
+    { scale: 1 },
+    { scale: 1, extraRounds: 1 },
+    { scale: 1.1, extraRounds: 1 },
+  ],
+}];
+export const BUILTIN_PLAN_IDS = new Set(builtin(getLocale()).map((p) => p.id));
+
+// ===== Persistencia =====
+const PLANS_KEY = "training-plans"; // planes importados
+const STATE_KEY = "training-state";
+
+export const loadCustomPlans = () => loadJSON<TrainingPlan[]>(PLANS_KEY, []);
+export const saveCustomPlans = (plans: TrainingPlan[]) => saveJSON(PLANS_KEY, plans);
+export const allPlans = (custom: TrainingPlan[], locale: Locale) => [...builtin(locale), ...custom.filter((p) => !BUILTIN_PLAN_IDS.has(p.id))];
+
+export const loadTrainingState = () => loadJSON<TrainingState>(STATE_KEY, { activeId: null, progress: {} });
+export const saveTrainingState = (s: TrainingState) => saveJSON(STATE_KEY, s);
+
+// ===== Posición en el plan =====
+export const planLength = (p: TrainingPlan) => p.weeks.length * p.daysPerWeek;
+
+export interface PlanPosition { index: number; week: number; day: number; finished: boolean }
+export function planPosition(plan: TrainingPlan, progress?: PlanProgress): PlanPosition {
+  const done = progress?.sessions.length ?? 0;
+  const index = Math.min(done, planLength(plan) - 1);
+  return { index, week: Math.floor(index / plan.daysPerWeek) + 1, day: (index % plan.daysPerWeek) + 1, finished: done >= planLength(plan) };
+}
+
+// Rutina del día ya ajustada a la semana; su id es estable para que el historial la agrupe
+export function planSession(plan: TrainingPlan, pos: PlanPosition): { routine: Routine; scale: number } {
+  const base = plan.routines[(pos.day - 1) % plan.routines.length];
+  const week = plan.weeks[pos.week - 1] ?? {};
+  const swap = (key: string) => (week.swap && Object.hasOwn(week.swap, key) ? week.swap[key] : key);
+  const routine: Routine = {
+    ...base,
+    id: `${plan.id}:w${pos.week}d${pos.day}`,
+    name: `${base.name} — ${t("plans.position", { week: pos.week, day: pos.day })}`,
+    phases: base.phases.map((p) => ({
+      ...p,
+      rounds: p.interval || !p.items.length ? p.rounds : p.rounds + (week.extraRounds ?? 0),
+      items: p.items.map((it) => ({ ...it, key: swap(it.key) })),
+    })),
+  };
+  return { routine, scale: week.scale ?? 1 };
+}
+
+// Un día del plan cuenta si se llegó al final haciendo de verdad casi todo el trabajo: saltar con
+// la lista de pasos o la barra hasta el último tramo no basta.
+export const PLAN_DAY_MIN_DONE = 0.8;
+export function completesPlanDay(session: SessionLog) {
+  const done = session.steps.filter((s) => !s.skipped).length;
+  return session.reachedEnd && session.totalSteps > 0 && done >= Math.ceil(session.totalSteps * PLAN_DAY_MIN_DONE);
+}
+
+export function recordSession(s: TrainingState, planId: string, sessionId: string, at = Date.now()): TrainingState {
+  const prev = s.progress[planId] ?? { startedAt: at, sessions: [] };
+  return { ...s, progress: { ...s.progress, [planId]: { ...prev, sessions: [...prev.sessions, { id: sessionId, at }] } } };
+}
+
+export function resetProgress(s: TrainingState, planId: string): TrainingState {
+  const progress = { ...s.progress };
+  delete progress[planId];
+  return { ...s, progress };
+}
+
+// "75 % del tiempo • +1 ronda • Plancha baja → Plancha de rodillas"
+export function describeWeek(week: PlanWeek, title: (key: string) => string) {
+  const parts: string[] = [];
+  if (week.scale != null && week.scale !== 1) parts.push(t("plans.week.scale", { n: Math.round(week.scale * 100) }));
+  if (week.extraRounds) parts.push(t("plans.week.rounds", { n: week.extraRounds }));
+  for (const [from, to] of Object.entries(week.swap ?? {})) parts.push(`${title(from)} → ${title(to)}`);
+  return parts.length ? parts.join(" • ") : t("plans.week.base");
+}
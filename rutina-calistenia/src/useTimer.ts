@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import type { Timer } from "./timer";
+
+// Estado del temporizador como estado de React (se re-renderiza solo cuando cambia algo visible)
+export function useTimer(timer: Timer) {
+  return useSyncExternalStore((onChange) => timer.on("change", onChange), timer.getState);
+}
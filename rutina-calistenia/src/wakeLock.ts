@@ -0,0 +1,50 @@
+import { useEffect, useState } from "react";
+
+// ===== Pantalla encendida (Screen Wake Lock API) =====
+// El navegador suelta el bloqueo al ocultar la pestaña (y algunos al entrar o salir de pantalla
+// completa), así que mientras esté pedido se vuelve a solicitar en esos eventos.
+export type WakeLockStatus = "active" | "inactive" | "unsupported";
+
+export const wakeLockSupported = () => typeof navigator !== "undefined" && "wakeLock" in navigator;
+
+export function useWakeLock(enabled: boolean): WakeLockStatus {
+  const [active, setActive] = useState(false);
+
+  useEffect(() => {
+    if (!enabled || !wakeLockSupported()) return;
+    let sentinel: WakeLockSentinel | null = null;
+    let pending = false;
+    let cancelled = false;
+
+    async function acquire() {
+      if (pending || document.visibilityState !== "visible" || (sentinel && !sentinel.released)) return;
+      pending = true;
+      try {
+        const lock = await navigator.wakeLock.request("screen");
+        if (cancelled) { lock.release().catch(() => {}); return; }
+        sentinel = lock;
+        lock.addEventListener("release", () => { if (sentinel === lock) setActive(false); });
+        setActive(true);
+      } catch {
+        setActive(false); // p. ej. batería baja o política del navegador
+      } finally {
+        pending = false;
+      }
+    }
+
+    acquire();
+    document.addEventListener("visibilitychange", acquire);
+    document.addEventListener("fullscreenchange", acquire);
+    return () => {
+      cancelled = true;
+      document.removeEventListener("visibilitychange", acquire);
+      document.removeEventListener("fullscreenchange", acquire);
+      const lock = sentinel;
+      sentinel = null;
+      lock?.release().catch(() => {});
+      setActive(false);
+    };
+  }, [enabled]);
+
+  return !wakeLockSupported() ? "unsupported" : active ? "active" : "inactive";
+}
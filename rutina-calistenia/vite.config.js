@@ -1,8 +1,26 @@
 // vite.config.ts
+import { readFileSync } from 'node:fs'
+import { createHash } from 'node:crypto'
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwind from '@tailwindcss/vite'
 
+// Genera dist/sw.js a partir de src/sw.js con la lista de archivos del build para precargar
+function serviceWorker() {
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    generateBundle(_, bundle) {
+      const files = ['./', './manifest.webmanifest', './icon.svg', ...Object.keys(bundle).map((f) => `./${f}`)]
+      const version = createHash('sha1').update(files.join()).digest('hex').slice(0, 10)
+      const source = readFileSync(new URL('./src/sw.js', import.meta.url), 'utf8')
+        .replace('"__VERSION__"', JSON.stringify(version))
+        .replace('= __PRECACHE__', `= ${JSON.stringify(files)}`)
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source })
+    },
+  }
+}
+
 export default defineConfig({
-  plugins: [react(), tailwind()],
+  plugins: [react(), tailwind(), serviceWorker()],
 })